@@ -1,10 +1,68 @@
 import type { PlayerData } from '~/composables/usePlayer';
+import type { ScanCoverageChunk, ScanHistoryEntry } from '#shared/types/world';
 
 export interface PlayerStatusResponse {
   success: boolean;
   player: PlayerData;
 }
 
+export interface SwitchWorldResponse {
+  success: boolean;
+  world: {
+    id: string;
+    name: string;
+    description: string | null;
+  };
+}
+
+export interface StreamTokenResponse {
+  success: boolean;
+  token: string;
+  expiresAt: string;
+}
+
+export interface ScanBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface ScanTimeWindow {
+  since?: string;
+  until?: string;
+}
+
+export interface ScanHistoryResponse {
+  success: boolean;
+  scans: ScanHistoryEntry[];
+}
+
+export interface ScanHeatmapResponse {
+  success: boolean;
+  chunkSize: number;
+  chunks: ScanCoverageChunk[];
+}
+
+export async function fetchScanHistory(
+  query: Partial<ScanBounds> & ScanTimeWindow & { limit?: number } = {},
+): Promise<ScanHistoryResponse> {
+  return await $fetch<ScanHistoryResponse>('/api/player/scans', { query });
+}
+
+export async function fetchScanHeatmap(
+  bounds: ScanBounds,
+  window: ScanTimeWindow = {},
+): Promise<ScanHeatmapResponse> {
+  return await $fetch<ScanHeatmapResponse>('/api/player/scans/heatmap', {
+    query: { ...bounds, ...window },
+  });
+}
+
+export async function fetchStreamToken(): Promise<StreamTokenResponse> {
+  return await $fetch<StreamTokenResponse>('/api/player/stream-token');
+}
+
 export async function fetchPlayerStatus(): Promise<PlayerStatusResponse> {
   return await $fetch<PlayerStatusResponse>('/api/player/status');
 }
@@ -24,3 +82,10 @@ export async function syncPlayerInventory(
     body: { inventory },
   });
 }
+
+export async function switchPlayerWorld(worldId: string): Promise<SwitchWorldResponse> {
+  return await $fetch<SwitchWorldResponse>('/api/player/world', {
+    method: 'POST',
+    body: { worldId },
+  });
+}
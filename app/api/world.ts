@@ -0,0 +1,20 @@
+import type { WorldOverview } from '#shared/types/world';
+
+export interface WorldOverviewQuery {
+  // World cell to center on
+  x: number;
+  y: number;
+  span?: number;
+  resolution?: number;
+}
+
+export interface WorldOverviewResponse {
+  success: boolean;
+  overview: WorldOverview;
+}
+
+export async function fetchWorldOverview(
+  query: WorldOverviewQuery,
+): Promise<WorldOverviewResponse> {
+  return await $fetch<WorldOverviewResponse>('/api/world/overview', { query });
+}
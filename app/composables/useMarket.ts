@@ -0,0 +1,139 @@
+import { usePlayerStore } from '~/composables/usePlayer';
+import type { MarketDemand } from '#shared/types/world';
+
+export interface MarketQuote {
+  // Raw resource type or processed product key (see processing.config)
+  resourceType: string;
+  price: number;
+  basePrice: number;
+  change: number;
+  marketDemand: MarketDemand;
+}
+
+export interface MarketListing {
+  id: string;
+  sellerId: string;
+  resourceType: string;
+  quantity: number;
+  pricePerUnit: number;
+  isOwn: boolean;
+  createdAt: string;
+}
+
+interface TradeResponse {
+  success: boolean;
+  trade: {
+    resourceType: string;
+    quantity: number;
+    pricePerUnit: number;
+    total: number;
+    credits: number;
+    inventory: Record<string, number>;
+  };
+}
+
+export function useMarket() {
+  const playerStore = usePlayerStore();
+
+  const prices = ref<MarketQuote[]>([]);
+  const listings = ref<MarketListing[]>([]);
+  const isLoading = ref(false);
+  const isTrading = ref(false);
+  const marketError = ref<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      isLoading.value = true;
+      marketError.value = null;
+
+      const [pricesResponse, listingsResponse] = await Promise.all([
+        $fetch<{ prices: MarketQuote[] }>('/api/market/prices'),
+        $fetch<{ listings: MarketListing[] }>('/api/market/listings'),
+      ]);
+
+      prices.value = pricesResponse.prices;
+      listings.value = listingsResponse.listings;
+    } catch (error) {
+      console.error('Failed to load market:', error);
+      marketError.value = error instanceof Error ? error.message : 'Failed to load market';
+    } finally {
+      isLoading.value = false;
+    }
+  };
+
+  const runTrade = async (request: () => Promise<void>, fallback: string): Promise<boolean> => {
+    try {
+      isTrading.value = true;
+      marketError.value = null;
+      await request();
+      await refresh();
+      return true;
+    } catch (error) {
+      console.error(`${fallback}:`, error);
+      marketError.value = error instanceof Error ? error.message : fallback;
+      return false;
+    } finally {
+      isTrading.value = false;
+    }
+  };
+
+  const applyTrade = ({ trade }: TradeResponse) => {
+    playerStore.updateInventory(trade.inventory);
+    playerStore.updateCredits(trade.credits);
+  };
+
+  const sell = (resourceType: string, quantity: number) =>
+    runTrade(async () => {
+      applyTrade(
+        await $fetch<TradeResponse>('/api/market/sell', {
+          method: 'POST',
+          body: { resourceType, quantity },
+        }),
+      );
+    }, 'Failed to sell');
+
+  const createListing = (resourceType: string, quantity: number, pricePerUnit: number) =>
+    runTrade(async () => {
+      await $fetch('/api/market/listings', {
+        method: 'POST',
+        body: { resourceType, quantity, pricePerUnit },
+      });
+      playerStore.removeFromInventory(resourceType, quantity);
+    }, 'Failed to create listing');
+
+  const buyListing = (listingId: string, quantity?: number) =>
+    runTrade(async () => {
+      applyTrade(
+        await $fetch<TradeResponse>(`/api/market/listings/${listingId}/buy`, {
+          method: 'POST',
+          body: { quantity },
+        }),
+      );
+    }, 'Failed to buy listing');
+
+  const cancelListing = (listingId: string) =>
+    runTrade(async () => {
+      const response = await $fetch<{ inventory: Record<string, number> }>(
+        `/api/market/listings/${listingId}/cancel`,
+        { method: 'POST' },
+      );
+      playerStore.updateInventory(response.inventory);
+    }, 'Failed to cancel listing');
+
+  const getPrice = (resourceType: string) =>
+    prices.value.find((quote) => quote.resourceType === resourceType);
+
+  return {
+    prices: readonly(prices),
+    listings: readonly(listings),
+    isLoading: readonly(isLoading),
+    isTrading: readonly(isTrading),
+    marketError: readonly(marketError),
+    refresh,
+    sell,
+    createListing,
+    buyListing,
+    cancelListing,
+    getPrice,
+  };
+}
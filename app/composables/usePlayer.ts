@@ -6,6 +6,7 @@ import { fetchPlayerStatus } from '~/api/player';
 export interface PlayerData {
   id: string;
   sessionId: string;
+  worldId: string;
   name: string;
   inventory: Record<string, number>;
   credits: number;
@@ -22,6 +23,7 @@ export const usePlayerStore = defineStore('player', () => {
   const isAuthenticated = computed(() => data.value !== null);
   const playerId = computed(() => data.value?.id);
   const playerName = computed(() => data.value?.name || 'Anonymous Player');
+  const worldId = computed(() => data.value?.worldId);
 
   const setPlayerData = (playerData: PlayerData) => {
     data.value = playerData;
@@ -73,6 +75,12 @@ export const usePlayerStore = defineStore('player', () => {
     return data.value?.inventory[resourceType] || 0;
   };
 
+  const setWorldId = (newWorldId: string) => {
+    if (data.value) {
+      data.value.worldId = newWorldId;
+    }
+  };
+
   const credits = computed(() => data.value?.credits || 0);
 
   const updateCredits = (newCredits: number) => {
@@ -120,6 +128,8 @@ export const usePlayerStore = defineStore('player', () => {
     playerId,
     sessionId: readonly(sessionId),
     playerName,
+    worldId,
+    setWorldId,
     inventory,
     addToInventory,
     removeFromInventory,
@@ -0,0 +1,142 @@
+import { usePlayerStore } from '~/composables/usePlayer';
+import type {
+  ProcessingRecipe,
+  ProcessingStep,
+  ProcessingStepConfig,
+  ResourceType,
+} from '#shared/types/world';
+
+export interface ProcessingJob {
+  id: string;
+  facilityId: string;
+  inputType: string;
+  inputQuantity: number;
+  outputType: string;
+  outputQuantity: number;
+  startsAt: string;
+  completesAt: string;
+}
+
+export interface ProcessingFacility {
+  id: string;
+  step: ProcessingStep;
+  x: number;
+  y: number;
+  createdAt: string;
+  jobs: ProcessingJob[];
+}
+
+export interface ProcessingChain {
+  resourceType: ResourceType;
+  baseValue: number;
+  recipes: ProcessingRecipe[];
+}
+
+export function useProcessing() {
+  const playerStore = usePlayerStore();
+
+  const facilities = ref<ProcessingFacility[]>([]);
+  const steps = ref<ProcessingStepConfig[]>([]);
+  const chains = ref<ProcessingChain[]>([]);
+  const isLoading = ref(false);
+  const isSubmitting = ref(false);
+  const processingError = ref<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      isLoading.value = true;
+      processingError.value = null;
+
+      const [facilitiesResponse, recipesResponse] = await Promise.all([
+        $fetch<{ facilities: ProcessingFacility[] }>('/api/processing/facilities'),
+        chains.value.length > 0
+          ? null
+          : $fetch<{ steps: ProcessingStepConfig[]; chains: ProcessingChain[] }>(
+              '/api/processing/recipes',
+            ),
+      ]);
+
+      facilities.value = facilitiesResponse.facilities;
+      if (recipesResponse) {
+        steps.value = recipesResponse.steps;
+        chains.value = recipesResponse.chains;
+      }
+
+      // Finished jobs are delivered while listing facilities
+      await playerStore.refreshPlayer();
+    } catch (error) {
+      console.error('Failed to load processing facilities:', error);
+      processingError.value =
+        error instanceof Error ? error.message : 'Failed to load processing facilities';
+    } finally {
+      isLoading.value = false;
+    }
+  };
+
+  const submit = async (request: () => Promise<void>, fallback: string): Promise<boolean> => {
+    try {
+      isSubmitting.value = true;
+      processingError.value = null;
+      await request();
+      await refresh();
+      return true;
+    } catch (error) {
+      console.error(`${fallback}:`, error);
+      processingError.value = error instanceof Error ? error.message : fallback;
+      return false;
+    } finally {
+      isSubmitting.value = false;
+    }
+  };
+
+  const placeFacility = (step: ProcessingStep, x: number, y: number) =>
+    submit(async () => {
+      const response = await $fetch<{ credits: number }>('/api/processing/facilities', {
+        method: 'POST',
+        body: { step, x, y },
+      });
+      playerStore.updateCredits(response.credits);
+    }, 'Failed to build facility');
+
+  const queueJob = (facilityId: string, input: string, quantity: number) =>
+    submit(async () => {
+      const response = await $fetch<{ inventory: Record<string, number> }>(
+        `/api/processing/facilities/${facilityId}/jobs`,
+        { method: 'POST', body: { input, quantity } },
+      );
+      playerStore.updateInventory(response.inventory);
+    }, 'Failed to queue job');
+
+  const cancelJob = (jobId: string) =>
+    submit(async () => {
+      const response = await $fetch<{ inventory: Record<string, number> }>(
+        `/api/processing/jobs/${jobId}/cancel`,
+        { method: 'POST' },
+      );
+      playerStore.updateInventory(response.inventory);
+    }, 'Failed to cancel job');
+
+  /**
+   * Inventory entries a facility running `step` can accept, with the product they'd become
+   */
+  const getProcessableInputs = (step: ProcessingStep) =>
+    chains.value.flatMap((chain) =>
+      chain.recipes
+        .filter((recipe) => recipe.step === step && (playerStore.inventory[recipe.input] ?? 0) > 0)
+        .map((recipe) => ({ recipe, available: playerStore.inventory[recipe.input] ?? 0 })),
+    );
+
+  return {
+    facilities: readonly(facilities),
+    steps: readonly(steps),
+    chains: readonly(chains),
+    isLoading: readonly(isLoading),
+    isSubmitting: readonly(isSubmitting),
+    processingError: readonly(processingError),
+    refresh,
+    placeFacility,
+    queueJob,
+    cancelJob,
+    getProcessableInputs,
+  };
+}
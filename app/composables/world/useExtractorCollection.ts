@@ -0,0 +1,52 @@
+import { usePlayerStore } from '~/composables/usePlayer';
+import type { ExtractorError } from './useExtractorPlacement';
+
+export interface CollectExtractorsResponse {
+  success: boolean;
+  collected: Record<string, number>;
+  inventory: Record<string, number>;
+  extractorsCollected: number;
+}
+
+export function useExtractorCollection() {
+  const playerStore = usePlayerStore();
+
+  const isCollecting = ref(false);
+  const collectError = ref<ExtractorError | null>(null);
+  const lastCollected = ref<Record<string, number> | null>(null);
+
+  const runCollection = async (url: string): Promise<CollectExtractorsResponse | null> => {
+    try {
+      isCollecting.value = true;
+      collectError.value = null;
+
+      const response = await $fetch<CollectExtractorsResponse>(url, { method: 'POST' });
+
+      playerStore.updateInventory(response.inventory);
+      lastCollected.value = response.collected;
+      return response;
+    } catch (error: unknown) {
+      console.error('Extractor collection failed:', error);
+      collectError.value = {
+        message: error instanceof Error ? error.message : 'Failed to collect extractor output',
+        code: 'COLLECT_FAILED',
+      };
+      return null;
+    } finally {
+      isCollecting.value = false;
+    }
+  };
+
+  const collectExtractor = (extractorId: string) =>
+    runCollection(`/api/extractors/${extractorId}/collect`);
+
+  const collectAll = () => runCollection('/api/extractors/collect-all');
+
+  return {
+    isCollecting: readonly(isCollecting),
+    collectError: readonly(collectError),
+    lastCollected: readonly(lastCollected),
+    collectExtractor,
+    collectAll,
+  };
+}
@@ -0,0 +1,139 @@
+import { createEventHook } from '@vueuse/core';
+import { usePlayerStore } from '~/composables/usePlayer';
+import type { ResourceType } from '#shared/types/world';
+import type { ExtractorError, ExtractorPlacement, ExtractorUpgrade } from './useExtractorPlacement';
+
+export type ExtractorChange =
+  | { type: 'removed'; extractorId: string }
+  | { type: 'updated'; extractor: ExtractorPlacement };
+
+interface ExtractorRow {
+  id: string;
+  x: number;
+  y: number;
+  resourceType: string;
+  status: string;
+  efficiency: number;
+  storage: Record<string, number>;
+  createdAt: string;
+}
+
+interface DecommissionResponse {
+  success: boolean;
+  extractorId: string;
+  releasedClaim: boolean;
+  collected: Record<string, number>;
+  inventory: Record<string, number>;
+}
+
+interface UpgradeResponse {
+  success: boolean;
+  extractor: ExtractorRow;
+  credits: number;
+  tier: number;
+  nextUpgrade: ExtractorUpgrade | null;
+}
+
+// Shared across callers so the sidebar's actions reach the canvas that renders the sprites
+const extractorChanged = createEventHook<ExtractorChange>();
+
+export const onExtractorChanged = extractorChanged.on;
+
+const toPlacement = (
+  row: ExtractorRow,
+  nextUpgrade?: ExtractorUpgrade | null,
+): ExtractorPlacement => ({
+  id: row.id,
+  x: row.x,
+  y: row.y,
+  resourceType: row.resourceType as ResourceType,
+  status: row.status,
+  efficiency: row.efficiency,
+  nextUpgrade,
+  storage: row.storage,
+  createdAt: new Date(row.createdAt),
+});
+
+export function useExtractorLifecycle() {
+  const playerStore = usePlayerStore();
+
+  const isUpdating = ref(false);
+  const lifecycleError = ref<ExtractorError | null>(null);
+
+  const runAction = async <T>(
+    request: () => Promise<T>,
+    code: string,
+    fallback: string,
+  ): Promise<T | null> => {
+    try {
+      isUpdating.value = true;
+      lifecycleError.value = null;
+      return await request();
+    } catch (error: unknown) {
+      console.error(`${fallback}:`, error);
+      lifecycleError.value = {
+        message: error instanceof Error ? error.message : fallback,
+        code,
+      };
+      return null;
+    } finally {
+      isUpdating.value = false;
+    }
+  };
+
+  const decommissionExtractor = (extractorId: string) =>
+    runAction(
+      async () => {
+        const response = await $fetch<DecommissionResponse>(
+          `/api/extractors/${extractorId}/decommission`,
+          { method: 'POST' },
+        );
+
+        playerStore.updateInventory(response.inventory);
+        await extractorChanged.trigger({ type: 'removed', extractorId });
+        return response;
+      },
+      'DECOMMISSION_FAILED',
+      'Failed to decommission extractor',
+    );
+
+  const relocateExtractor = (extractor: ExtractorPlacement, x: number, y: number) =>
+    runAction(
+      async () => {
+        const response = await $fetch<{ extractor: ExtractorRow }>(
+          `/api/extractors/${extractor.id}/relocate`,
+          { method: 'POST', body: { x: Math.round(x), y: Math.round(y) } },
+        );
+
+        const relocated = toPlacement(response.extractor, extractor.nextUpgrade);
+        await extractorChanged.trigger({ type: 'updated', extractor: relocated });
+        return relocated;
+      },
+      'RELOCATE_FAILED',
+      'Failed to relocate extractor',
+    );
+
+  const upgradeExtractor = (extractorId: string) =>
+    runAction(
+      async () => {
+        const response = await $fetch<UpgradeResponse>(`/api/extractors/${extractorId}/upgrade`, {
+          method: 'POST',
+        });
+
+        playerStore.updateCredits(response.credits);
+        const upgraded = toPlacement(response.extractor, response.nextUpgrade);
+        await extractorChanged.trigger({ type: 'updated', extractor: upgraded });
+        return upgraded;
+      },
+      'UPGRADE_FAILED',
+      'Failed to upgrade extractor',
+    );
+
+  return {
+    isUpdating: readonly(isUpdating),
+    lifecycleError: readonly(lifecycleError),
+    decommissionExtractor,
+    relocateExtractor,
+    upgradeExtractor,
+  };
+}
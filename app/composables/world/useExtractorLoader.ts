@@ -1,4 +1,4 @@
-import type { ExtractorPlacement } from './useExtractorPlacement';
+import type { ExtractorPlacement, ExtractorUpgrade } from './useExtractorPlacement';
 import type { ResourceType } from '#shared/types/world';
 
 interface ExtractorListResponse {
@@ -9,15 +9,20 @@ interface ExtractorListResponse {
     resourceType: ResourceType;
     status: string;
     efficiency: number;
+    nextUpgrade: ExtractorUpgrade | null;
+    storage: Record<string, number>;
+    lastTick: string;
     createdAt: string;
   }>;
   count: number;
+  storageCapacity: number;
 }
 
 export function useExtractorLoader() {
   const isLoading = ref(false);
   const loadError = ref<{ message: string; code?: string } | null>(null);
   const lastLoaded = ref<Date | null>(null);
+  const storageCapacity = ref<number | null>(null);
 
   const loadExtractors = async (): Promise<ExtractorPlacement[]> => {
     try {
@@ -33,9 +38,12 @@ export function useExtractorLoader() {
         resourceType: extractor.resourceType as ResourceType,
         status: extractor.status,
         efficiency: extractor.efficiency,
+        nextUpgrade: extractor.nextUpgrade,
+        storage: extractor.storage,
         createdAt: new Date(extractor.createdAt),
       }));
 
+      storageCapacity.value = response.storageCapacity;
       lastLoaded.value = new Date();
       return extractors;
     } catch (error) {
@@ -58,6 +66,7 @@ export function useExtractorLoader() {
     isLoading: readonly(isLoading),
     loadError: readonly(loadError),
     lastLoaded: readonly(lastLoaded),
+    storageCapacity: readonly(storageCapacity),
     loadExtractors,
     clearLoadError,
   };
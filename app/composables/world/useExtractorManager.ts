@@ -1,6 +1,7 @@
 import type { ExtractorPlacement } from './useExtractorPlacement';
 import type { ResourceType } from '#shared/types/world';
 import { getResourceColor } from '~/utils/resource-colors';
+import { usePlayerStore } from '~/composables/usePlayer';
 
 export interface ExtractorSprite {
   id: string;
@@ -11,12 +12,15 @@ export interface ExtractorSprite {
   color: number;
   efficiency: number;
   isAnimated: boolean;
+  playerId?: string;
 }
 
 export function useExtractorManager() {
+  const playerStore = usePlayerStore();
   const extractors = ref<Map<string, ExtractorSprite>>(new Map());
 
-  const addExtractor = (extractor: ExtractorPlacement) => {
+  // Placed, listed and lifecycle extractors are the player's own; pushed ones name their owner
+  const addExtractor = (extractor: ExtractorPlacement, playerId = playerStore.playerId) => {
     const sprite: ExtractorSprite = {
       id: extractor.id,
       x: extractor.x,
@@ -26,6 +30,7 @@ export function useExtractorManager() {
       color: getResourceColor(extractor.resourceType),
       efficiency: extractor.efficiency,
       isAnimated: extractor.status === 'EXTRACTING',
+      playerId,
     };
 
     extractors.value.set(extractor.id, sprite);
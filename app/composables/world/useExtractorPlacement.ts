@@ -7,9 +7,17 @@ export interface ExtractorPlacement {
   resourceType: ResourceType;
   status: string;
   efficiency: number;
+  nextUpgrade?: ExtractorUpgrade | null;
+  storage?: Record<string, number>;
   createdAt: Date;
 }
 
+export interface ExtractorUpgrade {
+  tier: number;
+  efficiency: number;
+  cost: number;
+}
+
 export interface PlaceExtractorRequest {
   x: number;
   y: number;
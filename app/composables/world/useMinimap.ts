@@ -0,0 +1,138 @@
+import { useDebounceFn } from '@vueuse/core';
+import { fetchWorldOverview } from '~/api/world';
+import { WORLD_CONFIG } from '~/config/world.config';
+import type { WorldOverview } from '#shared/types/world';
+
+export interface UseMinimapOptions {
+  // Cells per side the minimap covers, and samples per side it is drawn from
+  span?: number;
+  resolution?: number;
+  debounceDuration?: number;
+}
+
+// Share of the span the camera may drift from the overview's center before it is fetched again
+const RECENTER_THRESHOLD = 0.25;
+
+/**
+ * Coarse overview of the world around the camera for the minimap. Positions it hands out are
+ * fractions of the overview, 0-1 from its top-left corner, so the component can draw at any size.
+ */
+export function useMinimap(
+  container: Ref<HTMLElement | null | undefined>,
+  options: UseMinimapOptions = {},
+) {
+  const { span = 2048, resolution = 64, debounceDuration = 300 } = options;
+  const { cellSize } = WORLD_CONFIG.chunk;
+
+  const worldStore = useWorldStore();
+  const overview = ref<WorldOverview | null>(null);
+  const isLoading = ref(false);
+  const error = ref<string | null>(null);
+
+  const getViewport = () => {
+    if (!container.value) return null;
+    return worldStore.getViewportBounds(container.value.clientWidth, container.value.clientHeight);
+  };
+
+  // Camera center in world cells
+  const getCenterCell = () => {
+    const viewport = getViewport();
+    if (!viewport) return null;
+    return {
+      x: Math.floor((viewport.left + viewport.right) / 2 / cellSize),
+      y: Math.floor((viewport.top + viewport.bottom) / 2 / cellSize),
+    };
+  };
+
+  const toFraction = (cellX: number, cellY: number) => {
+    const current = overview.value!;
+    const size = current.step * current.resolution;
+    return {
+      x: (cellX - current.originX) / size,
+      y: (cellY - current.originY) / size,
+    };
+  };
+
+  const viewportRect = computed(() => {
+    if (!overview.value) return null;
+
+    const viewport = getViewport();
+    if (!viewport) return null;
+
+    const topLeft = toFraction(viewport.left / cellSize, viewport.top / cellSize);
+    const bottomRight = toFraction(viewport.right / cellSize, viewport.bottom / cellSize);
+    return {
+      x: topLeft.x,
+      y: topLeft.y,
+      width: bottomRight.x - topLeft.x,
+      height: bottomRight.y - topLeft.y,
+    };
+  });
+
+  const refresh = async () => {
+    const center = getCenterCell();
+    if (!center) return;
+
+    try {
+      isLoading.value = true;
+      error.value = null;
+
+      const response = await fetchWorldOverview({ ...center, span, resolution });
+      overview.value = response.overview;
+    } catch (err) {
+      console.error('Failed to load world overview:', err);
+      error.value = err instanceof Error ? err.message : 'Failed to load world overview';
+    } finally {
+      isLoading.value = false;
+    }
+  };
+
+  const debouncedRefresh = useDebounceFn(refresh, debounceDuration);
+
+  /**
+   * Center the camera on a point of the minimap, given as fractions of the overview
+   */
+  const teleport = (fractionX: number, fractionY: number) => {
+    const current = overview.value;
+    if (!current || !container.value) return;
+
+    const size = current.step * current.resolution;
+    const worldX = (current.originX + fractionX * size) * cellSize;
+    const worldY = (current.originY + fractionY * size) * cellSize;
+    const { zoom } = worldStore.camera;
+
+    worldStore.setPosition(
+      container.value.clientWidth / 2 - worldX * zoom,
+      container.value.clientHeight / 2 - worldY * zoom,
+    );
+  };
+
+  watch(
+    () => worldStore.camera,
+    () => {
+      const current = overview.value;
+      const center = getCenterCell();
+      if (!current || !center) return;
+
+      const size = current.step * current.resolution;
+      const overviewCenterX = current.originX + size / 2;
+      const overviewCenterY = current.originY + size / 2;
+      if (
+        Math.abs(center.x - overviewCenterX) > size * RECENTER_THRESHOLD ||
+        Math.abs(center.y - overviewCenterY) > size * RECENTER_THRESHOLD
+      ) {
+        debouncedRefresh();
+      }
+    },
+    { deep: true },
+  );
+
+  return {
+    overview: readonly(overview),
+    isLoading: readonly(isLoading),
+    error: readonly(error),
+    viewportRect,
+    refresh,
+    teleport,
+  };
+}
@@ -1,9 +1,14 @@
-import type { ResourceType } from '#shared/types/world';
+import type { ResourceType, ResourceVein } from '#shared/types/world';
 import { getResourceColor } from '~/utils/resource-colors';
 import { useExtractorManager } from '~/composables/world/useExtractorManager';
 import { usePlacementValidation } from '~/composables/world/usePlacementValidation';
+import { WORLD_CONFIG } from '~/config/world.config';
 
-type MinimalScan = { x: number; y: number; discovered?: { type: ResourceType } | null } | null;
+type MinimalScan = {
+  x: number;
+  y: number;
+  discovered?: Pick<ResourceVein, 'type' | 'location' | 'deposit'> | null;
+} | null;
 
 interface ValidateResponse {
   valid: boolean;
@@ -43,7 +48,11 @@ export function usePlacementPreview(
   const message = ref<string>('');
   const cursor = ref({ x: 0, y: 0 });
   const world = ref({ x: 0, y: 0 });
-  const snapped = computed(() => ({ x: Math.floor(world.value.x), y: Math.floor(world.value.y) }));
+  // The cell under the cursor, which is what placement is validated against
+  const snapped = computed(() => ({
+    x: Math.floor(world.value.x / WORLD_CONFIG.chunk.cellSize),
+    y: Math.floor(world.value.y / WORLD_CONFIG.chunk.cellSize),
+  }));
   const showPreview = computed(() => {
     const hasDiscovery = options.currentScanResult?.value?.discovered != null;
     return !!selectedResource.value && !!hasDiscovery;
@@ -1,12 +1,13 @@
-import type { ResourceType } from '#shared/types/world';
+import type { ResourceType, ResourceVein } from '#shared/types/world';
+import { isInVeinFootprint } from '#shared/utils/vein-footprint';
+
+type DiscoveredVein = Pick<ResourceVein, 'type' | 'location' | 'deposit'>;
 
 export interface PlacementValidationInput {
   x: number;
   y: number;
   resourceType: ResourceType | null;
-  scanResult:
-  | ({ x: number; y: number; discovered?: { type: ResourceType } | null } | null)
-  | undefined;
+  scanResult: ({ x: number; y: number; discovered?: DiscoveredVein | null } | null) | undefined;
   extractorAt: (x: number, y: number) => unknown | undefined;
 }
 
@@ -31,10 +32,8 @@ export function usePlacementValidation() {
       return { valid: false, reason: 'Select a resource type to place' };
     }
 
-    const targetX = Math.round(scanResult.x);
-    const targetY = Math.round(scanResult.y);
-    if (x !== targetX || y !== targetY) {
-      return { valid: false, reason: 'Move to the scanned tile to place' };
+    if (!isInVeinFootprint(scanResult.discovered, x, y)) {
+      return { valid: false, reason: 'Move onto the ore body to place' };
     }
 
     if ((scanResult.discovered?.type as ResourceType | undefined) !== resourceType) {
@@ -0,0 +1,116 @@
+import { useDebounceFn } from '@vueuse/core';
+import { fetchScanHeatmap, type ScanBounds } from '~/api/player';
+import { WORLD_CONFIG } from '~/config/world.config';
+import type { ScanCoverageChunk } from '#shared/types/world';
+
+// Matches the server's cap on how many chunks per side one heatmap request may cover
+const MAX_HEATMAP_CHUNKS = 64;
+
+export interface UseScanHeatmapOptions {
+  renderer: {
+    setScanHeatmap: (chunks: readonly ScanCoverageChunk[]) => void;
+    clearScanHeatmap: () => void;
+  };
+  debounceDuration?: number;
+}
+
+/**
+ * Coverage heatmap of the player's past scans around the current viewport. While visible it
+ * follows the camera and refreshes after every new scan.
+ */
+export function useScanHeatmap(
+  container: Ref<HTMLElement | null | undefined>,
+  options: UseScanHeatmapOptions,
+) {
+  const { renderer, debounceDuration = 300 } = options;
+
+  const worldStore = useWorldStore();
+  const isVisible = ref(false);
+  const isLoading = ref(false);
+  const error = ref<string | null>(null);
+  const chunks = ref<ScanCoverageChunk[]>([]);
+
+  // Viewport in world cells, clamped around its center to what one request may cover
+  const getViewportCellBounds = (): ScanBounds | null => {
+    if (!container.value) return null;
+
+    const viewport = worldStore.getViewportBounds(
+      container.value.clientWidth,
+      container.value.clientHeight,
+    );
+    const { cellSize, size } = WORLD_CONFIG.chunk;
+    const halfSpan = (MAX_HEATMAP_CHUNKS * size) / 2;
+    const centerX = (viewport.left + viewport.right) / 2 / cellSize;
+    const centerY = (viewport.top + viewport.bottom) / 2 / cellSize;
+
+    return {
+      minX: Math.floor(Math.max(viewport.left / cellSize, centerX - halfSpan)),
+      minY: Math.floor(Math.max(viewport.top / cellSize, centerY - halfSpan)),
+      maxX: Math.floor(Math.min(viewport.right / cellSize, centerX + halfSpan)),
+      maxY: Math.floor(Math.min(viewport.bottom / cellSize, centerY + halfSpan)),
+    };
+  };
+
+  const refresh = async () => {
+    if (!isVisible.value) return;
+
+    const bounds = getViewportCellBounds();
+    if (!bounds) return;
+
+    try {
+      isLoading.value = true;
+      error.value = null;
+
+      const response = await fetchScanHeatmap(bounds);
+      chunks.value = response.chunks;
+      if (isVisible.value) {
+        renderer.setScanHeatmap(response.chunks);
+      }
+    } catch (err) {
+      console.error('Failed to load scan heatmap:', err);
+      error.value = err instanceof Error ? err.message : 'Failed to load scan heatmap';
+    } finally {
+      isLoading.value = false;
+    }
+  };
+
+  const debouncedRefresh = useDebounceFn(refresh, debounceDuration);
+
+  const show = async () => {
+    isVisible.value = true;
+    await refresh();
+  };
+
+  const hide = () => {
+    isVisible.value = false;
+    chunks.value = [];
+    renderer.clearScanHeatmap();
+  };
+
+  const toggle = async () => {
+    if (isVisible.value) {
+      hide();
+    } else {
+      await show();
+    }
+  };
+
+  watch(
+    () => worldStore.camera,
+    () => {
+      if (isVisible.value) debouncedRefresh();
+    },
+    { deep: true },
+  );
+
+  return {
+    isVisible: readonly(isVisible),
+    isLoading: readonly(isLoading),
+    error: readonly(error),
+    chunks: readonly(chunks),
+    show,
+    hide,
+    toggle,
+    refresh,
+  };
+}
@@ -1,4 +1,14 @@
 import { useWorldScan } from '~/composables/world/useWorldScan';
+import { WORLD_CONFIG } from '~/config/world.config';
+import { ScanLevel } from '#shared/types/world';
+
+// Number keys pick the scan level, shallowest first
+const SCAN_LEVEL_KEYS: Record<string, ScanLevel> = {
+  Digit1: ScanLevel.SURFACE,
+  Digit2: ScanLevel.SHALLOW,
+  Digit3: ScanLevel.DEEP,
+  Digit4: ScanLevel.GEOLOGICAL,
+};
 
 export interface UseScanInteractionOptions {
   enableKeyboardScan?: boolean;
@@ -16,6 +26,7 @@ export function useScanInteraction(
   const { performScan, isScanning, lastScanResult, scanError, clearScanResult } = useWorldScan();
 
   const lastMousePosition = ref({ x: 0, y: 0 });
+  const scanLevel = ref<ScanLevel>(ScanLevel.SURFACE);
 
   const handleScanAtPosition = async (screenX: number, screenY: number) => {
     if (isScanning.value || !element.value) return;
@@ -24,17 +35,24 @@ export function useScanInteraction(
     const canvasX = screenX - rect.left;
     const canvasY = screenY - rect.top;
 
+    // Scans, veins and extractors are all placed in cells, the camera in pixels
     const worldCoords = worldStore.screenToWorld(canvasX, canvasY);
+    const cellX = Math.floor(worldCoords.x / WORLD_CONFIG.chunk.cellSize);
+    const cellY = Math.floor(worldCoords.y / WORLD_CONFIG.chunk.cellSize);
 
-    console.log(
-      `Scanning at screen: (${canvasX}, ${canvasY}) -> world: (${worldCoords.x}, ${worldCoords.y})`,
-    );
-
-    await performScan(worldCoords.x, worldCoords.y);
+    await performScan(cellX, cellY, undefined, scanLevel.value);
   };
 
   const handleKeyDown = async (event: KeyboardEvent) => {
-    if (!enableKeyboardScan || isScanning.value) return;
+    if (!enableKeyboardScan) return;
+
+    const selectedLevel = SCAN_LEVEL_KEYS[event.code];
+    if (selectedLevel) {
+      scanLevel.value = selectedLevel;
+      return;
+    }
+
+    if (isScanning.value) return;
 
     if (event.code === scanKey) {
       event.preventDefault();
@@ -80,6 +98,7 @@ export function useScanInteraction(
     isScanning,
     lastScanResult,
     scanError,
+    scanLevel,
     performScan,
     clearScanResult,
     handleScanAtPosition,
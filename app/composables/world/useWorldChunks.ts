@@ -1,12 +1,28 @@
-import type { ChunkCoordinate, WorldConfig, TerrainGrid, ResourceVein } from '#shared/types/world';
+import type {
+  ChunkCoordinate,
+  ChunkDetail,
+  ChunkSummary,
+  WorldConfig,
+  TerrainGrid,
+  ResourceVein,
+} from '#shared/types/world';
 
 export interface ChunkWithResources {
   terrain: TerrainGrid;
+  // Only veins the player has discovered; the server withholds the rest
   resources: ResourceVein[];
+  explored: boolean;
+}
+
+export interface SummarizedChunk {
+  summary: ChunkSummary;
+  explored: boolean;
 }
 
 export function useWorldChunks(config: WorldConfig) {
   const chunks = ref(new Map<string, ChunkWithResources>());
+  // Chunks only streamed as a summary while zoomed far out; replaced once the full chunk loads
+  const summaries = ref(new Map<string, SummarizedChunk>());
 
   const getChunkKey = (coordinate: ChunkCoordinate): string => {
     return `${coordinate.chunkX},${coordinate.chunkY}`;
@@ -96,18 +112,56 @@ export function useWorldChunks(config: WorldConfig) {
     coordinate: ChunkCoordinate,
     terrain: TerrainGrid,
     resources: ResourceVein[] = [],
+    explored = true,
   ) => {
     const chunkKey = getChunkKey(coordinate);
-    chunks.value.set(chunkKey, { terrain, resources });
+    chunks.value.set(chunkKey, { terrain, resources, explored });
+    summaries.value.delete(chunkKey);
+  };
+
+  /**
+   * Replace one vein of a loaded chunk, returning the updated chunk or undefined when the chunk
+   * isn't loaded or the player hasn't discovered the vein
+   */
+  const updateVein = (
+    coordinate: ChunkCoordinate,
+    veinId: string,
+    update: (vein: ResourceVein) => ResourceVein,
+  ): ChunkWithResources | undefined => {
+    const chunkKey = getChunkKey(coordinate);
+    const chunk = chunks.value.get(chunkKey);
+    if (!chunk?.resources.some((vein) => vein.id === veinId)) return undefined;
+
+    const updated = {
+      ...chunk,
+      resources: chunk.resources.map((vein) => (vein.id === veinId ? update(vein) : vein)),
+    };
+    chunks.value.set(chunkKey, updated);
+    return updated;
+  };
+
+  const setChunkSummary = (coordinate: ChunkCoordinate, summary: ChunkSummary, explored = true) => {
+    const chunkKey = getChunkKey(coordinate);
+    summaries.value.set(chunkKey, { summary, explored });
   };
 
   const removeChunk = (coordinate: ChunkCoordinate) => {
     const chunkKey = getChunkKey(coordinate);
     chunks.value.delete(chunkKey);
+    summaries.value.delete(chunkKey);
   };
 
-  const getUnloadedChunks = (coordinates: ChunkCoordinate[]): ChunkCoordinate[] => {
-    return coordinates.filter((coord) => !isChunkLoaded(coord));
+  /**
+   * Chunks not yet loaded at `detail`; a full chunk also satisfies a summary request
+   */
+  const getUnloadedChunks = (
+    coordinates: ChunkCoordinate[],
+    detail: ChunkDetail = 'full',
+  ): ChunkCoordinate[] => {
+    return coordinates.filter(
+      (coord) =>
+        !isChunkLoaded(coord) && (detail === 'full' || !summaries.value.has(getChunkKey(coord))),
+    );
   };
 
   const sortChunksByDistance = (
@@ -128,13 +182,24 @@ export function useWorldChunks(config: WorldConfig) {
     });
   };
 
+  // Every chunk with something to draw, full or summarized
+  const getLoadedChunks = (): ChunkCoordinate[] => {
+    const chunkKeys = new Set([...chunks.value.keys(), ...summaries.value.keys()]);
+    return Array.from(chunkKeys).map((chunkKey) => {
+      const [chunkX, chunkY] = chunkKey.split(',').map(Number) as [number, number];
+      return { chunkX, chunkY };
+    });
+  };
+
   const clearChunks = () => {
     chunks.value.clear();
+    summaries.value.clear();
   };
 
   const getChunkStats = () => {
     return {
       totalChunks: chunks.value.size,
+      summarizedChunks: summaries.value.size,
       chunkKeys: Array.from(chunks.value.keys()),
     };
   };
@@ -151,9 +216,12 @@ export function useWorldChunks(config: WorldConfig) {
     getChunkTerrain,
     getChunkResources,
     setChunk,
+    updateVein,
+    setChunkSummary,
     removeChunk,
     getUnloadedChunks,
     sortChunksByDistance,
+    getLoadedChunks,
     clearChunks,
     getChunkStats,
   };
@@ -3,14 +3,20 @@ import { useWorldRenderer } from '~/composables/world/useWorldRenderer';
 import { useWorldWebSocket } from '~/composables/world/useWorldWebSocket';
 import { useWorldChunks } from '~/composables/world/useWorldChunks';
 import { useWorldInteraction } from '~/composables/world/useWorldInteraction';
+import { usePlayerStore } from '~/composables/usePlayer';
+import { switchPlayerWorld } from '~/api/player';
+import { WORLD_CONFIG } from '~/config/world.config';
 import type {
   RendererConfig,
   ChunkCoordinate,
   ChunkDataMessage,
+  ChunkDetail,
+  ChunkSummaryMessage,
   WorldConfig,
   CameraEvent,
   ErrorMessage,
   ViewportCompleteMessage,
+  ViewportCancelledMessage,
 } from '#shared/types/world';
 
 export interface UseWorldManagerOptions {
@@ -25,6 +31,7 @@ export function useWorldManager(
   options: UseWorldManagerOptions = {},
 ) {
   const worldStore = useWorldStore();
+  const playerStore = usePlayerStore();
 
   const worldConfig: WorldConfig = worldStore.worldConfig;
 
@@ -41,6 +48,10 @@ export function useWorldManager(
   const isInitialized = ref(false);
   const isLoading = ref(false);
   const error = ref<Error | null>(null);
+  const currentWorldId = computed(() => playerStore.worldId);
+
+  const worldChangedHandlers: Array<(worldId: string) => void> = [];
+  let lastViewportKey = '';
 
   const initialize = async (rendererConfig?: RendererConfig) => {
     try {
@@ -86,9 +97,24 @@ export function useWorldManager(
       };
 
       const resources = message.resources || [];
-      chunks.setChunk(coordinate, message.data, resources);
+      const explored = message.explored ?? true;
+      chunks.setChunk(coordinate, message.data, resources, explored);
+
+      renderer.addChunk(coordinate, message.data, resources, explored);
+    });
+
+    webSocket.onChunkSummary((message: ChunkSummaryMessage) => {
+      const coordinate: ChunkCoordinate = {
+        chunkX: message.chunkX,
+        chunkY: message.chunkY,
+      };
+
+      // A full chunk may have arrived first; it already covers what the summary would draw
+      if (chunks.isChunkLoaded(coordinate)) return;
 
-      renderer.addChunk(coordinate, message.data, resources);
+      const explored = message.explored ?? true;
+      chunks.setChunkSummary(coordinate, message.summary, explored);
+      renderer.addChunkSummary(coordinate, message.summary, explored);
     });
 
     webSocket.onError((message: ErrorMessage) => {
@@ -98,6 +124,10 @@ export function useWorldManager(
     webSocket.onViewportComplete((message: ViewportCompleteMessage) => {
       console.log('Viewport update complete:', message.chunksStreamed, 'chunks loaded');
     });
+
+    webSocket.onViewportCancelled((message: ViewportCancelledMessage) => {
+      console.log(`Viewport stream ${message.reason}:`, message.droppedChunks, 'chunks dropped');
+    });
   };
 
   const loadVisibleChunks = () => {
@@ -108,18 +138,32 @@ export function useWorldManager(
       container.value.clientHeight,
     );
 
-    const visibleChunks = chunks.getVisibleChunksForViewport(viewport);
-    const unloadedChunks = chunks.getUnloadedChunks(visibleChunks);
+    // Far out, only each chunk's terrain summary is streamed; zooming back in fetches the rest
+    const detail: ChunkDetail =
+      worldStore.camera.zoom < WORLD_CONFIG.lod.summaryBelowZoom ? 'summary' : 'full';
 
-    if (unloadedChunks.length > 0) {
-      const sortedChunks = chunks.sortChunksByDistance(
-        unloadedChunks,
-        worldStore.camera.x,
-        worldStore.camera.y,
-      );
+    const visibleChunks = chunks.getVisibleChunksForViewport(viewport);
+    const unloadedChunks = chunks.getUnloadedChunks(visibleChunks, detail);
+
+    // The server keys live change subscriptions off the viewport, so report every move into
+    // new chunks even when all of them are already loaded
+    const viewportKey = `${detail}:${visibleChunks.map(({ chunkX, chunkY }) => `${chunkX},${chunkY}`).join(';')}`;
+    if (unloadedChunks.length === 0 && viewportKey === lastViewportKey) return;
+    lastViewportKey = viewportKey;
+
+    const sortedChunks = chunks.sortChunksByDistance(
+      unloadedChunks,
+      worldStore.camera.x,
+      worldStore.camera.y,
+    );
 
-      webSocket.requestViewportUpdate(sortedChunks, worldStore.camera.x, worldStore.camera.y);
-    }
+    webSocket.requestViewportUpdate(
+      sortedChunks,
+      worldStore.camera.x,
+      worldStore.camera.y,
+      visibleChunks,
+      detail,
+    );
   };
 
   const debouncedLoadChunks = useDebounceFn(loadVisibleChunks, options.debounceDuration ?? 250);
@@ -140,6 +184,67 @@ export function useWorldManager(
     });
   };
 
+  const clearWorldState = () => {
+    for (const coordinate of chunks.getLoadedChunks()) {
+      renderer.removeChunk(coordinate);
+    }
+    chunks.clearChunks();
+    renderer.clearAllExtractors();
+  };
+
+  /**
+   * Move the player to another world and restream the viewport from it.
+   * The socket resolves its world when it opens, so it has to be reconnected after the switch.
+   */
+  const switchWorld = async (worldId: string) => {
+    if (worldId === currentWorldId.value) return;
+
+    try {
+      isLoading.value = true;
+      error.value = null;
+
+      const response = await switchPlayerWorld(worldId);
+      playerStore.setWorldId(response.world.id);
+
+      webSocket.disconnect();
+      clearWorldState();
+      lastViewportKey = '';
+      await webSocket.connect();
+
+      loadVisibleChunks();
+
+      for (const handler of worldChangedHandlers) {
+        handler(response.world.id);
+      }
+
+      console.log(`Switched to world ${response.world.name}`);
+    } catch (err) {
+      error.value = err as Error;
+      console.error('Failed to switch world:', err);
+      throw err;
+    } finally {
+      isLoading.value = false;
+    }
+  };
+
+  /**
+   * Re-fetch loaded chunks whose fog or discovered veins may have changed
+   */
+  const refreshChunks = (coordinates: ChunkCoordinate[]) => {
+    const unique = new Map(
+      coordinates.map((coordinate) => [chunks.getChunkKey(coordinate), coordinate]),
+    );
+    for (const coordinate of unique.values()) {
+      if (chunks.isChunkLoaded(coordinate)) {
+        webSocket.requestChunk(coordinate);
+      }
+    }
+  };
+
+  const onWorldChanged = (handler: (worldId: string) => void) => {
+    worldChangedHandlers.push(handler);
+  };
+
   const destroy = () => {
     renderer.destroy();
     webSocket.disconnect();
@@ -170,6 +275,7 @@ export function useWorldManager(
     isInitialized: readonly(isInitialized),
     isLoading: readonly(isLoading),
     error: readonly(error),
+    currentWorldId,
     renderer,
     webSocket,
     chunks,
@@ -180,5 +286,8 @@ export function useWorldManager(
     destroy,
     loadVisibleChunks,
     debouncedLoadChunks,
+    refreshChunks,
+    switchWorld,
+    onWorldChanged,
   };
 }
@@ -3,9 +3,11 @@ import { PixiRendererService } from '~/services/PixiRendererService';
 import type {
   RendererConfig,
   ChunkCoordinate,
+  ChunkSummary,
   TerrainGrid,
   RendererStats,
   ResourceVein,
+  ScanCoverageChunk,
 } from '#shared/types/world';
 import type { ExtractorSprite } from './useExtractorManager';
 import { WORLD_CONFIG } from '~/config/world.config';
@@ -45,9 +47,15 @@ export function useWorldRenderer(container: Ref<HTMLElement | null | undefined>)
     coordinate: ChunkCoordinate,
     data: TerrainGrid,
     resources: ResourceVein[] = [],
+    explored = true,
   ) => {
     if (!rendererService) return;
-    rendererService.addChunk(coordinate, data, resources);
+    rendererService.addChunk(coordinate, data, resources, explored);
+  };
+
+  const addChunkSummary = (coordinate: ChunkCoordinate, summary: ChunkSummary, explored = true) => {
+    if (!rendererService) return;
+    rendererService.addChunkSummary(coordinate, summary, explored);
   };
 
   const removeChunk = (coordinate: ChunkCoordinate) => {
@@ -59,9 +67,10 @@ export function useWorldRenderer(container: Ref<HTMLElement | null | undefined>)
     coordinate: ChunkCoordinate,
     data: TerrainGrid,
     resources: ResourceVein[] = [],
+    explored = true,
   ) => {
     if (!rendererService) return;
-    rendererService.updateChunk(coordinate, data, resources);
+    rendererService.updateChunk(coordinate, data, resources, explored);
   };
 
   const resize = (width: number, height: number) => {
@@ -108,6 +117,16 @@ export function useWorldRenderer(container: Ref<HTMLElement | null | undefined>)
     rendererService.hidePlacementPreview();
   };
 
+  const setScanHeatmap = (chunks: readonly ScanCoverageChunk[]) => {
+    if (!rendererService) return;
+    rendererService.setScanHeatmap(chunks);
+  };
+
+  const clearScanHeatmap = () => {
+    if (!rendererService) return;
+    rendererService.clearScanHeatmap();
+  };
+
   const destroy = () => {
     if (rendererService) {
       rendererService.destroy();
@@ -127,6 +146,7 @@ export function useWorldRenderer(container: Ref<HTMLElement | null | undefined>)
     initialize,
     setCameraTransform,
     addChunk,
+    addChunkSummary,
     removeChunk,
     updateChunk,
     resize,
@@ -138,6 +158,8 @@ export function useWorldRenderer(container: Ref<HTMLElement | null | undefined>)
     clearAllExtractors,
     setPlacementPreview,
     hidePlacementPreview,
+    setScanHeatmap,
+    clearScanHeatmap,
     destroy,
   };
 }
@@ -1,12 +1,29 @@
-import type { ResourceType, ResourceVein, ScanLevel } from '#shared/types/world';
+import { usePlayerStore } from '~/composables/usePlayer';
+import {
+  ScanLevel,
+  type ChunkCoordinate,
+  type ResourceType,
+  type ResourceVein,
+} from '#shared/types/world';
 
 export interface ScanResult {
   x: number;
   y: number;
-  resources: ReadonlyArray<{ type: ResourceType; abundance: number }>;
+  resources: ReadonlyArray<{
+    veinId: string;
+    type: ResourceType;
+    abundance: number;
+    confidence: number;
+  }>;
   scannedAt: Date;
+  scanLevel: ScanLevel;
+  cost: number;
+  cooldownEndsAt: Date;
   message?: string;
   discovered?: ResourceVein;
+  veins: ResourceVein[];
+  // Chunks the scan explored or discovered a vein in, whose streamed view is now stale
+  revealedChunks: ChunkCoordinate[];
 }
 
 export interface ScanError {
@@ -17,6 +34,7 @@ export interface ScanError {
 interface ApiScanResponse {
   success: boolean;
   discovered?: ResourceVein;
+  veins: ResourceVein[];
   coordinates: {
     worldX: number;
     worldY: number;
@@ -26,19 +44,46 @@ interface ApiScanResponse {
     cellY: number;
   };
   scanLevel: ScanLevel;
+  cost: number;
+  credits: number;
+  cooldownEndsAt: string;
   timestamp: string;
   message?: string;
 }
 
+/**
+ * Message from a failed scan request: cooldowns (429) and missing credits (409) come back
+ * from the server as status messages worth showing as they are
+ */
+function describeScanError(error: unknown): ScanError {
+  const response = error as { statusCode?: number; statusMessage?: string };
+  if (response?.statusCode === 429) {
+    return { message: response.statusMessage ?? 'Scanner is cooling down', code: 'SCAN_COOLDOWN' };
+  }
+  if (response?.statusCode === 409) {
+    return {
+      message: response.statusMessage ?? 'Not enough credits',
+      code: 'INSUFFICIENT_CREDITS',
+    };
+  }
+
+  return {
+    message: error instanceof Error ? error.message : 'Unknown scan error',
+    code: 'SCAN_FAILED',
+  };
+}
+
 export function useWorldScan() {
   const isScanning = ref(false);
   const lastScanResult = ref<ScanResult | null>(null);
   const scanError = ref<ScanError | null>(null);
+  const playerStore = usePlayerStore();
 
   const performScan = async (
     worldX: number,
     worldY: number,
     searchRadius: number = 2,
+    scanLevel: ScanLevel = ScanLevel.SURFACE,
   ): Promise<ScanResult | null> => {
     try {
       isScanning.value = true;
@@ -50,35 +95,41 @@ export function useWorldScan() {
           x: worldX,
           y: worldY,
           searchRadius,
+          scanLevel,
         },
       });
 
-      const resources: Array<{ type: ResourceType; abundance: number }> = [];
+      playerStore.updateCredits(response.credits);
 
-      if (response.discovered) {
-        resources.push({
-          type: response.discovered.type,
-          abundance: Math.round(response.discovered.quality.purity * 100),
-        });
-      }
+      const resources = response.veins.map((vein) => ({
+        veinId: vein.id,
+        type: vein.type,
+        abundance: Math.round(vein.quality.purity * 100),
+        confidence: Math.round(vein.discovery.confidence * 100),
+      }));
 
       const result: ScanResult = {
         x: response.coordinates.worldX,
         y: response.coordinates.worldY,
         resources,
         scannedAt: new Date(),
+        scanLevel: response.scanLevel,
+        cost: response.cost,
+        cooldownEndsAt: new Date(response.cooldownEndsAt),
         message: response.message,
         discovered: response.discovered,
+        veins: response.veins,
+        revealedChunks: [
+          { chunkX: response.coordinates.chunkX, chunkY: response.coordinates.chunkY },
+          ...response.veins.map((vein) => vein.location),
+        ].map(({ chunkX, chunkY }) => ({ chunkX, chunkY })),
       };
 
       lastScanResult.value = result;
       return result;
     } catch (error) {
       console.error('Scan failed:', error);
-      scanError.value = {
-        message: error instanceof Error ? error.message : 'Unknown scan error',
-        code: 'SCAN_FAILED',
-      };
+      scanError.value = describeScanError(error);
       return null;
     } finally {
       isScanning.value = false;
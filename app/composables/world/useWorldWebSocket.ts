@@ -2,11 +2,16 @@ import {
   WorldWebSocketService,
   type WebSocketEventHandlers,
 } from '~/services/WorldWebSocketService';
+import { fetchStreamToken } from '~/api/player';
 import type {
   ChunkCoordinate,
   ChunkDataMessage,
+  ChunkDetail,
+  ChunkSummaryMessage,
   ErrorMessage,
   ViewportCompleteMessage,
+  ViewportCancelledMessage,
+  WorldChangeMessage,
 } from '#shared/types/world';
 
 export interface UseWorldWebSocketOptions {
@@ -15,6 +20,7 @@ export interface UseWorldWebSocketOptions {
   maxRetries?: number;
   retryDelay?: number;
   heartbeatInterval?: number;
+  binaryChunks?: boolean;
 }
 
 export function useWorldWebSocket(options: UseWorldWebSocketOptions = {}) {
@@ -34,6 +40,9 @@ export function useWorldWebSocket(options: UseWorldWebSocketOptions = {}) {
       maxRetries: options.maxRetries ?? 5,
       retryDelay: options.retryDelay ?? 1000,
       heartbeatInterval: options.heartbeatInterval ?? 30000,
+      binaryChunks: options.binaryChunks ?? true,
+      // Also creates the player on a first visit, so the handshake always has one to resolve
+      getAuthToken: async () => (await fetchStreamToken()).token,
     };
 
     const handlers: WebSocketEventHandlers = {
@@ -49,6 +58,10 @@ export function useWorldWebSocket(options: UseWorldWebSocketOptions = {}) {
         eventHandlers.value.onChunkData?.(message);
       },
 
+      onChunkSummary: (message: ChunkSummaryMessage) => {
+        eventHandlers.value.onChunkSummary?.(message);
+      },
+
       onError: (message: ErrorMessage) => {
         console.error('WebSocket error:', message.error);
         eventHandlers.value.onError?.(message);
@@ -58,6 +71,14 @@ export function useWorldWebSocket(options: UseWorldWebSocketOptions = {}) {
         eventHandlers.value.onViewportComplete?.(message);
       },
 
+      onViewportCancelled: (message: ViewportCancelledMessage) => {
+        eventHandlers.value.onViewportCancelled?.(message);
+      },
+
+      onWorldChange: (message: WorldChangeMessage) => {
+        eventHandlers.value.onWorldChange?.(message);
+      },
+
       onConnectionError: (err: Error) => {
         console.error('WebSocket connection error:', err);
         error.value = err;
@@ -90,19 +111,40 @@ export function useWorldWebSocket(options: UseWorldWebSocketOptions = {}) {
     visibleChunks: ChunkCoordinate[],
     cameraX?: number,
     cameraY?: number,
+    viewportChunks?: ChunkCoordinate[],
+    detail?: ChunkDetail,
   ) => {
     if (!webSocketService || !isConnected.value) {
       console.warn('WebSocket not connected, cannot request viewport update');
       return;
     }
 
-    webSocketService.requestViewportUpdate(visibleChunks, cameraX, cameraY);
+    return webSocketService.requestViewportUpdate(
+      visibleChunks,
+      cameraX,
+      cameraY,
+      viewportChunks,
+      detail,
+    );
+  };
+
+  const requestChunk = (coordinate: ChunkCoordinate) => {
+    if (!webSocketService || !isConnected.value) return;
+    webSocketService.requestChunk(coordinate);
+  };
+
+  const cancelRequest = (requestId?: string) => {
+    webSocketService?.cancelRequest(requestId);
   };
 
   const onChunkData = (handler: (message: ChunkDataMessage) => void) => {
     eventHandlers.value.onChunkData = handler;
   };
 
+  const onChunkSummary = (handler: (message: ChunkSummaryMessage) => void) => {
+    eventHandlers.value.onChunkSummary = handler;
+  };
+
   const onError = (handler: (message: ErrorMessage) => void) => {
     eventHandlers.value.onError = handler;
   };
@@ -111,6 +153,14 @@ export function useWorldWebSocket(options: UseWorldWebSocketOptions = {}) {
     eventHandlers.value.onViewportComplete = handler;
   };
 
+  const onViewportCancelled = (handler: (message: ViewportCancelledMessage) => void) => {
+    eventHandlers.value.onViewportCancelled = handler;
+  };
+
+  const onWorldChange = (handler: (message: WorldChangeMessage) => void) => {
+    eventHandlers.value.onWorldChange = handler;
+  };
+
   const onConnected = (handler: (message: string) => void) => {
     eventHandlers.value.onConnected = handler;
   };
@@ -133,9 +183,14 @@ export function useWorldWebSocket(options: UseWorldWebSocketOptions = {}) {
     connect,
     disconnect,
     requestViewportUpdate,
+    requestChunk,
+    cancelRequest,
     onChunkData,
+    onChunkSummary,
     onError,
     onViewportComplete,
+    onViewportCancelled,
+    onWorldChange,
     onConnected,
   };
 }
@@ -0,0 +1,54 @@
+import { ExtendedTerrainType, FormationType, ResourceType } from '#shared/types/world';
+import type { ClusterFormation, GeologicalClusterConfig } from '#shared/types/world';
+
+/**
+ * Geological Cluster Configuration
+ *
+ * Deposits that real prospectors find in groups: a porphyry district with copper at its core and
+ * gold, silver and molybdenum around it, a narrow kimberlite pipe, and a long banded iron belt.
+ * Each cluster spans several chunks, so finding one vein is a lead on the rest.
+ */
+export const GEOLOGICAL_CLUSTER_CONFIGS: Record<ClusterFormation, GeologicalClusterConfig> = {
+  [FormationType.PORPHYRY]: {
+    formation: FormationType.PORPHYRY,
+    name: 'Porphyry district',
+    weight: 0.45,
+    terrains: [
+      ExtendedTerrainType.HILLS,
+      ExtendedTerrainType.MOUNTAINS,
+      ExtendedTerrainType.DESERT,
+    ],
+    primaryResources: [ResourceType.COPPER, ResourceType.MOLYBDENUM],
+    length: 96,
+    width: 80,
+    primaryVeins: { min: 1, max: 2 },
+    secondaryVeins: { min: 4, max: 8 },
+  },
+  [FormationType.KIMBERLITE]: {
+    formation: FormationType.KIMBERLITE,
+    name: 'Kimberlite pipe',
+    weight: 0.2,
+    terrains: [ExtendedTerrainType.TUNDRA, ExtendedTerrainType.PLAINS, ExtendedTerrainType.HILLS],
+    primaryResources: [ResourceType.DIAMOND],
+    length: 28,
+    width: 28,
+    primaryVeins: { min: 1, max: 1 },
+    secondaryVeins: { min: 1, max: 3 },
+  },
+  [FormationType.BIF]: {
+    formation: FormationType.BIF,
+    name: 'Banded iron belt',
+    weight: 0.35,
+    terrains: [
+      ExtendedTerrainType.PLAINS,
+      ExtendedTerrainType.HILLS,
+      ExtendedTerrainType.FOREST,
+      ExtendedTerrainType.TUNDRA,
+    ],
+    primaryResources: [ResourceType.IRON],
+    length: 192,
+    width: 24,
+    primaryVeins: { min: 2, max: 4 },
+    secondaryVeins: { min: 2, max: 5 },
+  },
+};
@@ -0,0 +1,161 @@
+import { ProcessingStep, ResourceType } from '#shared/types/world';
+import type { ProcessingRecipe, ProcessingStepConfig } from '#shared/types/world';
+import { RESOURCE_CONFIGS } from './resources.config';
+
+/**
+ * Processing Step Configuration
+ *
+ * Each step loses some material but raises the per-unit value of what survives, so a full
+ * chain always returns more than selling the raw ore (yieldRate * valueMultiplier > 1).
+ * Harsher chemistry loses more material and takes longer per unit. Steps that run on large
+ * volumes of water can only be built near it.
+ */
+export const PROCESSING_STEP_CONFIGS: Record<ProcessingStep, ProcessingStepConfig> = {
+  [ProcessingStep.CRUSH]: {
+    step: ProcessingStep.CRUSH,
+    yieldRate: 0.95,
+    valueMultiplier: 1.2,
+    secondsPerUnit: 1,
+    facilityCost: 250,
+  },
+  [ProcessingStep.FLOTATION]: {
+    step: ProcessingStep.FLOTATION,
+    yieldRate: 0.8,
+    valueMultiplier: 1.5,
+    secondsPerUnit: 2,
+    facilityCost: 600,
+  },
+  [ProcessingStep.SMELT]: {
+    step: ProcessingStep.SMELT,
+    yieldRate: 0.9,
+    valueMultiplier: 1.6,
+    secondsPerUnit: 3,
+    facilityCost: 900,
+  },
+  [ProcessingStep.CYANIDE_LEACH]: {
+    step: ProcessingStep.CYANIDE_LEACH,
+    yieldRate: 0.92,
+    valueMultiplier: 1.4,
+    secondsPerUnit: 4,
+    facilityCost: 1200,
+  },
+  [ProcessingStep.ACID_LEACH]: {
+    step: ProcessingStep.ACID_LEACH,
+    yieldRate: 0.85,
+    valueMultiplier: 1.5,
+    secondsPerUnit: 4,
+    facilityCost: 1200,
+    maxDistanceToWater: 10,
+  },
+  [ProcessingStep.CHEMICAL_PROCESSING]: {
+    step: ProcessingStep.CHEMICAL_PROCESSING,
+    yieldRate: 0.8,
+    valueMultiplier: 1.7,
+    secondsPerUnit: 5,
+    facilityCost: 1500,
+  },
+  [ProcessingStep.ENRICHMENT]: {
+    step: ProcessingStep.ENRICHMENT,
+    yieldRate: 0.5,
+    valueMultiplier: 2.6,
+    secondsPerUnit: 8,
+    facilityCost: 4000,
+  },
+};
+
+const PRODUCT_KEY_SEPARATOR = ':';
+
+/**
+ * Inventory key for a resource after `step` has been applied (the raw type when no step)
+ */
+export function getProductKey(resourceType: ResourceType, step?: ProcessingStep): string {
+  return step ? `${resourceType}${PRODUCT_KEY_SEPARATOR}${step}` : resourceType;
+}
+
+/**
+ * Split an inventory key back into its resource and last applied step.
+ * Returns null for keys that aren't a resource or a step in that resource's chain.
+ */
+export function parseProductKey(
+  key: string,
+): { resourceType: ResourceType; step?: ProcessingStep } | null {
+  const [resourceType, step, ...rest] = key.split(PRODUCT_KEY_SEPARATOR);
+  if (rest.length > 0 || !resourceType || !(resourceType in RESOURCE_CONFIGS)) return null;
+
+  const config = RESOURCE_CONFIGS[resourceType as ResourceType];
+  if (step === undefined) return { resourceType: config.type };
+  if (!config.processingSteps.includes(step as ProcessingStep)) return null;
+
+  return { resourceType: config.type, step: step as ProcessingStep };
+}
+
+export function isProductKey(key: string): boolean {
+  return parseProductKey(key) !== null;
+}
+
+/**
+ * The ordered recipes that take a raw resource through its processing steps
+ */
+export function getProcessingChain(resourceType: ResourceType): ProcessingRecipe[] {
+  const config = RESOURCE_CONFIGS[resourceType];
+  let input = getProductKey(resourceType);
+  let value = config.baseValue;
+
+  return config.processingSteps.map((step, index) => {
+    const stepConfig = PROCESSING_STEP_CONFIGS[step];
+    const output = getProductKey(resourceType, step);
+    value *= stepConfig.valueMultiplier;
+
+    const recipe: ProcessingRecipe = {
+      resourceType,
+      step,
+      input,
+      output,
+      yieldRate: stepConfig.yieldRate,
+      outputValue: value,
+      isFinal: index === config.processingSteps.length - 1,
+    };
+
+    input = output;
+    return recipe;
+  });
+}
+
+/**
+ * The recipe a facility running `step` applies to `input`, or null when the product isn't
+ * ready for that step (wrong resource chain, steps skipped, or already past it)
+ */
+export function getRecipe(input: string, step: ProcessingStep): ProcessingRecipe | null {
+  const product = parseProductKey(input);
+  if (!product) return null;
+
+  return (
+    getProcessingChain(product.resourceType).find(
+      (recipe) => recipe.input === input && recipe.step === step,
+    ) ?? null
+  );
+}
+
+/**
+ * Per-unit value of a product: the resource's base value compounded by each applied step
+ */
+export function getProductValue(key: string): number {
+  const product = parseProductKey(key);
+  if (!product) return 0;
+  if (!product.step) return RESOURCE_CONFIGS[product.resourceType].baseValue;
+
+  const recipe = getProcessingChain(product.resourceType).find(
+    (candidate) => candidate.step === product.step,
+  );
+  return recipe?.outputValue ?? 0;
+}
+
+/**
+ * Every tradeable product key: raw resources followed by each stage of their chains
+ */
+export function getAllProductKeys(): string[] {
+  return Object.values(ResourceType).flatMap((resourceType) => [
+    getProductKey(resourceType),
+    ...getProcessingChain(resourceType).map((recipe) => recipe.output),
+  ]);
+}
@@ -510,7 +510,8 @@ export const RESOURCE_CONFIGS: Record<ResourceType, ResourceConfig> = {
     minSize: 10,
     maxSize: 100,
     preferredFormations: [FormationType.KIMBERLITE],
-    associatedResources: [],
+    // Chromite is the indicator mineral prospectors trace kimberlite pipes by
+    associatedResources: [ResourceType.CHROMIUM],
     extractionDifficulty: 5,
     processingSteps: [ProcessingStep.CRUSH, ProcessingStep.FLOTATION],
     marketDemand: MarketDemand.STABLE,
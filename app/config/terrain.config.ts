@@ -1,6 +1,7 @@
 import {
   ExtendedTerrainType,
   ClimateType,
+  FormationType,
   ResourceType,
   type TerrainProperties,
 } from '#shared/types/world';
@@ -33,7 +34,9 @@ export const TERRAIN_CONFIGS: Record<ExtendedTerrainType, TerrainProperties> = {
       humidityModifier: 0.8,
     },
     resources: {
+      minable: false,
       preferredResources: [ResourceType.IRON, ResourceType.COPPER, ResourceType.NICKEL],
+      preferredFormations: [FormationType.VMS, FormationType.SEDEX],
       resourceDensityModifier: 0.2,
       accessibilityModifier: 0.1,
     },
@@ -62,7 +65,14 @@ export const TERRAIN_CONFIGS: Record<ExtendedTerrainType, TerrainProperties> = {
       humidityModifier: 0.0,
     },
     resources: {
+      minable: true,
       preferredResources: [ResourceType.IRON, ResourceType.COPPER, ResourceType.ALUMINUM],
+      preferredFormations: [
+        FormationType.PLACER,
+        FormationType.LATERITE,
+        FormationType.SEDEX,
+        FormationType.BIF,
+      ],
       resourceDensityModifier: 0.8,
       accessibilityModifier: 0.9,
     },
@@ -91,12 +101,19 @@ export const TERRAIN_CONFIGS: Record<ExtendedTerrainType, TerrainProperties> = {
       humidityModifier: 0.1, // Slightly more humid
     },
     resources: {
+      minable: true,
       preferredResources: [
         ResourceType.IRON,
         ResourceType.GOLD,
         ResourceType.SILVER,
         ResourceType.LEAD,
       ],
+      preferredFormations: [
+        FormationType.PORPHYRY,
+        FormationType.EPITHERMAL,
+        FormationType.OROGENIC,
+        FormationType.SKARN,
+      ],
       resourceDensityModifier: 1.0, // Normal density
       accessibilityModifier: 0.7, // Moderate accessibility
     },
@@ -125,12 +142,20 @@ export const TERRAIN_CONFIGS: Record<ExtendedTerrainType, TerrainProperties> = {
       humidityModifier: -0.2, // Lower humidity
     },
     resources: {
+      minable: true,
       preferredResources: [
         ResourceType.GOLD,
         ResourceType.PLATINUM,
         ResourceType.TITANIUM,
         ResourceType.RARE_EARTH_COMPLEX,
       ],
+      preferredFormations: [
+        FormationType.OROGENIC,
+        FormationType.PORPHYRY,
+        FormationType.GREISEN,
+        FormationType.PEGMATITE,
+        FormationType.MAGMATIC_SULFIDE,
+      ],
       resourceDensityModifier: 1.5, // Higher rare mineral density
       accessibilityModifier: 0.3, // Very difficult to access
     },
@@ -159,12 +184,19 @@ export const TERRAIN_CONFIGS: Record<ExtendedTerrainType, TerrainProperties> = {
       humidityModifier: -0.8, // Very dry
     },
     resources: {
+      minable: true,
       preferredResources: [
         ResourceType.URANIUM,
         ResourceType.LITHIUM,
         ResourceType.RARE_EARTH_COMPLEX,
         ResourceType.COPPER,
       ],
+      preferredFormations: [
+        FormationType.PORPHYRY,
+        FormationType.EPITHERMAL,
+        FormationType.CARBONATITE,
+        FormationType.PLACER,
+      ],
       resourceDensityModifier: 0.6, // Lower overall density
       accessibilityModifier: 0.5, // Moderate accessibility (heat issues)
     },
@@ -193,12 +225,14 @@ export const TERRAIN_CONFIGS: Record<ExtendedTerrainType, TerrainProperties> = {
       humidityModifier: 0.6, // Higher humidity
     },
     resources: {
+      minable: true,
       preferredResources: [
         ResourceType.IRON,
         ResourceType.COPPER,
         ResourceType.GRAPHITE,
         ResourceType.TIN,
       ],
+      preferredFormations: [FormationType.LATERITE, FormationType.BIF, FormationType.SKARN],
       resourceDensityModifier: 0.7, // Lower mineral density
       accessibilityModifier: 0.6, // Moderate accessibility (vegetation blocking)
     },
@@ -227,12 +261,14 @@ export const TERRAIN_CONFIGS: Record<ExtendedTerrainType, TerrainProperties> = {
       humidityModifier: 0.9, // Very humid
     },
     resources: {
+      minable: true,
       preferredResources: [
         ResourceType.IRON,
         ResourceType.NICKEL,
         ResourceType.ALUMINUM,
         ResourceType.ZINC,
       ],
+      preferredFormations: [FormationType.LATERITE, FormationType.SEDEX, FormationType.PLACER],
       resourceDensityModifier: 0.4, // Low mineral density
       accessibilityModifier: 0.2, // Very difficult to access
     },
@@ -261,12 +297,19 @@ export const TERRAIN_CONFIGS: Record<ExtendedTerrainType, TerrainProperties> = {
       humidityModifier: -0.4, // Dry
     },
     resources: {
+      minable: true,
       preferredResources: [
         ResourceType.URANIUM,
         ResourceType.RARE_EARTH_COMPLEX,
         ResourceType.DIAMOND,
         ResourceType.PLATINUM,
       ],
+      preferredFormations: [
+        FormationType.KIMBERLITE,
+        FormationType.PEGMATITE,
+        FormationType.MAGMATIC_SULFIDE,
+        FormationType.BIF,
+      ],
       resourceDensityModifier: 0.8, // Good mineral access due to permafrost exposure
       accessibilityModifier: 0.4, // Difficult due to harsh conditions
     },
@@ -17,6 +17,15 @@ export const WORLD_CONFIG = {
     zoomSpeed: 0.001,
   },
 
+  // Chunk level of detail by camera zoom: every cell as a sprite, each chunk baked into one
+  // texture below `bakeBelowZoom`, and only the server's terrain summary below `summaryBelowZoom`
+  lod: {
+    bakeBelowZoom: 0.6,
+    summaryBelowZoom: 0.25,
+    // Pixel density of baked chunk textures, relative to the world's own
+    bakeResolution: 0.5,
+  },
+
   renderer: {
     backgroundColor: 0x2c3e50,
     antialias: true,
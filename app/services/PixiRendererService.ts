@@ -1,21 +1,52 @@
-import { Application, Container, Sprite, Graphics, type Texture } from 'pixi.js';
+import { Application, Container, Sprite, Graphics, Rectangle, type Texture } from 'pixi.js';
 import type {
   ChunkCoordinate,
+  ChunkSummary,
   TerrainGrid,
   RendererStats,
   ResourceVein,
   ExtendedTerrainType,
+  ScanCoverageChunk,
 } from '#shared/types/world';
+import { HydrologyFeature } from '#shared/types/world';
 import type { ExtractorSprite } from '~/composables/world/useExtractorManager';
 import { createServiceLogger } from '#shared/utils/logger';
+import { summarizeChunkTerrain } from '#shared/utils/terrain';
+import { getVeinFootprintCells, getVeinFootprintIntensity } from '#shared/utils/vein-footprint';
 import { WORLD_CONFIG, type WorldConfig } from '~/config/world.config';
 import { getResourceColor } from '~/utils/resource-colors';
-import { getTerrainPixiColor, getTerrainPixiColorDarkened } from '~/utils/terrain-colors';
+import {
+  FRESHWATER_COLOR,
+  FRESHWATER_COLOR_DARKENED,
+  getTerrainPixiColor,
+  getTerrainPixiColorDarkened,
+} from '~/utils/terrain-colors';
+
+// Alpha of the center of the richest, highest grade ore body; cells fade to half of it at the edge
+const ORE_BODY_MAX_ALPHA = 0.45;
+
+// Claimed ore bodies are outlined so other players can see the vein is taken
+const CLAIMED_ORE_BODY_OUTLINE = { width: 2, alpha: 0.9 };
+
+// Every cell as its own sprite, the whole chunk baked into one texture, or only its summary
+type ChunkRenderMode = 'cells' | 'baked' | 'summary';
+
+// What a chunk was drawn from, kept so it can be redrawn when the zoom crosses an LOD threshold
+interface ChunkSource {
+  terrain?: TerrainGrid;
+  summary?: ChunkSummary;
+  resources: ResourceVein[];
+  explored: boolean;
+}
 
 interface PixiChunk {
   container: Container;
   sprites: Sprite[];
   resourceSprites: Sprite[];
+  mode: ChunkRenderMode;
+  source: ChunkSource;
+  // Texture a baked or summarized chunk was rendered into; freed with the chunk
+  texture?: Texture;
 }
 
 interface PixiExtractorSprite {
@@ -30,16 +61,23 @@ export class PixiRendererService {
   private app: Application | null = null;
   private chunks = new Map<string, PixiChunk>();
   private chunkLayer: Container | null = null;
+  private oreLayer: Container | null = null;
+  // Ore bodies of each chunk's veins, keyed like chunks; they reach into neighbouring chunks
+  private oreBodies = new Map<string, Graphics>();
   private extractorLayer: Container | null = null;
   private previewLayer: Container | null = null;
   private previewSprite: Sprite | null = null;
+  private heatmapLayer: Graphics | null = null;
   private extractorSprites = new Map<string, PixiExtractorSprite>();
   private worldContainer: Container | null = null;
   private container: HTMLElement | null = null;
+  private renderMode: ChunkRenderMode = 'cells';
 
   private terrainTextures = new Map<ExtendedTerrainType, Texture>();
   private terrainTexturesDarkened = new Map<ExtendedTerrainType, Texture>();
   private unknownTexture: Texture | null = null;
+  private freshwaterTexture: Texture | null = null;
+  private freshwaterTextureDarkened: Texture | null = null;
   private resourceTextures = new Map<number, Texture>();
   private extractorTextures = new Map<number, Texture>();
   private previewTextures = new Map<string, Texture>();
@@ -76,14 +114,27 @@ export class PixiRendererService {
       container.appendChild(this.app.canvas);
 
       this.worldContainer = new Container();
+      // Chunks stream in at any time, so overlays are ordered explicitly to stay above them
+      this.worldContainer.sortableChildren = true;
       this.app.stage.addChild(this.worldContainer);
 
       this.chunkLayer = new Container();
       this.worldContainer.addChild(this.chunkLayer);
 
+      this.oreLayer = new Container();
+      this.oreLayer.zIndex = 1;
+      this.worldContainer.addChild(this.oreLayer);
+
+      this.heatmapLayer = new Graphics();
+      this.heatmapLayer.zIndex = 2;
+      this.heatmapLayer.visible = false;
+      this.worldContainer.addChild(this.heatmapLayer);
+
       this.extractorLayer = new Container();
+      this.extractorLayer.zIndex = 3;
       this.worldContainer.addChild(this.extractorLayer);
       this.previewLayer = new Container();
+      this.previewLayer.zIndex = 4;
       this.worldContainer.addChild(this.previewLayer);
 
       await this.createTextures();
@@ -124,6 +175,14 @@ export class PixiRendererService {
     unknownGraphics.rect(0, 0, cellSize, cellSize).fill(0x95a5a6);
     this.unknownTexture = this.app.renderer.generateTexture(unknownGraphics);
 
+    const freshwaterGraphics = new Graphics();
+    freshwaterGraphics.rect(0, 0, cellSize, cellSize).fill(FRESHWATER_COLOR);
+    this.freshwaterTexture = this.app.renderer.generateTexture(freshwaterGraphics);
+
+    const darkenedFreshwaterGraphics = new Graphics();
+    darkenedFreshwaterGraphics.rect(0, 0, cellSize, cellSize).fill(FRESHWATER_COLOR_DARKENED);
+    this.freshwaterTextureDarkened = this.app.renderer.generateTexture(darkenedFreshwaterGraphics);
+
     this.logger.debug('All terrain textures created successfully', 'createTextures', {
       terrainTypesCount: terrainTypes.length,
       terrainTypes: terrainTypes,
@@ -243,13 +302,62 @@ export class PixiRendererService {
 
     this.worldContainer.position.set(x, y);
     this.worldContainer.scale.set(zoom);
+
+    const renderMode = this.getRenderModeForZoom(zoom);
+    if (renderMode !== this.renderMode) {
+      this.logger.debug('Chunk level of detail changed', 'setCameraTransform', {
+        from: this.renderMode,
+        to: renderMode,
+        zoom,
+      });
+      this.renderMode = renderMode;
+      this.redrawChunks();
+    }
+  }
+
+  private getRenderModeForZoom(zoom: number): ChunkRenderMode {
+    const { bakeBelowZoom, summaryBelowZoom } = this.config.lod;
+    if (zoom < summaryBelowZoom) return 'summary';
+    if (zoom < bakeBelowZoom) return 'baked';
+    return 'cells';
+  }
+
+  // Chunks with only a summary can't be drawn in more detail than that
+  private getChunkRenderMode(source: ChunkSource): ChunkRenderMode {
+    return source.terrain ? this.renderMode : 'summary';
+  }
+
+  private redrawChunks(): void {
+    for (const [chunkKey, chunk] of this.chunks) {
+      if (chunk.mode === this.getChunkRenderMode(chunk.source)) continue;
+
+      const [chunkX, chunkY] = chunkKey.split(',').map(Number);
+      if (chunkX !== undefined && chunkY !== undefined) {
+        this.setChunk({ chunkX, chunkY }, chunk.source);
+      }
+    }
   }
 
   addChunk(
     coordinate: ChunkCoordinate,
     terrain: TerrainGrid,
     resources: ResourceVein[] = [],
+    explored = true,
   ): void {
+    this.setChunk(coordinate, { terrain, resources, explored });
+  }
+
+  /**
+   * Draw a chunk from its terrain summary. A chunk already loaded in full is left as it is.
+   */
+  addChunkSummary(coordinate: ChunkCoordinate, summary: ChunkSummary, explored = true): void {
+    const existing = this.chunks.get(`${coordinate.chunkX},${coordinate.chunkY}`);
+    if (existing?.source.terrain) return;
+
+    this.setChunk(coordinate, { summary, resources: [], explored });
+  }
+
+  private setChunk(coordinate: ChunkCoordinate, source: ChunkSource): void {
     if (!this.worldContainer) {
       this.logger.warn('Cannot add chunk - renderer not initialized', 'addChunk');
       return;
@@ -266,13 +374,26 @@ export class PixiRendererService {
       this.removeChunk(coordinate);
     }
 
-    const chunk = this.createChunk(coordinate, terrain, resources);
+    const mode = this.getChunkRenderMode(source);
+    const chunk =
+      mode === 'summary'
+        ? this.createSummaryChunk(source)
+        : this.createChunk(coordinate, source, mode === 'baked');
+
+    // Positioned only after baking, which renders the container in its own space
+    chunk.container.position.set(
+      coordinate.chunkX * this.config.chunk.size * this.config.chunk.cellSize,
+      coordinate.chunkY * this.config.chunk.size * this.config.chunk.cellSize,
+    );
+
     this.chunks.set(chunkKey, chunk);
     this.worldContainer.addChild(chunk.container);
+    this.setOreBodies(chunkKey, source.resources);
     this.stats.chunksLoaded++;
 
     this.logger.debug('Chunk added successfully', 'addChunk', {
       chunkKey,
+      mode,
       spritesCount: chunk.sprites.length,
     });
   }
@@ -286,6 +407,8 @@ export class PixiRendererService {
     if (chunk) {
       this.worldContainer.removeChild(chunk.container);
       chunk.container.destroy({ children: true });
+      chunk.texture?.destroy(true);
+      this.setOreBodies(chunkKey, []);
       this.chunks.delete(chunkKey);
       this.stats.chunksLoaded--;
 
@@ -297,23 +420,29 @@ export class PixiRendererService {
     coordinate: ChunkCoordinate,
     terrain: TerrainGrid,
     resources: ResourceVein[] = [],
+    explored = true,
   ): void {
     const chunkKey = `${coordinate.chunkX},${coordinate.chunkY}`;
     const existingChunk = this.chunks.get(chunkKey);
 
     if (!existingChunk) {
       this.logger.warn('Cannot update chunk - chunk not found', 'updateChunk', { chunkKey });
-      this.addChunk(coordinate, terrain, resources);
+      this.addChunk(coordinate, terrain, resources, explored);
+      return;
+    }
+
+    // Baked and summarized chunks have no sprites to retexture, so they are drawn again
+    if (existingChunk.mode !== 'cells') {
+      this.addChunk(coordinate, terrain, resources, explored);
       return;
     }
 
+    existingChunk.source = { terrain, resources, explored };
+
     let spriteIndex = 0;
     for (let row = 0; row < this.config.chunk.size; row++) {
       for (let col = 0; col < this.config.chunk.size; col++) {
-        const terrainType = terrain.cells[row]?.[col];
-
-        const hasDifferentNeighbors = this.hasDifferentNeighbors(terrain, row, col);
-        const texture = this.getTextureForCellWithBlending(terrainType, hasDifferentNeighbors);
+        const texture = this.getTextureForChunkCell(terrain, row, col, explored);
 
         if (texture && existingChunk.sprites[spriteIndex]) {
           existingChunk.sprites[spriteIndex]!.texture = texture;
@@ -326,6 +455,7 @@ export class PixiRendererService {
       resourceSprite.destroy();
     }
     existingChunk.resourceSprites.length = 0;
+    this.setOreBodies(chunkKey, resources);
 
     for (const resource of resources) {
       const terrainValue = terrain.cells[resource.location.cellY]?.[resource.location.cellX];
@@ -349,6 +479,51 @@ export class PixiRendererService {
     this.logger.debug('Chunk updated successfully', 'updateChunk', { chunkKey });
   }
 
+  /**
+   * Draw a chunk's veins as ore bodies: every footprint cell, where an extractor can be placed,
+   * tinted in the resource's color and stronger for rich, high grade veins
+   */
+  private setOreBodies(chunkKey: string, resources: ResourceVein[]): void {
+    const existing = this.oreBodies.get(chunkKey);
+    if (existing) {
+      this.oreLayer?.removeChild(existing);
+      existing.destroy();
+      this.oreBodies.delete(chunkKey);
+    }
+
+    if (!this.oreLayer || resources.length === 0) return;
+
+    const cellSize = this.config.chunk.cellSize;
+    const graphics = new Graphics();
+
+    for (const vein of resources) {
+      // An exhausted vein has no ore body left to draw
+      if (vein.extraction.depletion >= 1) continue;
+
+      const color = getResourceColor(vein.type);
+      const alpha = ORE_BODY_MAX_ALPHA * getVeinFootprintIntensity(vein);
+
+      for (const cell of getVeinFootprintCells(vein)) {
+        graphics
+          .rect(cell.x * cellSize, cell.y * cellSize, cellSize, cellSize)
+          .fill({ color, alpha: alpha * (1 - cell.falloff / 2) });
+      }
+
+      if (vein.claimedBy) {
+        graphics
+          .circle(
+            vein.location.worldX * cellSize,
+            vein.location.worldY * cellSize,
+            vein.deposit.radius * cellSize + cellSize / 2,
+          )
+          .stroke({ color, ...CLAIMED_ORE_BODY_OUTLINE });
+      }
+    }
+
+    this.oreLayer.addChild(graphics);
+    this.oreBodies.set(chunkKey, graphics);
+  }
+
   updateVisibleChunks(visibleChunks: ChunkCoordinate[]): void {
     const visibleKeys = new Set(visibleChunks.map((c) => `${c.chunkX},${c.chunkY}`));
 
@@ -490,19 +665,12 @@ export class PixiRendererService {
     }
   }
 
-  private createChunk(
-    coordinate: ChunkCoordinate,
-    terrain: TerrainGrid,
-    resources: ResourceVein[] = [],
-  ): PixiChunk {
+  private createChunk(coordinate: ChunkCoordinate, source: ChunkSource, bake: boolean): PixiChunk {
+    const { terrain = { cells: [] }, resources, explored } = source;
     const container = new Container();
     const sprites: Sprite[] = [];
     const resourceSprites: Sprite[] = [];
 
-    const chunkWorldX = coordinate.chunkX * this.config.chunk.size * this.config.chunk.cellSize;
-    const chunkWorldY = coordinate.chunkY * this.config.chunk.size * this.config.chunk.cellSize;
-    container.position.set(chunkWorldX, chunkWorldY);
-
     this.logger.debug('Creating chunk with terrain data', 'createChunk', {
       chunkKey: `${coordinate.chunkX},${coordinate.chunkY}`,
       terrainSample: terrain.cells[0]?.slice(0, 3),
@@ -514,10 +682,7 @@ export class PixiRendererService {
 
       for (let col = 0; col < this.config.chunk.size; col++) {
         const terrainType = terrain.cells[row]?.[col];
-
-        // Check if this cell has different neighbors for terrain blending
-        const hasDifferentNeighbors = this.hasDifferentNeighbors(terrain, row, col);
-        const texture = this.getTextureForCellWithBlending(terrainType, hasDifferentNeighbors);
+        const texture = this.getTextureForChunkCell(terrain, row, col, explored);
 
         if (texture) {
           const sprite = new Sprite(texture);
@@ -554,7 +719,67 @@ export class PixiRendererService {
       }
     }
 
-    return { container, sprites, resourceSprites };
+    const chunk: PixiChunk = { container, sprites, resourceSprites, mode: 'cells', source };
+    if (bake) this.bakeChunk(chunk);
+    return chunk;
+  }
+
+  /**
+   * Render a chunk's cell and resource sprites into one texture and swap them for a single sprite
+   */
+  private bakeChunk(chunk: PixiChunk): void {
+    if (!this.app) throw new Error('PixiJS app not initialized');
+
+    const chunkPixels = this.config.chunk.size * this.config.chunk.cellSize;
+    const texture = this.app.renderer.generateTexture({
+      target: chunk.container,
+      frame: new Rectangle(0, 0, chunkPixels, chunkPixels),
+      resolution: this.config.lod.bakeResolution,
+    });
+
+    for (const child of chunk.container.removeChildren()) {
+      child.destroy();
+    }
+    chunk.container.addChild(new Sprite(texture));
+
+    chunk.sprites = [];
+    chunk.resourceSprites = [];
+    chunk.mode = 'baked';
+    chunk.texture = texture;
+  }
+
+  /**
+   * A chunk drawn as one pixel per summary block, stretched over the chunk
+   */
+  private createSummaryChunk(source: ChunkSource): PixiChunk {
+    if (!this.app) throw new Error('PixiJS app not initialized');
+
+    const summary = source.summary ?? summarizeChunkTerrain(source.terrain?.cells ?? []);
+    const blocksPerSide = summary.blocks.length;
+
+    const graphics = new Graphics();
+    summary.blocks.forEach((row, blockRow) => {
+      row.forEach((terrainType, blockCol) => {
+        const color = source.explored
+          ? getTerrainPixiColor(terrainType)
+          : getTerrainPixiColorDarkened(terrainType);
+        graphics.rect(blockCol, blockRow, 1, 1).fill(color);
+      });
+    });
+
+    const texture = this.app.renderer.generateTexture({
+      target: graphics,
+      frame: new Rectangle(0, 0, blocksPerSide, blocksPerSide),
+      textureSourceOptions: { scaleMode: 'nearest' },
+    });
+    graphics.destroy();
+
+    const container = new Container();
+    const sprite = new Sprite(texture);
+    sprite.scale.set((this.config.chunk.size * this.config.chunk.cellSize) / blocksPerSide);
+    container.addChild(sprite);
+
+    return { container, sprites: [], resourceSprites: [], mode: 'summary', source, texture };
   }
 
   private getTextureForCell(terrainType: ExtendedTerrainType | undefined): Texture | null {
@@ -566,6 +791,34 @@ export class PixiRendererService {
     return texture || this.unknownTexture;
   }
 
+  /**
+   * Explored cells get full terrain with edge blending; unexplored cells stay under fog,
+   * drawn entirely in the darkened palette. Cells with no terrain at all are unknown.
+   * Rivers and lakes are drawn over whatever terrain they run through.
+   */
+  private getTextureForChunkCell(
+    terrain: TerrainGrid,
+    row: number,
+    col: number,
+    explored: boolean,
+  ): Texture | null {
+    const terrainType = terrain.cells[row]?.[col];
+    const water = terrain.water?.[row]?.[col];
+
+    if (water === HydrologyFeature.RIVER || water === HydrologyFeature.LAKE) {
+      return explored ? this.freshwaterTexture : this.freshwaterTextureDarkened;
+    }
+
+    if (!explored) {
+      if (!terrainType) return this.unknownTexture;
+      return this.terrainTexturesDarkened.get(terrainType) || this.unknownTexture;
+    }
+
+    // Check if this cell has different neighbors for terrain blending
+    const hasDifferentNeighbors = this.hasDifferentNeighbors(terrain, row, col);
+    return this.getTextureForCellWithBlending(terrainType, hasDifferentNeighbors);
+  }
+
   private getTextureForCellWithBlending(
     terrainType: ExtendedTerrainType | undefined,
     hasDifferentNeighbors: boolean,
@@ -641,6 +894,7 @@ export class PixiRendererService {
     }
 
     this.chunks.clear();
+    this.oreBodies.clear();
     this.extractorSprites.clear();
     this.terrainTextures.clear();
     this.terrainTexturesDarkened.clear();
@@ -648,11 +902,15 @@ export class PixiRendererService {
     this.extractorTextures.clear();
     this.worldContainer = null;
     this.chunkLayer = null;
+    this.oreLayer = null;
     this.extractorLayer = null;
     this.previewLayer = null;
     this.previewSprite = null;
+    this.heatmapLayer = null;
     this.container = null;
     this.unknownTexture = null;
+    this.freshwaterTexture = null;
+    this.freshwaterTextureDarkened = null;
     this.previewTextures.clear();
 
     this.logger.info('PixiJS renderer destroyed successfully', 'destroy');
@@ -685,4 +943,36 @@ export class PixiRendererService {
       this.previewSprite.visible = false;
     }
   }
+
+  /**
+   * Shade each scanned chunk by how much of it the player has covered with scans
+   */
+  setScanHeatmap(chunks: readonly ScanCoverageChunk[]): void {
+    if (!this.heatmapLayer) return;
+
+    const chunkPixels = this.config.chunk.size * this.config.chunk.cellSize;
+    this.heatmapLayer.clear();
+
+    for (const chunk of chunks) {
+      this.heatmapLayer
+        .rect(chunk.chunkX * chunkPixels, chunk.chunkY * chunkPixels, chunkPixels, chunkPixels)
+        .fill({ color: getHeatmapColor(chunk.coverage), alpha: 0.2 + chunk.coverage * 0.35 });
+    }
+
+    this.heatmapLayer.visible = true;
+  }
+
+  clearScanHeatmap(): void {
+    if (!this.heatmapLayer) return;
+    this.heatmapLayer.clear();
+    this.heatmapLayer.visible = false;
+  }
+}
+
+// Blue for barely scanned chunks through to amber for fully prospected ones
+function getHeatmapColor(coverage: number): number {
+  const from = { r: 0x3b, g: 0x82, b: 0xf6 };
+  const to = { r: 0xf5, g: 0x9e, b: 0x0b };
+  const mix = (a: number, b: number) => Math.round(a + (b - a) * coverage);
+  return (mix(from.r, to.r) << 16) | (mix(from.g, to.g) << 8) | mix(from.b, to.b);
 }
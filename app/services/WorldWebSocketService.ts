@@ -2,10 +2,18 @@ import type {
   ChunkCoordinate,
   WorldMessage,
   ChunkDataMessage,
+  ChunkDetail,
+  ChunkSummaryMessage,
   ErrorMessage,
   ViewportCompleteMessage,
+  ViewportCancelledMessage,
   ViewportUpdateMessage,
+  ChunkRequestMessage,
+  CancelRequestMessage,
+  ConnectedMessage,
+  WorldChangeMessage,
 } from '#shared/types/world';
+import { decodeChunkMessage, isBinaryChunkFrame } from '#shared/utils/chunk-codec';
 
 export interface WebSocketConfig {
   url: string;
@@ -13,12 +21,19 @@ export interface WebSocketConfig {
   maxRetries?: number;
   retryDelay?: number;
   heartbeatInterval?: number;
+  // Ask the server for binary chunkData frames instead of JSON
+  binaryChunks?: boolean;
+  // Fetch a fresh stream token for each (re)connect; without one the session cookie is used
+  getAuthToken?: () => Promise<string>;
 }
 
 export interface WebSocketEventHandlers {
   onChunkData?: (message: ChunkDataMessage) => void;
+  onChunkSummary?: (message: ChunkSummaryMessage) => void;
   onError?: (message: ErrorMessage) => void;
   onViewportComplete?: (message: ViewportCompleteMessage) => void;
+  onViewportCancelled?: (message: ViewportCancelledMessage) => void;
+  onWorldChange?: (message: WorldChangeMessage) => void;
   onConnected?: (message: string) => void;
   onConnectionError?: (error: Error) => void;
 }
@@ -29,6 +44,8 @@ export class WorldWebSocketService {
   private isConnecting = false;
   private heartbeatTimer: NodeJS.Timeout | null = null;
   private reconnectTimer: NodeJS.Timeout | null = null;
+  // Viewport request the server is currently streaming for us
+  private activeViewportRequestId: string | null = null;
 
   constructor(
     private config: WebSocketConfig,
@@ -43,7 +60,8 @@ export class WorldWebSocketService {
     this.isConnecting = true;
 
     try {
-      this.ws = new WebSocket(this.config.url);
+      this.ws = new WebSocket(await this.buildUrl());
+      this.ws.binaryType = 'arraybuffer';
       this.setupEventListeners();
 
       await new Promise<void>((resolve, reject) => {
@@ -88,16 +106,53 @@ export class WorldWebSocketService {
     visibleChunks: ChunkCoordinate[],
     cameraX?: number,
     cameraY?: number,
-  ): void {
+    viewportChunks?: ChunkCoordinate[],
+    detail: ChunkDetail = 'full',
+  ): string {
     const message: ViewportUpdateMessage = {
       type: 'updateViewport',
       visibleChunks,
+      viewportChunks,
       cameraX,
       cameraY,
+      detail,
       requestId: `viewport-${Date.now()}`,
       timestamp: new Date().toISOString(),
     };
 
+    this.send(message);
+    this.activeViewportRequestId = message.requestId!;
+    return message.requestId!;
+  }
+
+  /**
+   * Ask for a single chunk again, e.g. after a scan changed what this player may see of it
+   */
+  requestChunk(coordinate: ChunkCoordinate): void {
+    const message: ChunkRequestMessage = {
+      type: 'requestChunk',
+      chunkX: coordinate.chunkX,
+      chunkY: coordinate.chunkY,
+      requestId: `chunk-${coordinate.chunkX},${coordinate.chunkY}-${Date.now()}`,
+      timestamp: new Date().toISOString(),
+    };
+
+    this.send(message);
+  }
+
+  /**
+   * Stop the server streaming a viewport request, the active one by default.
+   * Chunks it had not sent yet are dropped.
+   */
+  cancelRequest(requestId: string | null = this.activeViewportRequestId): void {
+    if (!requestId) return;
+
+    const message: CancelRequestMessage = {
+      type: 'cancel',
+      requestId,
+      timestamp: new Date().toISOString(),
+    };
+
     this.send(message);
   }
 
@@ -132,6 +187,18 @@ export class WorldWebSocketService {
     }
   }
 
+  private async buildUrl(): Promise<string> {
+    const params = new URLSearchParams();
+    if (this.config.binaryChunks) params.set('encoding', 'binary');
+    if (this.config.getAuthToken) params.set('token', await this.config.getAuthToken());
+
+    const query = params.toString();
+    if (!query) return this.config.url;
+
+    const separator = this.config.url.includes('?') ? '&' : '?';
+    return `${this.config.url}${separator}${query}`;
+  }
+
   private setupEventListeners(): void {
     if (!this.ws) return;
 
@@ -148,12 +215,26 @@ export class WorldWebSocketService {
     };
   }
 
-  private handleMessage(data: string): void {
+  private handleMessage(data: string | ArrayBuffer): void {
     if (data === 'pong') {
       console.log('WebSocket pong received');
       return;
     }
 
+    if (typeof data !== 'string') {
+      if (!isBinaryChunkFrame(data)) {
+        console.warn('Ignoring unrecognized binary WebSocket frame');
+        return;
+      }
+
+      try {
+        this.handlers.onChunkData?.(decodeChunkMessage(data));
+      } catch (error) {
+        console.error('Error decoding binary chunk message:', error);
+      }
+      return;
+    }
+
     try {
       const message: WorldMessage = JSON.parse(data);
       this.routeMessage(message);
@@ -165,7 +246,10 @@ export class WorldWebSocketService {
   private routeMessage(message: WorldMessage): void {
     switch (message.type) {
       case 'connected': {
-        const connectedMessage = message as WorldMessage & { message?: string };
+        const connectedMessage = message as ConnectedMessage;
+        if (this.config.binaryChunks && connectedMessage.encoding !== 'binary') {
+          console.warn('Server does not support binary chunks, falling back to JSON');
+        }
         this.handlers.onConnected?.(connectedMessage.message || 'Connected');
         break;
       }
@@ -174,10 +258,26 @@ export class WorldWebSocketService {
         this.handlers.onChunkData?.(message as ChunkDataMessage);
         break;
 
+      case 'chunkSummary':
+        this.handlers.onChunkSummary?.(message as ChunkSummaryMessage);
+        break;
+
       case 'viewportComplete':
+        this.clearActiveViewport(message.requestId);
         this.handlers.onViewportComplete?.(message as ViewportCompleteMessage);
         break;
 
+      case 'viewportCancelled':
+        this.clearActiveViewport(message.requestId);
+        this.handlers.onViewportCancelled?.(message as ViewportCancelledMessage);
+        break;
+
+      case 'extractorChanged':
+      case 'claimChanged':
+      case 'veinChanged':
+        this.handlers.onWorldChange?.(message);
+        break;
+
       case 'chunkError':
       case 'viewportError':
         this.handlers.onError?.(message as ErrorMessage);
@@ -190,6 +290,12 @@ export class WorldWebSocketService {
     }
   }
 
+  private clearActiveViewport(requestId?: string): void {
+    if (requestId === this.activeViewportRequestId) {
+      this.activeViewportRequestId = null;
+    }
+  }
+
   private handleClose(event: CloseEvent): void {
     console.log('WebSocket closed:', event.code, event.reason);
 
@@ -251,5 +357,6 @@ export class WorldWebSocketService {
     }
 
     this.isConnecting = false;
+    this.activeViewportRequestId = null;
   }
 }
@@ -40,6 +40,10 @@ export const TERRAIN_RGB_COLORS = {
   [ExtendedTerrainType.TUNDRA]: { r: 184, g: 197, b: 209 },
 } as const;
 
+// Rivers and lakes, lighter than the open ocean so freshwater reads apart from the sea
+export const FRESHWATER_COLOR = 0x3a8fd6;
+export const FRESHWATER_COLOR_DARKENED = 0x28648f;
+
 /**
  * Get terrain color as hex string
  */
@@ -0,0 +1,7 @@
+ALTER TABLE "extractors" ADD COLUMN "resource_vein_id" uuid;--> statement-breakpoint
+ALTER TABLE "resource_veins" ADD COLUMN "total_reserves" double precision;--> statement-breakpoint
+UPDATE "resource_veins" SET "total_reserves" = power("radius" / 10, 2);--> statement-breakpoint
+ALTER TABLE "resource_veins" ALTER COLUMN "total_reserves" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "extractors" ADD CONSTRAINT "extractors_resource_vein_id_resource_veins_id_fk" FOREIGN KEY ("resource_vein_id") REFERENCES "public"."resource_veins"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+UPDATE "extractors" SET "resource_vein_id" = "resource_veins"."id" FROM "resource_veins" WHERE "resource_veins"."world_id" = "extractors"."world_id" AND "resource_veins"."resource_type" = "extractors"."resource_type" AND ST_Within(ST_SetSRID(ST_MakePoint("extractors"."x", "extractors"."y"), 4326), "resource_veins"."extraction_area");--> statement-breakpoint
+CREATE INDEX "extractors_vein_idx" ON "extractors" USING btree ("resource_vein_id");
@@ -0,0 +1,27 @@
+CREATE TABLE "market_listings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"world_id" uuid NOT NULL,
+	"seller_id" uuid NOT NULL,
+	"resource_type" text NOT NULL,
+	"quantity" double precision NOT NULL,
+	"price_per_unit" double precision NOT NULL,
+	"status" text DEFAULT 'open' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "market_prices" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"world_id" uuid NOT NULL,
+	"resource_type" text NOT NULL,
+	"net_demand" double precision DEFAULT 0 NOT NULL,
+	"last_price" double precision NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "market_prices_world_type_unique" UNIQUE("world_id","resource_type")
+);
+--> statement-breakpoint
+ALTER TABLE "market_listings" ADD CONSTRAINT "market_listings_world_id_worlds_id_fk" FOREIGN KEY ("world_id") REFERENCES "public"."worlds"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "market_listings" ADD CONSTRAINT "market_listings_seller_id_players_id_fk" FOREIGN KEY ("seller_id") REFERENCES "public"."players"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "market_prices" ADD CONSTRAINT "market_prices_world_id_worlds_id_fk" FOREIGN KEY ("world_id") REFERENCES "public"."worlds"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "market_listings_world_type_status_idx" ON "market_listings" USING btree ("world_id","resource_type","status");--> statement-breakpoint
+CREATE INDEX "market_listings_seller_idx" ON "market_listings" USING btree ("seller_id");
\ No newline at end of file
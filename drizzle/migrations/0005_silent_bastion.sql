@@ -0,0 +1,36 @@
+CREATE TABLE "processing_facilities" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"player_id" uuid NOT NULL,
+	"world_id" uuid NOT NULL,
+	"step" text NOT NULL,
+	"x" real NOT NULL,
+	"y" real NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "processing_facilities_x_y_world_id_unique" UNIQUE("x","y","world_id")
+);
+--> statement-breakpoint
+CREATE TABLE "processing_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"facility_id" uuid NOT NULL,
+	"player_id" uuid NOT NULL,
+	"input_type" text NOT NULL,
+	"input_quantity" double precision NOT NULL,
+	"output_type" text NOT NULL,
+	"output_quantity" double precision NOT NULL,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"starts_at" timestamp NOT NULL,
+	"completes_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "processing_facilities" ADD CONSTRAINT "processing_facilities_player_id_players_id_fk" FOREIGN KEY ("player_id") REFERENCES "public"."players"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "processing_facilities" ADD CONSTRAINT "processing_facilities_world_id_worlds_id_fk" FOREIGN KEY ("world_id") REFERENCES "public"."worlds"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "processing_jobs" ADD CONSTRAINT "processing_jobs_facility_id_processing_facilities_id_fk" FOREIGN KEY ("facility_id") REFERENCES "public"."processing_facilities"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "processing_jobs" ADD CONSTRAINT "processing_jobs_player_id_players_id_fk" FOREIGN KEY ("player_id") REFERENCES "public"."players"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "processing_facilities_player_idx" ON "processing_facilities" USING btree ("player_id");--> statement-breakpoint
+CREATE INDEX "processing_facilities_world_idx" ON "processing_facilities" USING btree ("world_id");--> statement-breakpoint
+CREATE INDEX "processing_jobs_facility_status_idx" ON "processing_jobs" USING btree ("facility_id","status");--> statement-breakpoint
+CREATE INDEX "processing_jobs_due_idx" ON "processing_jobs" USING btree ("status","completes_at");--> statement-breakpoint
+CREATE INDEX "processing_jobs_player_idx" ON "processing_jobs" USING btree ("player_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "resource_claims" ADD COLUMN "warned_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE "player_discovered_veins" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"player_id" uuid NOT NULL,
+	"resource_vein_id" uuid NOT NULL,
+	"scan_level" text NOT NULL,
+	"confidence" real NOT NULL,
+	"discovered_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "player_discovered_veins_unique" UNIQUE("player_id","resource_vein_id")
+);
+--> statement-breakpoint
+CREATE TABLE "player_explored_chunks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"player_id" uuid NOT NULL,
+	"world_id" uuid NOT NULL,
+	"chunk_x" integer NOT NULL,
+	"chunk_y" integer NOT NULL,
+	"explored_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "player_explored_chunks_unique" UNIQUE("player_id","world_id","chunk_x","chunk_y")
+);
+--> statement-breakpoint
+ALTER TABLE "player_discovered_veins" ADD CONSTRAINT "player_discovered_veins_player_id_players_id_fk" FOREIGN KEY ("player_id") REFERENCES "public"."players"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "player_discovered_veins" ADD CONSTRAINT "player_discovered_veins_resource_vein_id_resource_veins_id_fk" FOREIGN KEY ("resource_vein_id") REFERENCES "public"."resource_veins"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "player_explored_chunks" ADD CONSTRAINT "player_explored_chunks_player_id_players_id_fk" FOREIGN KEY ("player_id") REFERENCES "public"."players"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "player_explored_chunks" ADD CONSTRAINT "player_explored_chunks_world_id_worlds_id_fk" FOREIGN KEY ("world_id") REFERENCES "public"."worlds"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "player_discovered_veins_vein_idx" ON "player_discovered_veins" USING btree ("resource_vein_id");--> statement-breakpoint
+CREATE INDEX "player_explored_chunks_player_world_idx" ON "player_explored_chunks" USING btree ("player_id","world_id");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "player_scans" ADD COLUMN "world_id" uuid;--> statement-breakpoint
+ALTER TABLE "player_scans" ADD CONSTRAINT "player_scans_world_id_worlds_id_fk" FOREIGN KEY ("world_id") REFERENCES "public"."worlds"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "player_scans_session_world_time_idx" ON "player_scans" USING btree ("session_id","world_id","scanned_at");
\ No newline at end of file
@@ -0,0 +1,8 @@
+ALTER TABLE "resource_veins" ADD COLUMN "grade" text;--> statement-breakpoint
+ALTER TABLE "resource_veins" ADD COLUMN "accessibility" double precision;--> statement-breakpoint
+ALTER TABLE "resource_veins" ADD COLUMN "formation" text;--> statement-breakpoint
+ALTER TABLE "resource_veins" ADD COLUMN "terrain" text;--> statement-breakpoint
+ALTER TABLE "resource_veins" ADD COLUMN "climate" text;--> statement-breakpoint
+ALTER TABLE "resource_veins" ADD COLUMN "hazards" jsonb DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE "resource_veins" ADD COLUMN "distance_to_water" double precision;--> statement-breakpoint
+ALTER TABLE "resource_veins" ADD COLUMN "seed" bigint;
\ No newline at end of file
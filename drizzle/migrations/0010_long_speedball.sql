@@ -0,0 +1,2 @@
+ALTER TABLE "resource_veins" ADD COLUMN "nearby_veins" jsonb DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE "resource_veins" ADD COLUMN "geological_features" jsonb DEFAULT '[]' NOT NULL;
\ No newline at end of file
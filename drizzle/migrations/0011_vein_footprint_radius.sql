@@ -0,0 +1,4 @@
+-- Custom SQL migration file, put your code below! --
+-- Vein footprints are measured in cells: sqrt(total_reserves) * 0.1, at least 0.75, matching getVeinFootprintRadius
+UPDATE "resource_veins" SET "radius" = GREATEST(0.75, sqrt("total_reserves") * 0.1);--> statement-breakpoint
+UPDATE "resource_veins" SET "extraction_area" = ST_SetSRID(ST_Buffer("center_point", "radius"), 4326);
@@ -0,0 +1 @@
+ALTER TABLE "resource_veins" ADD COLUMN "generator_version" text;
\ No newline at end of file
@@ -0,0 +1,7 @@
+-- Custom SQL migration file, put your code below! --
+-- Veins persisted before generator_version was recorded come from older generators: some sit on
+-- ocean, some carry a random distance_to_water. Drop every one that no extractor or claim uses.
+DELETE FROM "resource_veins" AS "vein"
+WHERE "vein"."generator_version" IS NULL
+  AND NOT EXISTS (SELECT 1 FROM "extractors" WHERE "extractors"."resource_vein_id" = "vein"."id")
+  AND NOT EXISTS (SELECT 1 FROM "resource_claims" WHERE "resource_claims"."resource_vein_id" = "vein"."id");
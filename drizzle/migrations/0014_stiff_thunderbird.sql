@@ -0,0 +1,3 @@
+ALTER TABLE "players" ADD COLUMN "role" text DEFAULT 'player' NOT NULL;--> statement-breakpoint
+ALTER TABLE "worlds" ADD COLUMN "owner_id" uuid;--> statement-breakpoint
+ALTER TABLE "worlds" ADD CONSTRAINT "worlds_owner_id_players_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."players"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
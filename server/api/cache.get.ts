@@ -27,11 +27,16 @@ export default defineEventHandler(async (event) => {
           return { error: 'Redis not available' };
         }
 
-        await cacheService.clearWorld('default');
+        const worldId = event.context.player?.worldId;
+        if (!worldId) {
+          return { error: 'Player not initialized' };
+        }
+
+        await cacheService.clearWorld(worldId);
 
         return {
           success: true,
-          message: 'Cleared cached chunks for default world',
+          message: `Cleared cached chunks for world ${worldId}`,
         };
       }
 
@@ -42,7 +47,7 @@ export default defineEventHandler(async (event) => {
           availableActions: ['stats', 'clear'],
           examples: [
             '/api/cache?action=stats - View cache statistics',
-            '/api/cache?action=clear - Clear all cached chunks',
+            '/api/cache?action=clear - Clear cached chunks for your world',
           ],
         };
     }
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import defineValidatedEventHandler from '~~/server/utils/define-validated-event-handler';
+import { getProductionService } from '~~/server/services/ProductionService';
+import { logger } from '#shared/utils/logger';
+
+const paramsSchema = z.object({
+  id: z.uuid(),
+});
+
+export default defineValidatedEventHandler({ params: paramsSchema }, async (event) => {
+  const player = event.context.player;
+  if (!player) {
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+  }
+
+  const { id } = event.context.validated.params;
+
+  const result = await getProductionService().collectExtractors(player.id, player.worldId, [id]);
+
+  logger.info('Extractor collected', {
+    service: 'ExtractorsAPI',
+    method: 'collect',
+    metadata: { extractorId: id, playerId: player.id, collected: result.collected },
+  });
+
+  return {
+    success: true,
+    ...result,
+  };
+});
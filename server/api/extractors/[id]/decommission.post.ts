@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import defineValidatedEventHandler from '~~/server/utils/define-validated-event-handler';
+import { getExtractorService } from '~~/server/services/ExtractorService';
+import { logger } from '#shared/utils/logger';
+
+const paramsSchema = z.object({
+  id: z.uuid(),
+});
+
+export default defineValidatedEventHandler({ params: paramsSchema }, async (event) => {
+  const player = event.context.player;
+  if (!player) {
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+  }
+
+  const { id } = event.context.validated.params;
+  const result = await getExtractorService().decommission(player.id, player.worldId, id);
+
+  logger.info('Extractor decommissioned', {
+    service: 'ExtractorsAPI',
+    method: 'decommission',
+    metadata: {
+      extractorId: id,
+      playerId: player.id,
+      veinId: result.veinId,
+      releasedClaim: result.releasedClaim,
+    },
+  });
+
+  return {
+    success: true,
+    ...result,
+  };
+});
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import defineValidatedEventHandler from '~~/server/utils/define-validated-event-handler';
+import { getExtractorService } from '~~/server/services/ExtractorService';
+import { validateWorldCoordinates } from '~~/server/utils/validation';
+import { logger } from '#shared/utils/logger';
+
+const paramsSchema = z.object({
+  id: z.uuid(),
+});
+
+const relocateSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+});
+
+export default defineValidatedEventHandler(
+  { params: paramsSchema, body: relocateSchema },
+  async (event) => {
+    const player = event.context.player;
+    if (!player) {
+      throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+    }
+
+    const { id } = event.context.validated.params;
+    const { x, y } = event.context.validated.body;
+    validateWorldCoordinates(x, y);
+
+    const extractor = await getExtractorService().relocate(player.id, player.worldId, id, x, y);
+
+    logger.info('Extractor relocated', {
+      service: 'ExtractorsAPI',
+      method: 'relocate',
+      metadata: { extractorId: id, playerId: player.id, x, y },
+    });
+
+    return {
+      success: true,
+      extractor,
+    };
+  },
+);
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import defineValidatedEventHandler from '~~/server/utils/define-validated-event-handler';
+import { getExtractorService, getNextUpgrade } from '~~/server/services/ExtractorService';
+import { logger } from '#shared/utils/logger';
+
+const paramsSchema = z.object({
+  id: z.uuid(),
+});
+
+export default defineValidatedEventHandler({ params: paramsSchema }, async (event) => {
+  const player = event.context.player;
+  if (!player) {
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+  }
+
+  const { id } = event.context.validated.params;
+  const { extractor, credits, tier } = await getExtractorService().upgrade(
+    player.id,
+    player.worldId,
+    id,
+  );
+
+  logger.info('Extractor upgraded', {
+    service: 'ExtractorsAPI',
+    method: 'upgrade',
+    metadata: { extractorId: id, playerId: player.id, tier, efficiency: extractor.efficiency },
+  });
+
+  return {
+    success: true,
+    extractor,
+    credits,
+    tier,
+    nextUpgrade: getNextUpgrade(extractor.efficiency),
+  };
+});
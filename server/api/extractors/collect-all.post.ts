@@ -0,0 +1,26 @@
+import { getProductionService } from '~~/server/services/ProductionService';
+import { logger } from '#shared/utils/logger';
+
+export default defineEventHandler(async (event) => {
+  const player = event.context.player;
+  if (!player) {
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+  }
+
+  const result = await getProductionService().collectExtractors(player.id, player.worldId);
+
+  logger.info('All extractors collected', {
+    service: 'ExtractorsAPI',
+    method: 'collectAll',
+    metadata: {
+      playerId: player.id,
+      extractorsCollected: result.extractorsCollected,
+      collected: result.collected,
+    },
+  });
+
+  return {
+    success: true,
+    ...result,
+  };
+});
@@ -3,6 +3,8 @@ import { createError } from 'h3';
 import defineValidatedEventHandler from '~~/server/utils/define-validated-event-handler';
 import { db } from '~~/server/database/connection';
 import { extractors } from '~~/server/database/schema';
+import { PRODUCTION_CONFIG, type ExtractorStorage } from '~~/server/services/ProductionService';
+import { getNextUpgrade } from '~~/server/services/ExtractorService';
 import { and, eq, sql } from 'drizzle-orm';
 
 const querySchema = z.object({
@@ -40,6 +42,8 @@ export default defineValidatedEventHandler(
         resourceType: extractors.resourceType,
         status: extractors.status,
         efficiency: extractors.efficiency,
+        storage: extractors.storage,
+        lastTick: extractors.lastTick,
         createdAt: extractors.createdAt,
       })
       .from(extractors)
@@ -61,12 +65,16 @@ export default defineValidatedEventHandler(
         resourceType: r.resourceType,
         status: r.status,
         efficiency: r.efficiency,
+        nextUpgrade: getNextUpgrade(r.efficiency),
+        storage: r.storage as ExtractorStorage,
+        lastTick: r.lastTick.toISOString(),
         createdAt:
           r.createdAt instanceof Date
             ? r.createdAt.toISOString()
             : new Date((r.createdAt as unknown as string) ?? '').toISOString(),
       })),
       count: Number(count ?? rows.length),
+      storageCapacity: PRODUCTION_CONFIG.STORAGE_CAPACITY,
     };
   },
 );
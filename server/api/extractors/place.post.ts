@@ -4,6 +4,14 @@ import { db } from '~~/server/database/connection';
 import { extractors, resourceClaims } from '~~/server/database/schema';
 import { eq, sql } from 'drizzle-orm';
 import { validateWorldCoordinates, validateExtractorPlacement } from '~~/server/utils/validation';
+import {
+  publishClaimChange,
+  publishExtractorChange,
+  revealVeinToPlayer,
+} from '~~/server/utils/world-broadcast';
+import { getDiscoveryService } from '~~/server/services/DiscoveryService';
+import { ScanLevel } from '#shared/types/world';
+import { worldToChunk } from '#shared/utils/coordinates';
 import { logger } from '#shared/utils/logger';
 
 const placeExtractorSchema = z.object({
@@ -30,17 +38,22 @@ export default defineValidatedEventHandler({ body: placeExtractorSchema }, async
     worldId,
   });
 
-  const result = await db.transaction(async (trx) => {
+  const { extractor: result, claimId } = await db.transaction(async (trx) => {
+    let newClaimId: string | null = null;
     if (!placement.existingClaimPlayerId) {
-      await trx.insert(resourceClaims).values({
-        playerId: player.id,
-        resourceVeinId: placement.veinId,
-        claimType: 'active',
-      });
+      const [claim] = await trx
+        .insert(resourceClaims)
+        .values({
+          playerId: player.id,
+          resourceVeinId: placement.veinId,
+          claimType: 'active',
+        })
+        .returning({ id: resourceClaims.id });
+      newClaimId = claim!.id;
     } else if (placement.existingClaimPlayerId === player.id) {
       await trx
         .update(resourceClaims)
-        .set({ lastActivity: new Date() })
+        .set({ lastActivity: new Date(), claimType: 'active' })
         .where(eq(resourceClaims.resourceVeinId, placement.veinId));
     }
 
@@ -49,6 +62,7 @@ export default defineValidatedEventHandler({ body: placeExtractorSchema }, async
       .values({
         playerId: player.id,
         worldId,
+        resourceVeinId: placement.veinId,
         x,
         y,
         position: sql`ST_SetSRID(ST_MakePoint(${x}, ${y}), 4326)`,
@@ -60,9 +74,31 @@ export default defineValidatedEventHandler({ body: placeExtractorSchema }, async
       })
       .returning();
 
-    return created;
+    // Building on a vein reveals it and the ground around it, whether or not it was scanned first
+    const discoveryService = getDiscoveryService();
+    await discoveryService.markChunksExplored(player.id, worldId, [worldToChunk(x, y, 16)], trx);
+    await discoveryService.recordVeinDiscovery(
+      player.id,
+      placement.veinId,
+      { scanLevel: ScanLevel.SURFACE, confidence: 1 },
+      trx,
+    );
+
+    return { extractor: created!, claimId: newClaimId };
   });
 
+  revealVeinToPlayer(player.id, placement.veinId);
+
+  publishExtractorChange(worldId, 'placed', result);
+  if (claimId) {
+    publishClaimChange(
+      worldId,
+      'claimed',
+      { claimId, veinId: placement.veinId, playerId: player.id },
+      placement.veinCenter,
+    );
+  }
+
   logger.info('Extractor placed', {
     service: 'ExtractorsAPI',
     method: 'place',
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import defineValidatedEventHandler from '~~/server/utils/define-validated-event-handler';
+import { getMarketService } from '~~/server/services/MarketService';
+import { logger } from '#shared/utils/logger';
+
+const paramsSchema = z.object({
+  id: z.uuid(),
+});
+
+const buyListingSchema = z.object({
+  quantity: z.number().int().positive().optional(),
+});
+
+export default defineValidatedEventHandler(
+  { params: paramsSchema, body: buyListingSchema },
+  async (event) => {
+    const player = event.context.player;
+    if (!player) {
+      throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+    }
+
+    const { id } = event.context.validated.params;
+    const { quantity } = event.context.validated.body;
+
+    const trade = await getMarketService().buyListing(player.id, player.worldId, id, quantity);
+
+    logger.info('Market listing bought', {
+      service: 'MarketAPI',
+      method: 'buyListing',
+      metadata: {
+        listingId: id,
+        playerId: player.id,
+        quantity: trade.quantity,
+        total: trade.total,
+      },
+    });
+
+    return {
+      success: true,
+      trade,
+    };
+  },
+);
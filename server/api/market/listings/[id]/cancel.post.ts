@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import defineValidatedEventHandler from '~~/server/utils/define-validated-event-handler';
+import { getMarketService } from '~~/server/services/MarketService';
+
+const paramsSchema = z.object({
+  id: z.uuid(),
+});
+
+export default defineValidatedEventHandler({ params: paramsSchema }, async (event) => {
+  const player = event.context.player;
+  if (!player) {
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+  }
+
+  const { id } = event.context.validated.params;
+  const inventory = await getMarketService().cancelListing(player.id, id);
+
+  return {
+    success: true,
+    inventory,
+  };
+});
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import defineValidatedEventHandler from '~~/server/utils/define-validated-event-handler';
+import { getMarketService } from '~~/server/services/MarketService';
+import { isProductKey } from '~~/app/config/processing.config';
+
+const listingsQuerySchema = z.object({
+  resourceType: z
+    .string()
+    .refine(isProductKey, { message: 'Unknown resource or product' })
+    .optional(),
+});
+
+export default defineValidatedEventHandler({ query: listingsQuerySchema }, async (event) => {
+  const player = event.context.player;
+  if (!player) {
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+  }
+
+  const { resourceType } = event.context.validated.query;
+  const listings = await getMarketService().getOpenListings(player.worldId, resourceType);
+
+  return {
+    success: true,
+    listings: listings.map((listing) => ({
+      ...listing,
+      isOwn: listing.sellerId === player.id,
+    })),
+  };
+});
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import defineValidatedEventHandler from '~~/server/utils/define-validated-event-handler';
+import { getMarketService } from '~~/server/services/MarketService';
+import { isProductKey } from '~~/app/config/processing.config';
+import { logger } from '#shared/utils/logger';
+
+const createListingSchema = z.object({
+  resourceType: z.string().refine(isProductKey, { message: 'Unknown resource or product' }),
+  quantity: z.number().int().positive(),
+  pricePerUnit: z.number().positive().max(1_000_000),
+});
+
+export default defineValidatedEventHandler({ body: createListingSchema }, async (event) => {
+  const player = event.context.player;
+  if (!player) {
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+  }
+
+  const { resourceType, quantity, pricePerUnit } = event.context.validated.body;
+
+  const listing = await getMarketService().createListing(
+    player.id,
+    player.worldId,
+    resourceType,
+    quantity,
+    pricePerUnit,
+  );
+
+  logger.info('Market listing created', {
+    service: 'MarketAPI',
+    method: 'createListing',
+    metadata: { listingId: listing.id, playerId: player.id, resourceType, quantity, pricePerUnit },
+  });
+
+  setResponseStatus(event, 201);
+
+  return {
+    success: true,
+    listing,
+  };
+});
@@ -0,0 +1,15 @@
+import { getMarketService } from '~~/server/services/MarketService';
+
+export default defineEventHandler(async (event) => {
+  const player = event.context.player;
+  if (!player) {
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+  }
+
+  const prices = await getMarketService().getPrices(player.worldId);
+
+  return {
+    success: true,
+    prices,
+  };
+});
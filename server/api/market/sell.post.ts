@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import defineValidatedEventHandler from '~~/server/utils/define-validated-event-handler';
+import { getMarketService } from '~~/server/services/MarketService';
+import { isProductKey } from '~~/app/config/processing.config';
+import { logger } from '#shared/utils/logger';
+
+const sellSchema = z.object({
+  resourceType: z.string().refine(isProductKey, { message: 'Unknown resource or product' }),
+  quantity: z.number().int().positive(),
+});
+
+export default defineValidatedEventHandler({ body: sellSchema }, async (event) => {
+  const player = event.context.player;
+  if (!player) {
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+  }
+
+  const { resourceType, quantity } = event.context.validated.body;
+
+  const trade = await getMarketService().sellToMarket(
+    player.id,
+    player.worldId,
+    resourceType,
+    quantity,
+  );
+
+  logger.info('Resources sold to market', {
+    service: 'MarketAPI',
+    method: 'sell',
+    metadata: { playerId: player.id, resourceType, quantity, total: trade.total },
+  });
+
+  return {
+    success: true,
+    trade,
+  };
+});
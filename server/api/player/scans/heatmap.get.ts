@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import defineValidatedEventHandler from '~~/server/utils/define-validated-event-handler';
+import { getScanService, SCAN_HISTORY_CONFIG } from '~~/server/services/ScanService';
+
+// Widest area a heatmap may cover, in cells per side
+const MAX_HEATMAP_SPAN = SCAN_HISTORY_CONFIG.MAX_HEATMAP_CHUNKS * 16;
+
+const heatmapQuerySchema = z
+  .object({
+    minX: z.coerce.number(),
+    minY: z.coerce.number(),
+    maxX: z.coerce.number(),
+    maxY: z.coerce.number(),
+    since: z.coerce.date().optional(),
+    until: z.coerce.date().optional(),
+  })
+  .refine(({ minX, minY, maxX, maxY }) => minX <= maxX && minY <= maxY, {
+    message: 'A bounding box needs minX <= maxX and minY <= maxY',
+  })
+  .refine(
+    ({ minX, minY, maxX, maxY }) =>
+      maxX - minX <= MAX_HEATMAP_SPAN && maxY - minY <= MAX_HEATMAP_SPAN,
+    { message: `A heatmap covers at most ${MAX_HEATMAP_SPAN} cells per side` },
+  );
+
+/**
+ * GET /api/player/scans/heatmap
+ *
+ * How much of each chunk in the bounding box the player has prospected: the number of scans
+ * touching the chunk, the share of its cells they covered and when it was last scanned.
+ */
+export default defineValidatedEventHandler({ query: heatmapQuerySchema }, async (event) => {
+  const player = event.context.player;
+  if (!player) {
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+  }
+
+  const { minX, minY, maxX, maxY, since, until } = event.context.validated.query;
+  const chunks = await getScanService().getCoverageHeatmap(
+    player,
+    { minX, minY, maxX, maxY },
+    { since, until },
+  );
+
+  return { success: true, chunkSize: 16, chunks };
+});
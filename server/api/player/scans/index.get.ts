@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import defineValidatedEventHandler from '~~/server/utils/define-validated-event-handler';
+import { getScanService, SCAN_HISTORY_CONFIG } from '~~/server/services/ScanService';
+
+const scanHistoryQuerySchema = z
+  .object({
+    minX: z.coerce.number().optional(),
+    minY: z.coerce.number().optional(),
+    maxX: z.coerce.number().optional(),
+    maxY: z.coerce.number().optional(),
+    since: z.coerce.date().optional(),
+    until: z.coerce.date().optional(),
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(SCAN_HISTORY_CONFIG.MAX_LIMIT)
+      .default(SCAN_HISTORY_CONFIG.DEFAULT_LIMIT),
+  })
+  .refine(
+    ({ minX, minY, maxX, maxY }) => {
+      const given = [minX, minY, maxX, maxY].filter((value) => value !== undefined).length;
+      return given === 0 || (given === 4 && minX! <= maxX! && minY! <= maxY!);
+    },
+    { message: 'A bounding box needs minX <= maxX and minY <= maxY' },
+  );
+
+/**
+ * GET /api/player/scans
+ *
+ * The player's past scans in their current world, newest first. Narrow them down with a
+ * bounding box (all of minX, minY, maxX, maxY) and/or a `since`/`until` time window.
+ */
+export default defineValidatedEventHandler({ query: scanHistoryQuerySchema }, async (event) => {
+  const player = event.context.player;
+  if (!player) {
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+  }
+
+  const { minX, minY, maxX, maxY, since, until, limit } = event.context.validated.query;
+  const bounds =
+    minX !== undefined && minY !== undefined && maxX !== undefined && maxY !== undefined
+      ? { minX, minY, maxX, maxY }
+      : undefined;
+
+  const scans = await getScanService().getScanHistory(player, { bounds, since, until }, limit);
+
+  return { success: true, scans };
+});
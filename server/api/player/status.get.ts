@@ -16,6 +16,7 @@ export default defineEventHandler(async (event) => {
     player: {
       id: player.id,
       sessionId: sessionId,
+      worldId: player.worldId,
       name: player.name || 'Anonymous Player',
       inventory: player.inventory || {},
       credits: player.credits || 0,
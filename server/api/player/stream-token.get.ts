@@ -0,0 +1,20 @@
+import { defineEventHandler, createError } from 'h3';
+import { createStreamToken } from '~~/server/utils/stream-auth';
+
+/**
+ * Issue a short-lived token for opening the world stream as the current player
+ */
+export default defineEventHandler((event) => {
+  const player = event.context.player;
+  if (!player) {
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+  }
+
+  const { token, expiresAt } = createStreamToken(player.id);
+
+  return {
+    success: true,
+    token,
+    expiresAt: expiresAt.toISOString(),
+  };
+});
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { eq } from 'drizzle-orm';
+import defineValidatedEventHandler from '~~/server/utils/define-validated-event-handler';
+import { db } from '~~/server/database/connection';
+import { players } from '~~/server/database/schema';
+import { getActiveWorld } from '~~/server/utils/player-world';
+import { movePeerPlayers } from '~~/server/utils/world-broadcast';
+
+const switchWorldSchema = z.object({
+  worldId: z.uuid(),
+});
+
+export default defineValidatedEventHandler({ body: switchWorldSchema }, async (event) => {
+  const player = event.context.player;
+  if (!player) {
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+  }
+
+  const { worldId } = event.context.validated.body;
+  const world = await getActiveWorld(worldId);
+
+  await db.update(players).set({ worldId: world.id }).where(eq(players.id, player.id));
+  movePeerPlayers([player.id], world.id);
+
+  return {
+    success: true,
+    world: {
+      id: world.id,
+      name: world.name,
+      description: world.description,
+    },
+  };
+});
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import defineValidatedEventHandler from '~~/server/utils/define-validated-event-handler';
+import { getProcessingService } from '~~/server/services/ProcessingService';
+import { logger } from '#shared/utils/logger';
+
+const paramsSchema = z.object({
+  id: z.uuid(),
+});
+
+const queueJobSchema = z.object({
+  input: z.string().min(1),
+  quantity: z.number().int().positive(),
+});
+
+export default defineValidatedEventHandler(
+  { params: paramsSchema, body: queueJobSchema },
+  async (event) => {
+    const player = event.context.player;
+    if (!player) {
+      throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+    }
+
+    const { id } = event.context.validated.params;
+    const { input, quantity } = event.context.validated.body;
+
+    const { job, inventory } = await getProcessingService().queueJob(
+      player.id,
+      id,
+      input,
+      quantity,
+    );
+
+    logger.info('Processing job queued', {
+      service: 'ProcessingAPI',
+      method: 'queueJob',
+      metadata: { jobId: job.id, facilityId: id, playerId: player.id, input, quantity },
+    });
+
+    setResponseStatus(event, 201);
+
+    return {
+      success: true,
+      job,
+      inventory,
+    };
+  },
+);
@@ -0,0 +1,15 @@
+import { getProcessingService } from '~~/server/services/ProcessingService';
+
+export default defineEventHandler(async (event) => {
+  const player = event.context.player;
+  if (!player) {
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+  }
+
+  const facilities = await getProcessingService().getFacilities(player.id, player.worldId);
+
+  return {
+    success: true,
+    facilities,
+  };
+});
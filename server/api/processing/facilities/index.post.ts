@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import defineValidatedEventHandler from '~~/server/utils/define-validated-event-handler';
+import { getProcessingService } from '~~/server/services/ProcessingService';
+import { validateWorldCoordinates } from '~~/server/utils/validation';
+import { ProcessingStep } from '#shared/types/world';
+import { logger } from '#shared/utils/logger';
+
+const placeFacilitySchema = z.object({
+  step: z.enum(ProcessingStep),
+  x: z.number(),
+  y: z.number(),
+});
+
+export default defineValidatedEventHandler({ body: placeFacilitySchema }, async (event) => {
+  const player = event.context.player;
+  if (!player) {
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+  }
+
+  const { step, x, y } = event.context.validated.body;
+  validateWorldCoordinates(x, y);
+
+  const { facility, credits } = await getProcessingService().placeFacility(
+    player.id,
+    player.worldId,
+    step,
+    x,
+    y,
+  );
+
+  logger.info('Processing facility placed', {
+    service: 'ProcessingAPI',
+    method: 'placeFacility',
+    metadata: { facilityId: facility.id, playerId: player.id, step, x, y },
+  });
+
+  setResponseStatus(event, 201);
+
+  return {
+    success: true,
+    facility: { ...facility, jobs: [] },
+    credits,
+  };
+});
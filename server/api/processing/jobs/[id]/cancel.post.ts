@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import defineValidatedEventHandler from '~~/server/utils/define-validated-event-handler';
+import { getProcessingService } from '~~/server/services/ProcessingService';
+
+const paramsSchema = z.object({
+  id: z.uuid(),
+});
+
+export default defineValidatedEventHandler({ params: paramsSchema }, async (event) => {
+  const player = event.context.player;
+  if (!player) {
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+  }
+
+  const { id } = event.context.validated.params;
+  const inventory = await getProcessingService().cancelJob(player.id, id);
+
+  return {
+    success: true,
+    inventory,
+  };
+});
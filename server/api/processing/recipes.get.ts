@@ -0,0 +1,17 @@
+import { PROCESSING_STEP_CONFIGS, getProcessingChain } from '~~/app/config/processing.config';
+import { RESOURCE_CONFIGS } from '~~/app/config/resources.config';
+import { ResourceType } from '#shared/types/world';
+
+export default defineEventHandler(() => {
+  const chains = Object.values(ResourceType).map((resourceType) => ({
+    resourceType,
+    baseValue: RESOURCE_CONFIGS[resourceType].baseValue,
+    recipes: getProcessingChain(resourceType),
+  }));
+
+  return {
+    success: true,
+    steps: Object.values(PROCESSING_STEP_CONFIGS),
+    chains,
+  };
+});
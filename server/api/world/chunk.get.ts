@@ -1,6 +1,7 @@
 import { z } from 'zod/v4';
 import defineValidatedEventHandler from '~~/server/utils/define-validated-event-handler';
 import { generateOrLoadChunk } from '~~/server/utils/resource-generator';
+import { getDiscoveryService } from '~~/server/services/DiscoveryService';
 
 const querySchema = z.object({
   x: z.coerce.number().int().default(0),
@@ -12,19 +13,32 @@ export default defineValidatedEventHandler(
     query: querySchema,
   },
   async (event) => {
+    const player = event.context.player;
+    if (!player) {
+      throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+    }
+
     const { x, y } = event.context.validated.query;
 
     const chunkSize = 16;
-    const worldId = 'default';
+    const worldId = player.worldId;
 
     const chunkData = await generateOrLoadChunk(x, y, chunkSize, worldId);
+    const view = await getDiscoveryService().viewChunk(
+      player.id,
+      worldId,
+      { chunkX: x, chunkY: y },
+      chunkData.resources,
+    );
 
     return {
       success: true,
       terrain: chunkData.terrain,
+      worldId,
       coordinates: { x, y },
       chunkSize: chunkData.size,
-      resources: chunkData.resources,
+      resources: view.resources,
+      explored: view.explored,
       metadata: {
         ...chunkData.metadata,
         generationTime: Date.now(),
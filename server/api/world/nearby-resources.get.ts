@@ -2,8 +2,10 @@ import { z } from 'zod';
 import defineValidatedEventHandler from '~~/server/utils/define-validated-event-handler';
 import { db } from '~~/server/database/connection';
 import { resourceVeins } from '~~/server/database/schema';
-import { sql } from 'drizzle-orm';
-import { ensureChunksHavePersistedVeins } from '~~/server/utils/resource-generator';
+import { getTableColumns, sql } from 'drizzle-orm';
+import { ensureChunksHavePersistedVeins, isCurrentVein } from '~~/server/utils/resource-generator';
+import { toResourceVein } from '~~/server/utils/resource-vein-mapper';
+import { getDiscoveryService } from '~~/server/services/DiscoveryService';
 import { WORLD_CONFIG } from '~~/app/config/world.config';
 import { logger } from '#shared/utils/logger';
 import {
@@ -22,8 +24,12 @@ const nearbyResourcesSchema = z.object({
 });
 
 export default defineValidatedEventHandler({ query: nearbyResourcesSchema }, async (event) => {
+  const player = event.context.player;
+  if (!player) {
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+  }
   const { x, y, radius, resourceType } = event.context.validated.query;
-  const worldId = event.context.player.worldId;
+  const worldId = player.worldId;
 
   try {
     assertValidCoordinates(x, y);
@@ -40,55 +46,52 @@ export default defineValidatedEventHandler({ query: nearbyResourcesSchema }, asy
 
     const queryPoint = sql`ST_SetSRID(ST_MakePoint(${normalizedCoords.x}, ${normalizedCoords.y}), 4326)`;
 
-    let whereClause = sql`ST_DWithin(${resourceVeins.centerPoint}, ${queryPoint}, ${radius}) AND ${resourceVeins.worldId} = ${worldId}`;
+    // Only the current generator's veins, as scans and placement see them
+    let whereClause = sql`ST_DWithin(${resourceVeins.centerPoint}, ${queryPoint}, ${radius}) AND ${resourceVeins.worldId} = ${worldId} AND ${isCurrentVein()}`;
 
     if (resourceType) {
       whereClause = sql`${whereClause} AND ${resourceVeins.resourceType} = ${resourceType}`;
     }
 
-    const nearbyVeins = await db
+    const rows = await db
       .select({
-        id: resourceVeins.id,
-        resourceType: resourceVeins.resourceType,
-        centerX: resourceVeins.centerX,
-        centerY: resourceVeins.centerY,
-        radius: resourceVeins.radius,
-        density: resourceVeins.density,
-        quality: resourceVeins.quality,
-        depth: resourceVeins.depth,
-        isExhausted: resourceVeins.isExhausted,
-        extractedAmount: resourceVeins.extractedAmount,
-        distance: sql`ST_Distance(${resourceVeins.centerPoint}, ${queryPoint})`.as('distance'),
-        withinExtractionArea: sql`ST_Within(${queryPoint}, ${resourceVeins.extractionArea})`.as(
-          'within_extraction_area',
+        ...getTableColumns(resourceVeins),
+        distance: sql<number>`ST_Distance(${resourceVeins.centerPoint}, ${queryPoint})`.mapWith(
+          Number,
         ),
+        withinExtractionArea: sql<boolean>`ST_DWithin(${resourceVeins.centerPoint}, ${queryPoint}, ${resourceVeins.radius})`,
       })
       .from(resourceVeins)
       .where(whereClause)
       .orderBy(sql`ST_Distance(${resourceVeins.centerPoint}, ${queryPoint})`);
 
+    // Undiscovered veins stay under the player's fog of war
+    const nearbyVeins = await getDiscoveryService().viewVeins(
+      player.id,
+      rows.map(({ distance, withinExtractionArea, ...row }) => ({
+        ...toResourceVein(row),
+        distance,
+        withinExtractionArea,
+      })),
+    );
+
     // The resource generator should prevent duplicates, but as a safeguard,
     // we perform a de-duplication step here based on MIN_RESOURCE_DISTANCE.
     // This is a temporary measure until the generation logic is fully verified.
     const deduplicatedVeins: typeof nearbyVeins = [];
     for (const vein of nearbyVeins) {
-      const currentCoord: WorldCoordinate = { x: vein.centerX, y: vein.centerY };
+      const currentCoord: WorldCoordinate = { x: vein.location.worldX, y: vein.location.worldY };
 
       const isDuplicate = deduplicatedVeins.some((existingVein) => {
         const existingCoord: WorldCoordinate = {
-          x: existingVein.centerX,
-          y: existingVein.centerY,
+          x: existingVein.location.worldX,
+          y: existingVein.location.worldY,
         };
         return calculateDistance(currentCoord, existingCoord) < MIN_RESOURCE_DISTANCE;
       });
 
       if (!isDuplicate) {
-        const normalizedVeinCoords = normalizeWorldCoordinates(vein.centerX, vein.centerY);
-        deduplicatedVeins.push({
-          ...vein,
-          centerX: normalizedVeinCoords.x,
-          centerY: normalizedVeinCoords.y,
-        });
+        deduplicatedVeins.push(vein);
       }
     }
 
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import defineValidatedEventHandler from '~~/server/utils/define-validated-event-handler';
+import { sampleTerrainOverview } from '~~/server/utils/terrain-generator';
+import { getWorldSeed } from '~~/server/utils/world-seed';
+import { getDiscoveryService } from '~~/server/services/DiscoveryService';
+import type { WorldOverview } from '#shared/types/world';
+
+const CHUNK_SIZE = 16;
+
+const overviewQuerySchema = z.object({
+  // World cell the overview is centered on
+  x: z.coerce.number().default(0),
+  y: z.coerce.number().default(0),
+  // Cells per side the overview covers, and samples per side it is drawn from
+  span: z.coerce.number().int().min(64).max(8192).default(2048),
+  resolution: z.coerce.number().int().min(8).max(128).default(64),
+});
+
+/**
+ * GET /api/world/overview
+ *
+ * Low-resolution terrain around a point of the player's world for the minimap, with the chunks
+ * the player has explored and the veins they have discovered in that area.
+ */
+export default defineValidatedEventHandler({ query: overviewQuerySchema }, async (event) => {
+  const player = event.context.player;
+  if (!player) {
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+  }
+
+  const { x, y, span, resolution } = event.context.validated.query;
+  const step = span / resolution;
+  const originX = Math.floor(x - span / 2);
+  const originY = Math.floor(y - span / 2);
+  const bounds = {
+    minX: originX,
+    minY: originY,
+    maxX: originX + span - 1,
+    maxY: originY + span - 1,
+  };
+
+  const seed = await getWorldSeed(player.worldId);
+  const discoveryService = getDiscoveryService();
+  const [exploredChunks, discoveredVeins] = await Promise.all([
+    discoveryService.getExploredChunksInArea(player.id, player.worldId, {
+      minChunkX: Math.floor(bounds.minX / CHUNK_SIZE),
+      minChunkY: Math.floor(bounds.minY / CHUNK_SIZE),
+      maxChunkX: Math.floor(bounds.maxX / CHUNK_SIZE),
+      maxChunkY: Math.floor(bounds.maxY / CHUNK_SIZE),
+    }),
+    discoveryService.getDiscoveredVeinsInBounds(player.id, player.worldId, bounds),
+  ]);
+
+  const overview: WorldOverview = {
+    worldId: player.worldId,
+    originX,
+    originY,
+    step,
+    resolution,
+    terrain: sampleTerrainOverview(seed, originX, originY, step, resolution),
+    exploredChunks,
+    discoveredVeins,
+  };
+
+  return { success: true, overview };
+});
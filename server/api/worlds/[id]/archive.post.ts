@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import { and, eq, ne } from 'drizzle-orm';
+import defineValidatedEventHandler from '~~/server/utils/define-validated-event-handler';
+import { db } from '~~/server/database/connection';
+import { players, worldChunks, worlds } from '~~/server/database/schema';
+import { getCacheService } from '~~/server/services/CacheService';
+import { getStorageService } from '~~/server/services/StorageService';
+import { assertCanManageWorld } from '~~/server/utils/player-world';
+import { movePeerPlayers } from '~~/server/utils/world-broadcast';
+import { logger } from '#shared/utils/logger';
+
+const paramsSchema = z.object({
+  id: z.uuid(),
+});
+
+/**
+ * Archive a world: mark it inactive, move its players to another active world,
+ * and purge its generated chunks from Redis and MinIO.
+ */
+export default defineValidatedEventHandler({ params: paramsSchema }, async (event) => {
+  const player = event.context.player;
+  if (!player) {
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+  }
+
+  const { id } = event.context.validated.params;
+
+  const result = await db.transaction(async (trx) => {
+    const world = await trx.query.worlds.findFirst({
+      where: and(eq(worlds.id, id), eq(worlds.isActive, true)),
+    });
+
+    if (!world) {
+      throw createError({ statusCode: 404, statusMessage: `Active world ${id} not found` });
+    }
+    assertCanManageWorld(player, world);
+
+    const [archived] = await trx
+      .update(worlds)
+      .set({ isActive: false, updatedAt: new Date() })
+      .where(and(eq(worlds.id, id), eq(worlds.isActive, true)))
+      .returning();
+
+    if (!archived) {
+      throw createError({ statusCode: 404, statusMessage: `Active world ${id} not found` });
+    }
+
+    const fallbackWorld = await trx.query.worlds.findFirst({
+      where: and(eq(worlds.isActive, true), ne(worlds.id, id)),
+    });
+
+    if (!fallbackWorld) {
+      throw createError({
+        statusCode: 409,
+        statusMessage: 'Cannot archive the last active world',
+      });
+    }
+
+    const movedPlayers = await trx
+      .update(players)
+      .set({ worldId: fallbackWorld.id })
+      .where(eq(players.worldId, id))
+      .returning({ id: players.id });
+
+    await trx.delete(worldChunks).where(eq(worldChunks.worldId, id));
+
+    return {
+      archived,
+      fallbackWorld,
+      movedPlayerIds: movedPlayers.map(({ id: playerId }) => playerId),
+    };
+  });
+
+  movePeerPlayers(result.movedPlayerIds, result.fallbackWorld.id);
+  await Promise.all([getCacheService().clearWorld(id), getStorageService().clearWorld(id)]);
+
+  logger.info('World archived', {
+    service: 'WorldsAPI',
+    method: 'archive',
+    metadata: {
+      worldId: id,
+      fallbackWorldId: result.fallbackWorld.id,
+      movedPlayerCount: result.movedPlayerIds.length,
+      playerId: player.id,
+    },
+  });
+
+  return {
+    success: true,
+    world: result.archived,
+    playersMovedTo: result.fallbackWorld.id,
+    movedPlayerCount: result.movedPlayerIds.length,
+  };
+});
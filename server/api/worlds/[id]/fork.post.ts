@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { eq } from 'drizzle-orm';
+import defineValidatedEventHandler from '~~/server/utils/define-validated-event-handler';
+import { db } from '~~/server/database/connection';
+import { worlds } from '~~/server/database/schema';
+import { assertCanManageWorld } from '~~/server/utils/player-world';
+import { logger } from '#shared/utils/logger';
+
+const paramsSchema = z.object({
+  id: z.uuid(),
+});
+
+const forkWorldSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().max(500).optional(),
+});
+
+/**
+ * Fork a world: the new world shares the source seed, so it generates identical terrain and veins,
+ * but starts without any of the source's players, extractors, claims or extraction progress.
+ */
+export default defineValidatedEventHandler(
+  { params: paramsSchema, body: forkWorldSchema },
+  async (event) => {
+    const player = event.context.player;
+    if (!player) {
+      throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+    }
+
+    const { id } = event.context.validated.params;
+    const { name, description } = event.context.validated.body;
+
+    const source = await db.query.worlds.findFirst({
+      where: eq(worlds.id, id),
+    });
+
+    if (!source) {
+      throw createError({ statusCode: 404, statusMessage: `World ${id} not found` });
+    }
+    assertCanManageWorld(player, source);
+
+    const [world] = await db
+      .insert(worlds)
+      .values({
+        name: name ?? `${source.name} (fork)`,
+        seed: source.seed,
+        description: description ?? source.description,
+        ownerId: player.id,
+        isActive: true,
+      })
+      .returning();
+
+    logger.info('World forked', {
+      service: 'WorldsAPI',
+      method: 'fork',
+      metadata: { sourceWorldId: source.id, worldId: world!.id, playerId: player.id },
+    });
+
+    setResponseStatus(event, 201);
+
+    return {
+      success: true,
+      world,
+      forkedFrom: source.id,
+    };
+  },
+);
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { asc, eq, sql } from 'drizzle-orm';
+import defineValidatedEventHandler from '~~/server/utils/define-validated-event-handler';
+import { db } from '~~/server/database/connection';
+import { players, worldChunks, worlds } from '~~/server/database/schema';
+
+const listWorldsSchema = z.object({
+  includeArchived: z.stringbool().optional().default(false),
+});
+
+export default defineValidatedEventHandler({ query: listWorldsSchema }, async (event) => {
+  const { includeArchived } = event.context.validated.query;
+
+  const rows = await db
+    .select({
+      id: worlds.id,
+      name: worlds.name,
+      seed: worlds.seed,
+      description: worlds.description,
+      isActive: worlds.isActive,
+      createdAt: worlds.createdAt,
+      updatedAt: worlds.updatedAt,
+      playerCount: sql<number>`(
+        SELECT count(*) FROM ${players} WHERE ${players.worldId} = ${worlds.id}
+      )`.mapWith(Number),
+      chunkCount: sql<number>`(
+        SELECT count(*) FROM ${worldChunks} WHERE ${worldChunks.worldId} = ${worlds.id}
+      )`.mapWith(Number),
+    })
+    .from(worlds)
+    .where(includeArchived ? undefined : eq(worlds.isActive, true))
+    .orderBy(asc(worlds.createdAt));
+
+  return {
+    success: true,
+    worlds: rows,
+    currentWorldId: event.context.player?.worldId ?? null,
+  };
+});
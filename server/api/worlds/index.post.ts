@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import defineValidatedEventHandler from '~~/server/utils/define-validated-event-handler';
+import { db } from '~~/server/database/connection';
+import { worlds } from '~~/server/database/schema';
+import { assertWorldAdmin } from '~~/server/utils/player-world';
+import { logger } from '#shared/utils/logger';
+
+const createWorldSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  seed: z.string().trim().min(1).max(200).optional(),
+  description: z.string().max(500).optional(),
+});
+
+export default defineValidatedEventHandler({ body: createWorldSchema }, async (event) => {
+  const player = event.context.player;
+  if (!player) {
+    throw createError({ statusCode: 401, statusMessage: 'Unauthorized' });
+  }
+  assertWorldAdmin(player);
+
+  const { name, seed, description } = event.context.validated.body;
+
+  const [world] = await db
+    .insert(worlds)
+    .values({
+      name,
+      seed: seed ?? uuidv4(),
+      description,
+      ownerId: player.id,
+      isActive: true,
+    })
+    .returning();
+
+  logger.info('World created', {
+    service: 'WorldsAPI',
+    method: 'create',
+    metadata: { worldId: world!.id, name, seed: world!.seed, playerId: player.id },
+  });
+
+  setResponseStatus(event, 201);
+
+  return {
+    success: true,
+    world,
+  };
+});
@@ -11,6 +11,9 @@ import {
   unique,
   geometry,
   doublePrecision,
+  integer,
+  bigint,
+  type AnyPgColumn,
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 import { createInsertSchema, createSelectSchema } from 'drizzle-zod';
@@ -25,6 +28,8 @@ export const worlds = pgTable(
     name: text('name').notNull(),
     seed: text('seed').notNull(),
     description: text('description'),
+    // Player who created or forked the world; worlds without one can only be managed by admins
+    ownerId: uuid('owner_id').references((): AnyPgColumn => players.id, { onDelete: 'set null' }),
     isActive: boolean('is_active').notNull().default(true),
     createdAt: timestamp('created_at').notNull().defaultNow(),
     updatedAt: timestamp('updated_at').notNull().defaultNow(),
@@ -64,6 +69,9 @@ export const players = pgTable(
     name: text('name'),
     inventory: jsonb('inventory').notNull().default('{}'),
     credits: real('credits').notNull().default(1000),
+    role: text('role', { enum: ['player', 'admin'] })
+      .notNull()
+      .default('player'),
     lastActive: timestamp('last_active').notNull().defaultNow(),
     createdAt: timestamp('created_at').notNull().defaultNow(),
     updatedAt: timestamp('updated_at').notNull().defaultNow(),
@@ -99,7 +107,22 @@ export const resourceVeins = pgTable(
     density: doublePrecision('density').notNull(),
     quality: doublePrecision('quality').notNull(),
     depth: doublePrecision('depth'),
+    // Generated attributes; null on veins persisted before they were stored
+    grade: text('grade'),
+    accessibility: doublePrecision('accessibility'),
+    formation: text('formation'),
+    terrain: text('terrain'),
+    climate: text('climate'),
+    hazards: jsonb('hazards').notNull().default('[]'),
+    nearbyVeins: jsonb('nearby_veins').notNull().default('[]'),
+    geologicalFeatures: jsonb('geological_features').notNull().default('[]'),
+    distanceToWater: doublePrecision('distance_to_water'),
+    seed: bigint('seed', { mode: 'number' }),
+    // Generator that produced the vein; null on veins from before it was recorded, which are only
+    // kept while an extractor or claim depends on them
+    generatorVersion: text('generator_version'),
     isExhausted: boolean('is_exhausted').notNull().default(false),
+    totalReserves: doublePrecision('total_reserves').notNull(),
     extractedAmount: doublePrecision('extracted_amount').notNull().default(0),
     discoveredAt: timestamp('discovered_at'),
     createdAt: timestamp('created_at').notNull().defaultNow(),
@@ -118,6 +141,8 @@ export const playerScans = pgTable(
   {
     id: uuid('id').primaryKey().defaultRandom(),
     sessionId: text('session_id').notNull(),
+    // Null on scans recorded before history was kept per world
+    worldId: uuid('world_id').references(() => worlds.id, { onDelete: 'cascade' }),
     scanCenter: geometry('scan_center', {
       type: 'point',
       mode: 'xy',
@@ -134,11 +159,63 @@ export const playerScans = pgTable(
   },
   (table) => [
     index('player_scans_session_time_idx').on(table.sessionId, table.scannedAt),
+    index('player_scans_session_world_time_idx').on(
+      table.sessionId,
+      table.worldId,
+      table.scannedAt,
+    ),
     index('player_scans_center_spatial_idx').using('gist', table.scanCenter),
     index('player_scans_area_spatial_idx').using('gist', table.scanArea),
   ],
 );
 
+// Chunks a player has surveyed; unexplored chunks stream terrain only and render under fog
+export const playerExploredChunks = pgTable(
+  'player_explored_chunks',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    playerId: uuid('player_id')
+      .notNull()
+      .references(() => players.id, { onDelete: 'cascade' }),
+    worldId: uuid('world_id')
+      .notNull()
+      .references(() => worlds.id, { onDelete: 'cascade' }),
+    chunkX: integer('chunk_x').notNull(),
+    chunkY: integer('chunk_y').notNull(),
+    exploredAt: timestamp('explored_at').notNull().defaultNow(),
+  },
+  (table) => [
+    unique('player_explored_chunks_unique').on(
+      table.playerId,
+      table.worldId,
+      table.chunkX,
+      table.chunkY,
+    ),
+    index('player_explored_chunks_player_world_idx').on(table.playerId, table.worldId),
+  ],
+);
+
+// Veins a player has revealed; chunk payloads withhold every other vein from that player
+export const playerDiscoveredVeins = pgTable(
+  'player_discovered_veins',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    playerId: uuid('player_id')
+      .notNull()
+      .references(() => players.id, { onDelete: 'cascade' }),
+    resourceVeinId: uuid('resource_vein_id')
+      .notNull()
+      .references(() => resourceVeins.id, { onDelete: 'cascade' }),
+    scanLevel: text('scan_level').notNull(),
+    confidence: real('confidence').notNull(),
+    discoveredAt: timestamp('discovered_at').notNull().defaultNow(),
+  },
+  (table) => [
+    unique('player_discovered_veins_unique').on(table.playerId, table.resourceVeinId),
+    index('player_discovered_veins_vein_idx').on(table.resourceVeinId),
+  ],
+);
+
 export const resourceClaims = pgTable(
   'resource_claims',
   {
@@ -154,6 +231,8 @@ export const resourceClaims = pgTable(
     claimType: text('claim_type', { enum: ['active', 'reserved'] })
       .notNull()
       .default('active'),
+    // Set when the inactivity warning goes out; a warning older than lastActivity no longer applies
+    warnedAt: timestamp('warned_at'),
   },
   (table) => [
     unique().on(table.resourceVeinId), // Only one claim per vein
@@ -188,6 +267,9 @@ export const extractors = pgTable(
     worldId: uuid('world_id')
       .notNull()
       .references(() => worlds.id, { onDelete: 'cascade' }),
+    resourceVeinId: uuid('resource_vein_id').references(() => resourceVeins.id, {
+      onDelete: 'set null',
+    }),
     x: real('x').notNull(),
     y: real('y').notNull(),
     position: geometry('position', {
@@ -206,6 +288,7 @@ export const extractors = pgTable(
   (table) => [
     index('extractors_player_id_idx').on(table.playerId),
     index('extractors_world_id_idx').on(table.worldId),
+    index('extractors_vein_idx').on(table.resourceVeinId),
     index('extractors_resource_type_idx').on(table.resourceType),
     index('extractors_location_idx').on(table.x, table.y),
     index('extractors_position_spatial_idx').using('gist', table.position),
@@ -213,6 +296,104 @@ export const extractors = pgTable(
   ],
 );
 
+export const marketListings = pgTable(
+  'market_listings',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    worldId: uuid('world_id')
+      .notNull()
+      .references(() => worlds.id, { onDelete: 'cascade' }),
+    sellerId: uuid('seller_id')
+      .notNull()
+      .references(() => players.id, { onDelete: 'cascade' }),
+    resourceType: text('resource_type').notNull(),
+    quantity: doublePrecision('quantity').notNull(),
+    pricePerUnit: doublePrecision('price_per_unit').notNull(),
+    status: text('status', { enum: ['open', 'filled', 'cancelled'] })
+      .notNull()
+      .default('open'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => [
+    index('market_listings_world_type_status_idx').on(
+      table.worldId,
+      table.resourceType,
+      table.status,
+    ),
+    index('market_listings_seller_idx').on(table.sellerId),
+  ],
+);
+
+export const marketPrices = pgTable(
+  'market_prices',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    worldId: uuid('world_id')
+      .notNull()
+      .references(() => worlds.id, { onDelete: 'cascade' }),
+    resourceType: text('resource_type').notNull(),
+    // Units bought minus units sold, decaying toward zero so prices drift back to baseline
+    netDemand: doublePrecision('net_demand').notNull().default(0),
+    lastPrice: doublePrecision('last_price').notNull(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => [unique('market_prices_world_type_unique').on(table.worldId, table.resourceType)],
+);
+
+export const processingFacilities = pgTable(
+  'processing_facilities',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    playerId: uuid('player_id')
+      .notNull()
+      .references(() => players.id, { onDelete: 'cascade' }),
+    worldId: uuid('world_id')
+      .notNull()
+      .references(() => worlds.id, { onDelete: 'cascade' }),
+    step: text('step').notNull(),
+    x: real('x').notNull(),
+    y: real('y').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => [
+    index('processing_facilities_player_idx').on(table.playerId),
+    index('processing_facilities_world_idx').on(table.worldId),
+    unique().on(table.x, table.y, table.worldId),
+  ],
+);
+
+export const processingJobs = pgTable(
+  'processing_jobs',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    facilityId: uuid('facility_id')
+      .notNull()
+      .references(() => processingFacilities.id, { onDelete: 'cascade' }),
+    playerId: uuid('player_id')
+      .notNull()
+      .references(() => players.id, { onDelete: 'cascade' }),
+    inputType: text('input_type').notNull(),
+    inputQuantity: doublePrecision('input_quantity').notNull(),
+    outputType: text('output_type').notNull(),
+    outputQuantity: doublePrecision('output_quantity').notNull(),
+    status: text('status', { enum: ['queued', 'completed', 'cancelled'] })
+      .notNull()
+      .default('queued'),
+    // Jobs on a facility run back to back; the schedule is fixed when a job is queued
+    startsAt: timestamp('starts_at').notNull(),
+    completesAt: timestamp('completes_at').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  },
+  (table) => [
+    index('processing_jobs_facility_status_idx').on(table.facilityId, table.status),
+    index('processing_jobs_due_idx').on(table.status, table.completesAt),
+    index('processing_jobs_player_idx').on(table.playerId),
+  ],
+);
+
 export const extractorsRelations = relations(extractors, ({ one }) => ({
   player: one(players, {
     fields: [extractors.playerId],
@@ -222,6 +403,25 @@ export const extractorsRelations = relations(extractors, ({ one }) => ({
     fields: [extractors.worldId],
     references: [worlds.id],
   }),
+  resourceVein: one(resourceVeins, {
+    fields: [extractors.resourceVeinId],
+    references: [resourceVeins.id],
+  }),
+}));
+
+export const processingFacilitiesRelations = relations(processingFacilities, ({ one, many }) => ({
+  player: one(players, {
+    fields: [processingFacilities.playerId],
+    references: [players.id],
+  }),
+  jobs: many(processingJobs),
+}));
+
+export const processingJobsRelations = relations(processingJobs, ({ one }) => ({
+  facility: one(processingFacilities, {
+    fields: [processingJobs.facilityId],
+    references: [processingFacilities.id],
+  }),
 }));
 
 export const worldsRelations = relations(worlds, ({ many }) => ({
@@ -236,6 +436,9 @@ export const playersRelations = relations(players, ({ one, many }) => ({
   playerScans: many(playerScans),
   extractors: many(extractors),
   resourceClaims: many(resourceClaims),
+  processingFacilities: many(processingFacilities),
+  exploredChunks: many(playerExploredChunks),
+  discoveredVeins: many(playerDiscoveredVeins),
 }));
 
 export const resourceVeinsRelations = relations(resourceVeins, ({ one, many: _many }) => ({
@@ -253,6 +456,24 @@ export const resourceClaimsRelations = relations(resourceClaims, ({ one }) => ({
   }),
 }));
 
+export const playerExploredChunksRelations = relations(playerExploredChunks, ({ one }) => ({
+  player: one(players, {
+    fields: [playerExploredChunks.playerId],
+    references: [players.id],
+  }),
+}));
+
+export const playerDiscoveredVeinsRelations = relations(playerDiscoveredVeins, ({ one }) => ({
+  player: one(players, {
+    fields: [playerDiscoveredVeins.playerId],
+    references: [players.id],
+  }),
+  resourceVein: one(resourceVeins, {
+    fields: [playerDiscoveredVeins.resourceVeinId],
+    references: [resourceVeins.id],
+  }),
+}));
+
 export const insertWorldSchema = createInsertSchema(worlds, {
   name: z.string().min(1).max(100),
   seed: z.string().min(1),
@@ -279,6 +500,7 @@ export const insertResourceVeinSchema = createInsertSchema(resourceVeins, {
   density: z.number().min(0).max(1),
   quality: z.number().min(0).max(1),
   depth: z.number().positive().optional(),
+  totalReserves: z.number().min(0),
   extractedAmount: z.number().min(0).default(0),
 });
 
@@ -300,6 +522,13 @@ export const insertWorldEventSchema = createInsertSchema(worldEvents, {
 
 export const selectWorldEventSchema = createSelectSchema(worldEvents);
 
+export const selectMarketListingSchema = createSelectSchema(marketListings);
+export const selectMarketPriceSchema = createSelectSchema(marketPrices);
+export const selectProcessingFacilitySchema = createSelectSchema(processingFacilities);
+export const selectProcessingJobSchema = createSelectSchema(processingJobs);
+export const selectPlayerExploredChunkSchema = createSelectSchema(playerExploredChunks);
+export const selectPlayerDiscoveredVeinSchema = createSelectSchema(playerDiscoveredVeins);
+
 export const insertExtractorSchema = createInsertSchema(extractors, {
   playerId: z.string().uuid(),
   worldId: z.string().uuid(),
@@ -325,5 +554,12 @@ export type NewPlayerScan = z.infer<typeof insertPlayerScanSchema>;
 export type WorldEvent = z.infer<typeof selectWorldEventSchema>;
 export type NewWorldEvent = z.infer<typeof insertWorldEventSchema>;
 
+export type MarketListing = z.infer<typeof selectMarketListingSchema>;
+export type MarketPrice = z.infer<typeof selectMarketPriceSchema>;
+export type ProcessingFacility = z.infer<typeof selectProcessingFacilitySchema>;
+export type ProcessingJob = z.infer<typeof selectProcessingJobSchema>;
+export type PlayerExploredChunk = z.infer<typeof selectPlayerExploredChunkSchema>;
+export type PlayerDiscoveredVein = z.infer<typeof selectPlayerDiscoveredVeinSchema>;
+
 export type Extractor = z.infer<typeof selectExtractorSchema>;
 export type NewExtractor = z.infer<typeof insertExtractorSchema>;
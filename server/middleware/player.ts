@@ -1,7 +1,8 @@
 import { defineEventHandler, getCookie, setCookie } from 'h3';
 import { eq } from 'drizzle-orm';
 import { db } from '~~/server/database/connection';
-import { players, worlds } from '~~/server/database/schema';
+import { players } from '~~/server/database/schema';
+import { getDefaultWorld, PLAYER_SESSION_COOKIE } from '~~/server/utils/player-world';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -14,11 +15,11 @@ export default defineEventHandler(async (event) => {
   }
 
   try {
-    let sessionId = getCookie(event, 'player-session-id');
+    let sessionId = getCookie(event, PLAYER_SESSION_COOKIE);
 
     if (!sessionId) {
       sessionId = uuidv4();
-      setCookie(event, 'player-session-id', sessionId, {
+      setCookie(event, PLAYER_SESSION_COOKIE, sessionId, {
         maxAge: 60 * 60 * 24 * 365,
         httpOnly: false,
         secure: process.env.NODE_ENV === 'production',
@@ -33,22 +34,7 @@ export default defineEventHandler(async (event) => {
       .then((rows) => rows[0] || null);
 
     if (!player) {
-      let defaultWorld = await db
-        .select()
-        .from(worlds)
-        .where(eq(worlds.isActive, true))
-        .then((rows) => rows[0] || null);
-
-      if (!defaultWorld) {
-        const newWorld = {
-          name: 'Default World',
-          seed: 'default-seed-' + Math.random().toString(36).substring(7),
-          description: 'Default world for new players',
-          isActive: true,
-        };
-        const createdWorlds = await db.insert(worlds).values(newWorld).returning();
-        defaultWorld = createdWorlds[0];
-      }
+      const defaultWorld = await getDefaultWorld();
 
       const newPlayer = {
         sessionId,
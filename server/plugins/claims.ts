@@ -0,0 +1,12 @@
+import { getClaimService, stopClaimService } from '../services/ClaimService';
+import { logger } from '#shared/utils/logger';
+
+export default defineNitroPlugin((nitro) => {
+  getClaimService().start();
+  logger.info('Claim expiry sweep initialized', { context: 'claims-plugin' });
+
+  nitro.hooks.hook('close', () => {
+    logger.info('Stopping claim expiry sweep...', { context: 'claims-plugin' });
+    stopClaimService();
+  });
+});
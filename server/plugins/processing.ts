@@ -0,0 +1,12 @@
+import { getProcessingService, stopProcessingService } from '../services/ProcessingService';
+import { logger } from '#shared/utils/logger';
+
+export default defineNitroPlugin((nitro) => {
+  getProcessingService().start();
+  logger.info('Processing loop initialized', { context: 'processing-plugin' });
+
+  nitro.hooks.hook('close', () => {
+    logger.info('Stopping processing loop...', { context: 'processing-plugin' });
+    stopProcessingService();
+  });
+});
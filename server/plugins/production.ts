@@ -0,0 +1,12 @@
+import { getProductionService, stopProductionService } from '../services/ProductionService';
+import { logger } from '#shared/utils/logger';
+
+export default defineNitroPlugin((nitro) => {
+  getProductionService().start();
+  logger.info('Extractor production loop initialized', { context: 'production-plugin' });
+
+  nitro.hooks.hook('close', () => {
+    logger.info('Stopping extractor production loop...', { context: 'production-plugin' });
+    stopProductionService();
+  });
+});
@@ -1,18 +1,119 @@
-import type { ResourceVein, ExtendedTerrainType } from '#shared/types/world';
+import type {
+  ChunkDataMessage,
+  ChunkDetail,
+  ChunkEncoding,
+  ChunkSummaryMessage,
+  ClimateType,
+  ResourceVein,
+  ExtendedTerrainType,
+  HydrologyFeature,
+  ViewportCancelledMessage,
+} from '#shared/types/world';
+import { encodeChunkMessage } from '#shared/utils/chunk-codec';
+import { summarizeChunkTerrain } from '#shared/utils/terrain';
 import { generateOrLoadChunk } from '~~/server/utils/resource-generator';
+import type { Player } from '~~/server/database/schema';
+import { resolveStreamPlayer } from '~~/server/utils/stream-auth';
+import {
+  getPeerPlayer,
+  rememberPeerVeins,
+  removePeerSubscription,
+  setPeerPlayer,
+  setPeerSubscription,
+} from '~~/server/utils/world-broadcast';
+import { getDiscoveryService } from '~~/server/services/DiscoveryService';
 
 interface WebSocketPeer {
   id: string;
-  send: (data: Record<string, unknown>) => void;
+  context: Record<string, unknown>;
+  send: (data: Record<string, unknown> | Uint8Array) => void;
+  websocket: { bufferedAmount?: number };
+}
+
+const STREAM_CONFIG = {
+  // Stop sending while more than this many bytes are waiting to be flushed to the peer
+  MAX_BUFFERED_BYTES: 1024 * 1024,
+  BACKPRESSURE_RETRY_MS: 50,
+};
+
+// Chunk encoding each peer asked for with `?encoding=binary`; peers default to JSON
+const peerEncodings = new Map<string, ChunkEncoding>();
+
+function isPlayer(value: unknown): value is Player {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'id' in value &&
+    typeof value.id === 'string' &&
+    'worldId' in value &&
+    typeof value.worldId === 'string'
+  );
+}
+
+/**
+ * The peer's player, resolved once during the handshake. Requests read it without awaiting, so
+ * they're handled in the order they arrive; world switches and archives update it in place.
+ */
+function resolvePeerPlayer(peer: WebSocketPeer): Player {
+  const cached = getPeerPlayer(peer.id);
+  if (cached) return cached;
+
+  const { player } = peer.context;
+  if (!isPlayer(player)) {
+    throw new Error(`WebSocket peer ${peer.id} has no player`);
+  }
+  setPeerPlayer(peer.id, player);
+  return player;
+}
+
+// Closing a peer forgets its encoding, so work that finishes afterwards can tell it's gone
+function isPeerOpen(peer: WebSocketPeer): boolean {
+  return peerEncodings.has(peer.id);
+}
+
+function readRequestedEncoding(url: string): ChunkEncoding {
+  const encoding = new URL(url, 'http://localhost').searchParams.get('encoding');
+  return encoding === 'binary' ? 'binary' : 'json';
+}
+
+function sendChunk(peer: WebSocketPeer, message: ChunkDataMessage): void {
+  rememberPeerVeins(
+    peer.id,
+    resolvePeerPlayer(peer).id,
+    (message.resources ?? []).map((vein) => vein.id),
+  );
+
+  if (peerEncodings.get(peer.id) === 'binary') {
+    peer.send(encodeChunkMessage(message));
+  } else {
+    peer.send({ ...message });
+  }
 }
 
 export default defineWebSocketHandler({
+  async upgrade(request) {
+    // The world, fog and pushes a peer sees all depend on who it is, so anonymous sockets are refused
+    const player = await resolveStreamPlayer(request);
+    if (!player) {
+      throw new Response('Unauthorized', { status: 401 });
+    }
+
+    request.context.player = player;
+  },
+
   open(peer) {
-    console.log(`WebSocket opened: ${peer.id}`);
+    const player = resolvePeerPlayer(peer);
+    console.log(`WebSocket opened: ${peer.id} (player ${player.id})`);
+
+    const encoding = readRequestedEncoding(peer.request.url);
+    peerEncodings.set(peer.id, encoding);
 
     peer.send({
       type: 'connected',
       message: 'World stream connected',
+      playerId: player.id,
+      worldId: player.worldId,
+      encoding,
       timestamp: new Date().toISOString(),
     });
   },
@@ -30,11 +131,15 @@ export default defineWebSocketHandler({
 
       switch (data.type) {
         case 'requestChunk':
-          handleChunkRequest(peer, data);
+          handleChunkRequest(peer, resolvePeerPlayer(peer), data);
           break;
 
         case 'updateViewport':
-          handleViewportUpdate(peer, data);
+          handleViewportUpdate(peer, resolvePeerPlayer(peer), data);
+          break;
+
+        case 'cancel':
+          endSession(peer, 'cancelled', data.requestId);
           break;
 
         default:
@@ -54,6 +159,12 @@ export default defineWebSocketHandler({
 
   close(peer, event) {
     console.log(`WebSocket closed: ${peer.id}`, event);
+    peerEncodings.delete(peer.id);
+    removePeerSubscription(peer.id);
+
+    const session = peerSessions.get(peer.id);
+    if (session) session.cancelled = true;
+    peerSessions.delete(peer.id);
   },
 
   error(peer, error) {
@@ -64,20 +175,26 @@ export default defineWebSocketHandler({
 // Handle individual chunk requests
 async function handleChunkRequest(
   peer: WebSocketPeer,
+  player: Player,
   data: { chunkX: number; chunkY: number; requestId?: string },
 ) {
   const { chunkX, chunkY, requestId } = data;
 
   try {
-    const chunkResult = await generateChunk(chunkX, chunkY);
+    const chunkResult = await generateChunk(player, chunkX, chunkY);
+    if (!isPeerOpen(peer)) return;
 
-    peer.send({
+    sendChunk(peer, {
       type: 'chunkData',
       chunkX,
       chunkY,
-      data: { cells: chunkResult.terrain },
+      data: { cells: chunkResult.terrain, water: chunkResult.waterData },
+      elevationData: chunkResult.elevationData,
+      climateData: chunkResult.climateData,
       resources: chunkResult.resources,
+      explored: chunkResult.explored,
       requestId,
+      metadata: chunkResult.metadata,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -92,21 +209,90 @@ async function handleChunkRequest(
   }
 }
 
+interface StreamItem {
+  chunkX: number;
+  chunkY: number;
+  isPrefetch: boolean;
+  index: number;
+}
+
+// One viewport stream per peer; a newer viewport or a cancel ends the previous one
+interface StreamSession {
+  requestId?: string;
+  player: Player;
+  detail: ChunkDetail;
+  queue: StreamItem[];
+  viewportTotal: number;
+  prefetchTotal: number;
+  streamedViewportCount: number;
+  streamedPrefetchCount: number;
+  cancelled: boolean;
+}
+
+const peerSessions = new Map<string, StreamSession>();
+
+function isSessionActive(peer: WebSocketPeer, session: StreamSession): boolean {
+  return !session.cancelled && peerSessions.get(peer.id) === session;
+}
+
+function endSession(
+  peer: WebSocketPeer,
+  reason: ViewportCancelledMessage['reason'],
+  requestId?: string,
+): void {
+  const session = peerSessions.get(peer.id);
+  if (!session || (requestId !== undefined && session.requestId !== requestId)) return;
+
+  session.cancelled = true;
+  peerSessions.delete(peer.id);
+
+  peer.send({
+    type: 'viewportCancelled',
+    requestId: session.requestId,
+    reason,
+    chunksStreamed: session.streamedViewportCount,
+    prefetchChunksStreamed: session.streamedPrefetchCount,
+    droppedChunks: session.queue.length,
+    timestamp: new Date().toISOString(),
+  });
+}
+
 // Handle viewport updates and stream multiple chunks
 async function handleViewportUpdate(
   peer: WebSocketPeer,
+  player: Player,
   data: {
     visibleChunks: Array<{ chunkX: number; chunkY: number }>;
+    viewportChunks?: Array<{ chunkX: number; chunkY: number }>;
     requestId?: string;
     cameraX?: number;
     cameraY?: number;
+    detail?: ChunkDetail;
   },
 ) {
-  const { visibleChunks, requestId, cameraX = 0, cameraY = 0 } = data;
+  const {
+    visibleChunks,
+    viewportChunks = visibleChunks,
+    requestId,
+    cameraX = 0,
+    cameraY = 0,
+    detail = 'full',
+  } = data;
+
+  // Whatever the previous viewport still had queued is stale once the camera has moved on
+  endSession(peer, 'superseded');
 
   const prefetchChunks = calculatePrefetchRing(visibleChunks);
 
   try {
+    const worldId = player.worldId;
+
+    // Watch the same area the stream covers, so chunks around the edge are fresh when scrolled in
+    setPeerSubscription(peer, worldId, [
+      ...viewportChunks,
+      ...calculatePrefetchRing(viewportChunks),
+    ]);
+
     // Sort chunks by distance from camera center for better perceived performance
     const sortedChunks = visibleChunks.sort((a, b) => {
       const distA = Math.sqrt(
@@ -128,87 +314,7 @@ async function handleViewportUpdate(
       return distA - distB;
     });
 
-    // Stream chunks asynchronously - don't block the event loop
-    let streamedViewportCount = 0;
-    let streamedPrefetchCount = 0;
-
-    const streamChunk = async (chunkIndex: number, isPrefetch = false) => {
-      const chunkArray = isPrefetch ? sortedPrefetchChunks : sortedChunks;
-
-      if (chunkIndex >= chunkArray.length) {
-        if (!isPrefetch && sortedPrefetchChunks.length > 0) {
-          setImmediate(() => streamChunk(0, true));
-          return;
-        }
-        return;
-      }
-
-      const { chunkX, chunkY } = chunkArray[chunkIndex];
-
-      try {
-        const chunkResult = await generateChunk(chunkX, chunkY);
-
-        const progress = isPrefetch
-          ? { current: chunkIndex + 1, total: sortedPrefetchChunks.length, phase: 'prefetch' }
-          : { current: chunkIndex + 1, total: sortedChunks.length, phase: 'viewport' };
-
-        peer.send({
-          type: 'chunkData',
-          chunkX,
-          chunkY,
-          data: { cells: chunkResult.terrain },
-          resources: chunkResult.resources,
-          requestId,
-          priority: isPrefetch ? 'low' : 'viewport',
-          progress,
-          timestamp: new Date().toISOString(),
-        });
-
-        if (isPrefetch) {
-          streamedPrefetchCount++;
-        } else {
-          streamedViewportCount++;
-        }
-
-        // Schedule next chunk on next tick to avoid blocking
-        if (chunkIndex + 1 < chunkArray.length) {
-          setImmediate(() => streamChunk(chunkIndex + 1, isPrefetch));
-        } else if (!isPrefetch && sortedPrefetchChunks.length > 0) {
-          setImmediate(() => streamChunk(0, true));
-        } else {
-          // All chunks streamed (viewport + prefetch)
-          peer.send({
-            type: 'viewportComplete',
-            requestId,
-            chunksStreamed: streamedViewportCount,
-            prefetchChunksStreamed: streamedPrefetchCount,
-            timestamp: new Date().toISOString(),
-          });
-        }
-      } catch (error) {
-        console.error(`Error generating chunk ${chunkX},${chunkY}:`, error);
-        peer.send({
-          type: 'chunkError',
-          chunkX,
-          chunkY,
-          requestId,
-          priority: isPrefetch ? 'low' : 'viewport',
-          error: 'Failed to generate chunk',
-        });
-
-        // Continue with next chunk even if one fails
-        if (chunkIndex + 1 < chunkArray.length) {
-          setImmediate(() => streamChunk(chunkIndex + 1, isPrefetch));
-        } else if (!isPrefetch && sortedPrefetchChunks.length > 0) {
-          setImmediate(() => streamChunk(0, true));
-        }
-      }
-    };
-
-    // Start streaming from the first chunk
-    if (sortedChunks.length > 0) {
-      streamChunk(0);
-    } else {
+    if (sortedChunks.length === 0) {
       peer.send({
         type: 'viewportComplete',
         requestId,
@@ -216,7 +322,27 @@ async function handleViewportUpdate(
         prefetchChunksStreamed: 0,
         timestamp: new Date().toISOString(),
       });
+      return;
     }
+
+    const session: StreamSession = {
+      requestId,
+      player,
+      detail: detail === 'summary' ? 'summary' : 'full',
+      queue: [
+        ...sortedChunks.map((chunk, index) => ({ ...chunk, isPrefetch: false, index })),
+        ...sortedPrefetchChunks.map((chunk, index) => ({ ...chunk, isPrefetch: true, index })),
+      ],
+      viewportTotal: sortedChunks.length,
+      prefetchTotal: sortedPrefetchChunks.length,
+      streamedViewportCount: 0,
+      streamedPrefetchCount: 0,
+      cancelled: false,
+    };
+    peerSessions.set(peer.id, session);
+
+    // Stream chunks asynchronously - don't block the event loop
+    setImmediate(() => streamNextChunk(peer, session));
   } catch (error) {
     console.error('Error setting up viewport streaming:', error);
     peer.send({
@@ -227,6 +353,94 @@ async function handleViewportUpdate(
   }
 }
 
+async function streamNextChunk(peer: WebSocketPeer, session: StreamSession): Promise<void> {
+  if (!isSessionActive(peer, session)) return;
+
+  // Let the socket drain before queueing more; chunks stay queued so a newer viewport can drop them
+  const bufferedAmount = peer.websocket.bufferedAmount ?? 0;
+  if (bufferedAmount > STREAM_CONFIG.MAX_BUFFERED_BYTES) {
+    setTimeout(() => streamNextChunk(peer, session), STREAM_CONFIG.BACKPRESSURE_RETRY_MS);
+    return;
+  }
+
+  const item = session.queue.shift();
+  if (!item) {
+    // All chunks streamed (viewport + prefetch)
+    peerSessions.delete(peer.id);
+    peer.send({
+      type: 'viewportComplete',
+      requestId: session.requestId,
+      chunksStreamed: session.streamedViewportCount,
+      prefetchChunksStreamed: session.streamedPrefetchCount,
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  const { chunkX, chunkY, isPrefetch, index } = item;
+
+  try {
+    const progress: ChunkDataMessage['progress'] = isPrefetch
+      ? { current: index + 1, total: session.prefetchTotal, phase: 'prefetch' }
+      : { current: index + 1, total: session.viewportTotal, phase: 'viewport' };
+
+    if (session.detail === 'summary') {
+      const summary = await generateChunkSummary(session.player, chunkX, chunkY);
+      if (!isSessionActive(peer, session)) return;
+
+      peer.send({
+        ...summary,
+        requestId: session.requestId,
+        priority: isPrefetch ? 'low' : 'viewport',
+        progress,
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      const chunkResult = await generateChunk(session.player, chunkX, chunkY);
+
+      // The camera may have moved on while the chunk was generating
+      if (!isSessionActive(peer, session)) return;
+
+      sendChunk(peer, {
+        type: 'chunkData',
+        chunkX,
+        chunkY,
+        data: { cells: chunkResult.terrain, water: chunkResult.waterData },
+        elevationData: chunkResult.elevationData,
+        climateData: chunkResult.climateData,
+        resources: chunkResult.resources,
+        explored: chunkResult.explored,
+        requestId: session.requestId,
+        priority: isPrefetch ? 'low' : 'viewport',
+        progress,
+        metadata: chunkResult.metadata,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    if (isPrefetch) {
+      session.streamedPrefetchCount++;
+    } else {
+      session.streamedViewportCount++;
+    }
+  } catch (error) {
+    console.error(`Error generating chunk ${chunkX},${chunkY}:`, error);
+    if (!isSessionActive(peer, session)) return;
+
+    peer.send({
+      type: 'chunkError',
+      chunkX,
+      chunkY,
+      requestId: session.requestId,
+      priority: isPrefetch ? 'low' : 'viewport',
+      error: 'Failed to generate chunk',
+    });
+  }
+
+  // Schedule next chunk on next tick to avoid blocking; continue even if one fails
+  setImmediate(() => streamNextChunk(peer, session));
+}
+
 function calculatePrefetchRing(
   visibleChunks: Array<{ chunkX: number; chunkY: number }>,
 ): Array<{ chunkX: number; chunkY: number }> {
@@ -254,15 +468,60 @@ function calculatePrefetchRing(
   return prefetchChunks;
 }
 
+// Generate or load a chunk as the player sees it: veins they haven't discovered are left out
 async function generateChunk(
+  player: Player,
   chunkX: number,
   chunkY: number,
-): Promise<{ terrain: ExtendedTerrainType[][]; resources: ResourceVein[] }> {
-  const worldId = 'default'; // For now, use default world until multi-world support is implemented
-
-  const chunkData = await generateOrLoadChunk(chunkX, chunkY, 16, worldId);
+): Promise<{
+  terrain: ExtendedTerrainType[][];
+  elevationData?: number[][];
+  climateData?: ClimateType[][];
+  waterData?: HydrologyFeature[][];
+  resources: ResourceVein[];
+  explored: boolean;
+  metadata: NonNullable<ChunkDataMessage['metadata']>;
+}> {
+  const startedAt = performance.now();
+  const chunkData = await generateOrLoadChunk(chunkX, chunkY, 16, player.worldId);
+  const view = await getDiscoveryService().viewChunk(
+    player.id,
+    player.worldId,
+    { chunkX, chunkY },
+    chunkData.resources,
+  );
   return {
     terrain: chunkData.terrain,
-    resources: chunkData.resources,
+    elevationData: chunkData.elevationData,
+    climateData: chunkData.climateData,
+    waterData: chunkData.waterData,
+    resources: view.resources,
+    explored: view.explored,
+    metadata: {
+      version: chunkData.metadata?.version ?? 'unknown',
+      generationTime: performance.now() - startedAt,
+    },
+  };
+}
+
+// Dominant terrain per block of a chunk, for clients zoomed too far out to draw every cell
+async function generateChunkSummary(
+  player: Player,
+  chunkX: number,
+  chunkY: number,
+): Promise<ChunkSummaryMessage> {
+  const chunkData = await generateOrLoadChunk(chunkX, chunkY, 16, player.worldId);
+  const view = await getDiscoveryService().viewChunk(
+    player.id,
+    player.worldId,
+    { chunkX, chunkY },
+    [],
+  );
+  return {
+    type: 'chunkSummary',
+    chunkX,
+    chunkY,
+    summary: summarizeChunkTerrain(chunkData.terrain),
+    explored: view.explored,
   };
 }
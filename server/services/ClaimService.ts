@@ -0,0 +1,397 @@
+import { and, eq, inArray, isNull, lt, or } from 'drizzle-orm';
+import { db } from '../database/connection';
+import { extractors, resourceClaims, resourceVeins, worldEvents } from '../database/schema';
+import type { DbTransaction } from './ProductionService';
+import { publishClaimChange, publishExtractorChange } from '~~/server/utils/world-broadcast';
+import { ExtractorStatus } from '#shared/types/world';
+import { createServiceLogger } from '#shared/utils/logger';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * A numeric setting from the environment, or `fallback` when it isn't set. A value that isn't a
+ * finite number is an error rather than silently replaced by the default.
+ */
+function readNumberEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return fallback;
+
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    throw new Error(`${name} must be a number, got "${raw}"`);
+  }
+  return value;
+}
+
+export const CLAIM_EXPIRY_CONFIG = {
+  SWEEP_INTERVAL_MS: readNumberEnv('CLAIM_SWEEP_INTERVAL', 10 * 60 * 1000),
+  // Inactivity (time since lastActivity) before each step of the policy kicks in
+  WARN_AFTER_MS: readNumberEnv('CLAIM_WARN_AFTER_HOURS', 24) * MS_PER_HOUR,
+  RESERVE_AFTER_MS: readNumberEnv('CLAIM_RESERVE_AFTER_HOURS', 48) * MS_PER_HOUR,
+  RELEASE_AFTER_MS: readNumberEnv('CLAIM_RELEASE_AFTER_HOURS', 72) * MS_PER_HOUR,
+} as const;
+
+/**
+ * Throw unless claims are warned, then reserved, then released, each strictly after the last,
+ * and swept on a positive interval
+ */
+export function assertClaimExpiryConfig(): void {
+  const { SWEEP_INTERVAL_MS, WARN_AFTER_MS, RESERVE_AFTER_MS, RELEASE_AFTER_MS } =
+    CLAIM_EXPIRY_CONFIG;
+
+  if (SWEEP_INTERVAL_MS <= 0) {
+    throw new Error(`CLAIM_SWEEP_INTERVAL must be positive, got ${SWEEP_INTERVAL_MS}`);
+  }
+  if (
+    !(0 <= WARN_AFTER_MS && WARN_AFTER_MS < RESERVE_AFTER_MS && RESERVE_AFTER_MS < RELEASE_AFTER_MS)
+  ) {
+    throw new Error(
+      'Claim expiry must run CLAIM_WARN_AFTER_HOURS < CLAIM_RESERVE_AFTER_HOURS < ' +
+        `CLAIM_RELEASE_AFTER_HOURS, got ${WARN_AFTER_MS / MS_PER_HOUR} / ` +
+        `${RESERVE_AFTER_MS / MS_PER_HOUR} / ${RELEASE_AFTER_MS / MS_PER_HOUR} hours`,
+    );
+  }
+}
+
+export type ClaimEventType = 'claim_warning' | 'claim_downgraded' | 'claim_released';
+
+export interface ClaimSweepResult {
+  warned: number;
+  downgraded: number;
+  released: number;
+}
+
+interface ClaimEventData {
+  claimId: string;
+  playerId: string;
+  veinId: string;
+  lastActivity: Date;
+}
+
+interface LocatedClaimEvent {
+  worldId: string;
+  event: ClaimEventData;
+  veinCenter: { x: number; y: number };
+}
+
+/**
+ * Whether a claim has been idle long enough to be released (subject to its extractors)
+ */
+export function isClaimReleasable(claim: { lastActivity: Date }, now: Date = new Date()): boolean {
+  return claim.lastActivity < new Date(now.getTime() - CLAIM_EXPIRY_CONFIG.RELEASE_AFTER_MS);
+}
+
+/**
+ * Expires idle resource claims so a vein can't stay locked by a player who stopped playing.
+ *
+ * Claims move through three steps as they go without activity: a warning, a downgrade from
+ * `active` to `reserved`, and finally release. Producing extractors refresh `lastActivity` on
+ * every production tick, so only claims whose extractors have stalled ever reach the later steps.
+ */
+export class ClaimService {
+  private timer: NodeJS.Timeout | null = null;
+  private isSweeping = false;
+  private log: ReturnType<typeof createServiceLogger>['info'];
+  private error: ReturnType<typeof createServiceLogger>['error'];
+
+  constructor() {
+    const serviceLogger = createServiceLogger('ClaimService');
+    this.log = serviceLogger.info;
+    this.error = serviceLogger.error;
+  }
+
+  start(intervalMs: number = CLAIM_EXPIRY_CONFIG.SWEEP_INTERVAL_MS): void {
+    if (this.timer) return;
+    assertClaimExpiryConfig();
+
+    void this.runSweep();
+    this.timer = setInterval(() => void this.runSweep(), intervalMs);
+    this.log(`Claim expiry sweep started (${intervalMs}ms interval)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      this.log('Claim expiry sweep stopped');
+    }
+  }
+
+  private async runSweep(): Promise<void> {
+    if (this.isSweeping) return;
+    this.isSweeping = true;
+
+    try {
+      const result = await this.sweep();
+      if (result.warned + result.downgraded + result.released > 0) {
+        this.log(
+          `Claim sweep: ${result.warned} warned, ${result.downgraded} downgraded, ${result.released} released`,
+        );
+      }
+    } catch (error) {
+      this.error('Claim sweep failed', 'runSweep', { error: (error as Error).message });
+    } finally {
+      this.isSweeping = false;
+    }
+  }
+
+  /**
+   * Apply every step of the policy that is due at `now`
+   */
+  async sweep(now: Date = new Date()): Promise<ClaimSweepResult> {
+    const warned = await this.warnIdleClaims(now);
+    const downgraded = await this.downgradeIdleClaims(now);
+
+    const releasable = await db
+      .select({ id: resourceClaims.id })
+      .from(resourceClaims)
+      .where(
+        and(
+          eq(resourceClaims.claimType, 'reserved'),
+          lt(resourceClaims.lastActivity, cutoff(now, CLAIM_EXPIRY_CONFIG.RELEASE_AFTER_MS)),
+        ),
+      );
+
+    let released = 0;
+    for (const { id } of releasable) {
+      try {
+        if (await this.releaseClaim(id, now)) released++;
+      } catch (error) {
+        this.error('Failed to release claim', 'sweep', {
+          claimId: id,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    return { warned, downgraded, released };
+  }
+
+  /**
+   * Release a claim if it has been idle past the release threshold and none of its owner's
+   * extractors on the vein are producing. The owner's remaining extractors are detached from
+   * the vein so they don't keep drawing on it once someone else claims it.
+   */
+  async releaseClaim(claimId: string, now: Date = new Date()): Promise<boolean> {
+    const released = await db.transaction(async (tx) => {
+      const [target] = await tx
+        .select({ veinId: resourceClaims.resourceVeinId, playerId: resourceClaims.playerId })
+        .from(resourceClaims)
+        .where(eq(resourceClaims.id, claimId));
+      if (!target) return null;
+
+      // Same order as production settles: vein, then its extractors, then the claim
+      const [vein] = await tx
+        .select({
+          worldId: resourceVeins.worldId,
+          x: resourceVeins.centerX,
+          y: resourceVeins.centerY,
+        })
+        .from(resourceVeins)
+        .where(eq(resourceVeins.id, target.veinId))
+        .for('update');
+
+      const ownerExtractors = await tx
+        .select()
+        .from(extractors)
+        .where(
+          and(
+            eq(extractors.resourceVeinId, target.veinId),
+            eq(extractors.playerId, target.playerId),
+          ),
+        )
+        .for('update');
+
+      const [claim] = await tx
+        .select()
+        .from(resourceClaims)
+        .where(eq(resourceClaims.id, claimId))
+        .for('update');
+
+      if (!vein || !claim || !isClaimReleasable(claim, now)) {
+        return null;
+      }
+
+      if (ownerExtractors.some(({ status }) => status === ExtractorStatus.EXTRACTING)) {
+        return null;
+      }
+
+      const detached =
+        ownerExtractors.length > 0
+          ? await tx
+              .update(extractors)
+              .set({ resourceVeinId: null, status: ExtractorStatus.IDLE, updatedAt: now })
+              .where(
+                inArray(
+                  extractors.id,
+                  ownerExtractors.map(({ id }) => id),
+                ),
+              )
+              .returning()
+          : [];
+
+      await tx.delete(resourceClaims).where(eq(resourceClaims.id, claim.id));
+      await recordClaimEvents(tx, 'claim_released', vein.worldId, [
+        {
+          claimId: claim.id,
+          playerId: claim.playerId,
+          veinId: claim.resourceVeinId,
+          lastActivity: claim.lastActivity,
+        },
+      ]);
+
+      this.log(`Claim ${claim.id} on vein ${claim.resourceVeinId} released after inactivity`);
+      return { claim, vein, detached };
+    });
+
+    if (!released) return false;
+
+    const { claim, vein, detached } = released;
+    publishClaimChange(
+      vein.worldId,
+      'released',
+      { claimId: claim.id, veinId: claim.resourceVeinId, playerId: claim.playerId },
+      vein,
+    );
+    for (const extractor of detached) {
+      publishExtractorChange(extractor.worldId, 'updated', extractor);
+    }
+
+    return true;
+  }
+
+  private async warnIdleClaims(now: Date): Promise<number> {
+    return db.transaction(async (tx) => {
+      const warned = await tx
+        .update(resourceClaims)
+        .set({ warnedAt: now })
+        .where(
+          and(
+            lt(resourceClaims.lastActivity, cutoff(now, CLAIM_EXPIRY_CONFIG.WARN_AFTER_MS)),
+            or(
+              isNull(resourceClaims.warnedAt),
+              lt(resourceClaims.warnedAt, resourceClaims.lastActivity),
+            ),
+          ),
+        )
+        .returning();
+
+      await this.recordForClaims(tx, 'claim_warning', warned);
+      return warned.length;
+    });
+  }
+
+  private async downgradeIdleClaims(now: Date): Promise<number> {
+    const located = await db.transaction(async (tx) => {
+      const downgraded = await tx
+        .update(resourceClaims)
+        .set({ claimType: 'reserved' })
+        .where(
+          and(
+            eq(resourceClaims.claimType, 'active'),
+            lt(resourceClaims.lastActivity, cutoff(now, CLAIM_EXPIRY_CONFIG.RESERVE_AFTER_MS)),
+          ),
+        )
+        .returning();
+
+      return this.recordForClaims(tx, 'claim_downgraded', downgraded);
+    });
+
+    for (const { worldId, event, veinCenter } of located) {
+      publishClaimChange(worldId, 'downgraded', event, veinCenter);
+    }
+    return located.length;
+  }
+
+  /**
+   * Record one event per claim, grouped by the world each claimed vein lives in.
+   * Returns the recorded events with where they happened, for pushing to peers after commit.
+   */
+  private async recordForClaims(
+    tx: DbTransaction,
+    eventType: ClaimEventType,
+    claims: Array<typeof resourceClaims.$inferSelect>,
+  ): Promise<LocatedClaimEvent[]> {
+    if (claims.length === 0) return [];
+
+    const veinWorlds = await tx
+      .select({
+        id: resourceVeins.id,
+        worldId: resourceVeins.worldId,
+        x: resourceVeins.centerX,
+        y: resourceVeins.centerY,
+      })
+      .from(resourceVeins)
+      .where(
+        inArray(
+          resourceVeins.id,
+          claims.map((claim) => claim.resourceVeinId),
+        ),
+      );
+    const veinById = new Map(veinWorlds.map((vein) => [vein.id, vein]));
+
+    const located: LocatedClaimEvent[] = [];
+    const byWorld = new Map<string, ClaimEventData[]>();
+    for (const claim of claims) {
+      const vein = veinById.get(claim.resourceVeinId);
+      if (!vein) continue;
+
+      const event: ClaimEventData = {
+        claimId: claim.id,
+        playerId: claim.playerId,
+        veinId: claim.resourceVeinId,
+        lastActivity: claim.lastActivity,
+      };
+      const events = byWorld.get(vein.worldId) ?? [];
+      events.push(event);
+      byWorld.set(vein.worldId, events);
+      located.push({ worldId: vein.worldId, event, veinCenter: { x: vein.x, y: vein.y } });
+    }
+
+    for (const [worldId, events] of byWorld) {
+      await recordClaimEvents(tx, eventType, worldId, events);
+    }
+
+    return located;
+  }
+}
+
+function cutoff(now: Date, afterMs: number): Date {
+  return new Date(now.getTime() - afterMs);
+}
+
+async function recordClaimEvents(
+  tx: DbTransaction,
+  eventType: ClaimEventType,
+  worldId: string,
+  events: ClaimEventData[],
+): Promise<void> {
+  if (events.length === 0) return;
+
+  await tx.insert(worldEvents).values(
+    events.map((event) => ({
+      eventType,
+      eventData: { ...event, lastActivity: event.lastActivity.toISOString() },
+      metadata: { worldId },
+    })),
+  );
+}
+
+let claimServiceInstance: ClaimService | null = null;
+
+/**
+ * Get the global ClaimService instance
+ */
+export function getClaimService(): ClaimService {
+  if (!claimServiceInstance) {
+    claimServiceInstance = new ClaimService();
+  }
+  return claimServiceInstance;
+}
+
+export function stopClaimService(): void {
+  if (claimServiceInstance) {
+    claimServiceInstance.stop();
+    claimServiceInstance = null;
+  }
+}
@@ -13,6 +13,7 @@ import {
   insertWorldEventSchema,
 } from '../database/schema';
 import { eq, and, sql } from 'drizzle-orm';
+import { toResourceVein } from '../utils/resource-vein-mapper';
 import type { ResourceVein } from '#shared/types/world';
 
 export class DatabaseService {
@@ -33,10 +34,11 @@ export class DatabaseService {
     centerX?: number,
     centerY?: number,
     radius?: number,
-  ): Promise<DbResourceVein[]> {
+  ): Promise<ResourceVein[]> {
     return executeQuery(async () => {
+      let rows: DbResourceVein[];
       if (centerX !== undefined && centerY !== undefined && radius !== undefined) {
-        return await this.database
+        rows = await this.database
           .select()
           .from(resourceVeins)
           .where(
@@ -46,21 +48,33 @@ export class DatabaseService {
             ),
           );
       } else {
-        return await this.database.select().from(resourceVeins);
+        rows = await this.database.select().from(resourceVeins);
       }
+      return rows.map((row) => toResourceVein(row));
     }, `get resource veins`);
   }
 
-  async saveResourceVein(vein: ResourceVein): Promise<DbResourceVein> {
+  async saveResourceVein(vein: ResourceVein): Promise<ResourceVein> {
     return executeQuery(async () => {
       const veinData: NewResourceVein = {
         resourceType: vein.type,
         centerX: vein.location.worldX,
         centerY: vein.location.worldY,
-        radius: vein.deposit.size,
+        radius: vein.deposit.radius,
         density: vein.deposit.richness,
         quality: vein.quality.purity,
         depth: vein.deposit.depth,
+        grade: vein.quality.grade,
+        accessibility: vein.deposit.accessibility,
+        formation: vein.deposit.formation,
+        terrain: vein.environment.terrain,
+        climate: vein.environment.climate,
+        hazards: vein.environment.hazards,
+        nearbyVeins: vein.environment.proximity.nearbyVeins,
+        geologicalFeatures: vein.environment.proximity.geologicalFeatures,
+        distanceToWater: vein.environment.proximity.distanceToWater,
+        seed: vein.metadata.seed,
+        totalReserves: vein.deposit.size,
         isExhausted: vein.extraction.depletion >= 1,
         extractedAmount: vein.extraction.totalExtracted,
         discoveredAt: vein.discovery.discoveredAt ? new Date(vein.discovery.discoveredAt) : null,
@@ -68,7 +82,7 @@ export class DatabaseService {
 
       const result = await this.database.insert(resourceVeins).values(veinData).returning();
 
-      return result[0];
+      return toResourceVein(result[0], vein.discovery);
     }, `save resource vein ${vein.type}`);
   }
 
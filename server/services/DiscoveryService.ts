@@ -0,0 +1,277 @@
+import { and, between, eq, inArray, lt, or } from 'drizzle-orm';
+import { db } from '../database/connection';
+import {
+  playerDiscoveredVeins,
+  playerExploredChunks,
+  resourceClaims,
+  resourceVeins,
+} from '../database/schema';
+import type { DbTransaction } from './ProductionService';
+import type {
+  ChunkCoordinate,
+  DiscoveredVeinMarker,
+  ResourceType,
+  ResourceVein,
+  ScanLevel,
+} from '#shared/types/world';
+import { createServiceLogger } from '#shared/utils/logger';
+
+type DbExecutor = typeof db | DbTransaction;
+
+export interface VeinDiscovery {
+  scanLevel: ScanLevel;
+  confidence: number;
+  discoveredAt: Date;
+}
+
+/**
+ * Inclusive rectangle of chunks
+ */
+export interface ChunkArea {
+  minChunkX: number;
+  minChunkY: number;
+  maxChunkX: number;
+  maxChunkY: number;
+}
+
+/**
+ * What one player is allowed to see of a chunk
+ */
+export interface PlayerChunkView {
+  explored: boolean;
+  resources: ResourceVein[];
+}
+
+/**
+ * Per-player fog of war.
+ *
+ * Players explore chunks by scanning or building in them and discover veins by scanning for
+ * them. Chunk payloads are cut down to the veins the receiving player has discovered, so
+ * undiscovered veins never leave the server.
+ */
+export class DiscoveryService {
+  private log: ReturnType<typeof createServiceLogger>['info'];
+
+  constructor() {
+    this.log = createServiceLogger('DiscoveryService').info;
+  }
+
+  async markChunksExplored(
+    playerId: string,
+    worldId: string,
+    chunks: ChunkCoordinate[],
+    executor: DbExecutor = db,
+  ): Promise<void> {
+    if (chunks.length === 0) return;
+
+    await executor
+      .insert(playerExploredChunks)
+      .values(chunks.map(({ chunkX, chunkY }) => ({ playerId, worldId, chunkX, chunkY })))
+      .onConflictDoNothing();
+  }
+
+  /**
+   * Record that a player found a vein. A vein found again with more confidence, e.g. by a deeper
+   * scan, takes the new scan's level and confidence. Returns false when nothing changed.
+   */
+  async recordVeinDiscovery(
+    playerId: string,
+    veinId: string,
+    discovery: { scanLevel: ScanLevel; confidence: number },
+    executor: DbExecutor = db,
+  ): Promise<boolean> {
+    const recorded = await executor
+      .insert(playerDiscoveredVeins)
+      .values({ playerId, resourceVeinId: veinId, ...discovery })
+      .onConflictDoUpdate({
+        target: [playerDiscoveredVeins.playerId, playerDiscoveredVeins.resourceVeinId],
+        set: { scanLevel: discovery.scanLevel, confidence: discovery.confidence },
+        setWhere: lt(playerDiscoveredVeins.confidence, discovery.confidence),
+      })
+      .returning({ id: playerDiscoveredVeins.id });
+
+    if (recorded.length > 0) {
+      this.log(`Player ${playerId} discovered vein ${veinId} (${discovery.scanLevel})`);
+    }
+    return recorded.length > 0;
+  }
+
+  /**
+   * The player's discoveries among the given veins, keyed by vein id
+   */
+  async getVeinDiscoveries(
+    playerId: string,
+    veinIds: string[],
+  ): Promise<Map<string, VeinDiscovery>> {
+    if (veinIds.length === 0) return new Map();
+
+    const rows = await db
+      .select()
+      .from(playerDiscoveredVeins)
+      .where(
+        and(
+          eq(playerDiscoveredVeins.playerId, playerId),
+          inArray(playerDiscoveredVeins.resourceVeinId, veinIds),
+        ),
+      );
+
+    return new Map(
+      rows.map((row) => [
+        row.resourceVeinId,
+        {
+          scanLevel: row.scanLevel as ScanLevel,
+          confidence: row.confidence,
+          discoveredAt: row.discoveredAt,
+        },
+      ]),
+    );
+  }
+
+  /**
+   * Who holds the claim on each of the given veins that is claimed, keyed by vein id
+   */
+  async getVeinClaimants(veinIds: string[]): Promise<Map<string, string>> {
+    if (veinIds.length === 0) return new Map();
+
+    const rows = await db
+      .select({ veinId: resourceClaims.resourceVeinId, playerId: resourceClaims.playerId })
+      .from(resourceClaims)
+      .where(inArray(resourceClaims.resourceVeinId, veinIds));
+
+    return new Map(rows.map((row) => [row.veinId, row.playerId]));
+  }
+
+  async getExploredChunks(
+    playerId: string,
+    worldId: string,
+    chunks: ChunkCoordinate[],
+  ): Promise<ChunkCoordinate[]> {
+    if (chunks.length === 0) return [];
+
+    return db
+      .select({ chunkX: playerExploredChunks.chunkX, chunkY: playerExploredChunks.chunkY })
+      .from(playerExploredChunks)
+      .where(
+        and(
+          eq(playerExploredChunks.playerId, playerId),
+          eq(playerExploredChunks.worldId, worldId),
+          or(
+            ...chunks.map(({ chunkX, chunkY }) =>
+              and(eq(playerExploredChunks.chunkX, chunkX), eq(playerExploredChunks.chunkY, chunkY)),
+            ),
+          ),
+        ),
+      );
+  }
+
+  /**
+   * Every chunk the player has explored inside `area`
+   */
+  async getExploredChunksInArea(
+    playerId: string,
+    worldId: string,
+    area: ChunkArea,
+  ): Promise<ChunkCoordinate[]> {
+    return db
+      .select({ chunkX: playerExploredChunks.chunkX, chunkY: playerExploredChunks.chunkY })
+      .from(playerExploredChunks)
+      .where(
+        and(
+          eq(playerExploredChunks.playerId, playerId),
+          eq(playerExploredChunks.worldId, worldId),
+          between(playerExploredChunks.chunkX, area.minChunkX, area.maxChunkX),
+          between(playerExploredChunks.chunkY, area.minChunkY, area.maxChunkY),
+        ),
+      );
+  }
+
+  /**
+   * Where the veins the player has discovered lie, for those centered inside the given cells
+   */
+  async getDiscoveredVeinsInBounds(
+    playerId: string,
+    worldId: string,
+    bounds: { minX: number; minY: number; maxX: number; maxY: number },
+  ): Promise<DiscoveredVeinMarker[]> {
+    const rows = await db
+      .select({
+        id: resourceVeins.id,
+        type: resourceVeins.resourceType,
+        x: resourceVeins.centerX,
+        y: resourceVeins.centerY,
+      })
+      .from(playerDiscoveredVeins)
+      .innerJoin(resourceVeins, eq(playerDiscoveredVeins.resourceVeinId, resourceVeins.id))
+      .where(
+        and(
+          eq(playerDiscoveredVeins.playerId, playerId),
+          eq(resourceVeins.worldId, worldId),
+          between(resourceVeins.centerX, bounds.minX, bounds.maxX),
+          between(resourceVeins.centerY, bounds.minY, bounds.maxY),
+        ),
+      );
+
+    return rows.map((row) => ({ ...row, type: row.type as ResourceType }));
+  }
+
+  /**
+   * Cut a generated chunk down to what the player may see: only discovered veins, stamped with
+   * the player's own discovery details, plus whether the chunk itself has been explored.
+   */
+  async viewChunk(
+    playerId: string,
+    worldId: string,
+    chunk: ChunkCoordinate,
+    resources: ResourceVein[],
+  ): Promise<PlayerChunkView> {
+    const [explored, discoveredResources] = await Promise.all([
+      this.getExploredChunks(playerId, worldId, [chunk]),
+      this.viewVeins(playerId, resources),
+    ]);
+
+    return { explored: explored.length > 0, resources: discoveredResources };
+  }
+
+  /**
+   * Keep only the veins the player has discovered, stamped with the player's discovery details
+   * and whoever holds the vein's claim
+   */
+  async viewVeins<T extends ResourceVein>(playerId: string, veins: T[]): Promise<T[]> {
+    const veinIds = veins.map((vein) => vein.id);
+    const [discoveries, claimants] = await Promise.all([
+      this.getVeinDiscoveries(playerId, veinIds),
+      this.getVeinClaimants(veinIds),
+    ]);
+
+    return veins.flatMap((vein) => {
+      const discovery = discoveries.get(vein.id);
+      if (!discovery) return [];
+
+      return [
+        {
+          ...vein,
+          discovery: {
+            isDiscovered: true,
+            discoveredBy: playerId,
+            discoveredAt: discovery.discoveredAt.toISOString(),
+            scanLevel: discovery.scanLevel,
+            confidence: discovery.confidence,
+          },
+          claimedBy: claimants.get(vein.id),
+        },
+      ];
+    });
+  }
+}
+
+let discoveryServiceInstance: DiscoveryService | null = null;
+
+/**
+ * Get the global DiscoveryService instance
+ */
+export function getDiscoveryService(): DiscoveryService {
+  if (!discoveryServiceInstance) {
+    discoveryServiceInstance = new DiscoveryService();
+  }
+  return discoveryServiceInstance;
+}
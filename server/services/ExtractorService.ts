@@ -0,0 +1,333 @@
+import { and, count, eq, sql } from 'drizzle-orm';
+import { db } from '../database/connection';
+import {
+  extractors,
+  players,
+  resourceClaims,
+  resourceVeins,
+  type Extractor,
+} from '../database/schema';
+import {
+  getProductionService,
+  type DbTransaction,
+  type ExtractorStorage,
+} from './ProductionService';
+import {
+  addToInventory,
+  lockPlayers,
+  roundCredits,
+  type Inventory,
+} from '~~/server/utils/inventory';
+import { publishClaimChange, publishExtractorChange } from '~~/server/utils/world-broadcast';
+import { createServiceLogger } from '#shared/utils/logger';
+
+/**
+ * Efficiency tiers an extractor can be upgraded through, with the credit cost of reaching each
+ */
+export const EXTRACTOR_UPGRADE_TIERS = [
+  { efficiency: 1.0, cost: 0 },
+  { efficiency: 1.25, cost: 400 },
+  { efficiency: 1.5, cost: 900 },
+  { efficiency: 1.75, cost: 1600 },
+  { efficiency: 2.0, cost: 2500 },
+] as const;
+
+export interface ExtractorUpgrade {
+  tier: number;
+  efficiency: number;
+  cost: number;
+}
+
+/**
+ * Current tier of an extractor: the highest tier whose efficiency it has reached
+ */
+export function getUpgradeTier(efficiency: number): number {
+  let tier = 0;
+  EXTRACTOR_UPGRADE_TIERS.forEach((candidate, index) => {
+    if (efficiency + 1e-9 >= candidate.efficiency) tier = index;
+  });
+  return tier;
+}
+
+/**
+ * The next tier an extractor can buy, or null when it's fully upgraded
+ */
+export function getNextUpgrade(efficiency: number): ExtractorUpgrade | null {
+  const tier = getUpgradeTier(efficiency) + 1;
+  const next = EXTRACTOR_UPGRADE_TIERS[tier];
+  return next ? { tier, efficiency: next.efficiency, cost: next.cost } : null;
+}
+
+export interface DecommissionResult {
+  extractorId: string;
+  veinId: string | null;
+  releasedClaim: boolean;
+  collected: Record<string, number>;
+  inventory: Inventory;
+}
+
+/**
+ * Changes to placed extractors.
+ *
+ * Every change settles the extractor's vein first, inside the same transaction, so output
+ * earned at the old position or efficiency is credited before the change takes effect.
+ * Locks follow the collection order: player, then vein, then extractors. Changes are pushed to
+ * peers watching the extractor's chunk once the transaction has committed.
+ */
+export class ExtractorService {
+  private log: ReturnType<typeof createServiceLogger>['info'];
+
+  constructor() {
+    this.log = createServiceLogger('ExtractorService').info;
+  }
+
+  /**
+   * Remove an extractor, moving whole stored units to the player's inventory. The player's claim
+   * on the vein is released when this was their last extractor on it.
+   */
+  async decommission(
+    playerId: string,
+    worldId: string,
+    extractorId: string,
+  ): Promise<DecommissionResult> {
+    const { result, extractor, releasedClaim } = await db.transaction(async (tx) => {
+      const [player] = await lockPlayers(tx, [playerId]);
+      const extractor = await this.settleOwnedExtractor(tx, playerId, worldId, extractorId);
+
+      const collected: Record<string, number> = {};
+      let inventory = player!.inventory as Inventory;
+      for (const [resourceType, amount] of Object.entries(extractor.storage as ExtractorStorage)) {
+        const wholeUnits = Math.floor(amount);
+        if (wholeUnits > 0) {
+          collected[resourceType] = wholeUnits;
+          inventory = addToInventory(inventory, resourceType, wholeUnits);
+        }
+      }
+
+      const now = new Date();
+      await tx.update(players).set({ inventory, updatedAt: now }).where(eq(players.id, playerId));
+      await tx.delete(extractors).where(eq(extractors.id, extractor.id));
+
+      let releasedClaim: { id: string; center: { x: number; y: number } } | null = null;
+      if (extractor.resourceVeinId) {
+        const [remaining] = await tx
+          .select({ count: count() })
+          .from(extractors)
+          .where(
+            and(
+              eq(extractors.resourceVeinId, extractor.resourceVeinId),
+              eq(extractors.playerId, playerId),
+            ),
+          );
+
+        if (remaining!.count === 0) {
+          const released = await tx
+            .delete(resourceClaims)
+            .where(
+              and(
+                eq(resourceClaims.resourceVeinId, extractor.resourceVeinId),
+                eq(resourceClaims.playerId, playerId),
+              ),
+            )
+            .returning({ id: resourceClaims.id });
+
+          if (released[0]) {
+            const [vein] = await tx
+              .select({ x: resourceVeins.centerX, y: resourceVeins.centerY })
+              .from(resourceVeins)
+              .where(eq(resourceVeins.id, extractor.resourceVeinId));
+            releasedClaim = { id: released[0].id, center: vein! };
+          }
+        }
+      }
+
+      this.log(
+        `Extractor ${extractor.id} decommissioned${releasedClaim ? `, claim on vein ${extractor.resourceVeinId} released` : ''}`,
+      );
+
+      return {
+        extractor,
+        releasedClaim,
+        result: {
+          extractorId: extractor.id,
+          veinId: extractor.resourceVeinId,
+          releasedClaim: releasedClaim !== null,
+          collected,
+          inventory,
+        },
+      };
+    });
+
+    publishExtractorChange(worldId, 'removed', extractor);
+    if (releasedClaim && extractor.resourceVeinId) {
+      publishClaimChange(
+        worldId,
+        'released',
+        { claimId: releasedClaim.id, veinId: extractor.resourceVeinId, playerId },
+        releasedClaim.center,
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Move an extractor to another point inside its vein's extraction area
+   */
+  async relocate(
+    playerId: string,
+    worldId: string,
+    extractorId: string,
+    x: number,
+    y: number,
+  ): Promise<Extractor> {
+    const { relocated, previous } = await db.transaction(async (tx) => {
+      await lockPlayers(tx, [playerId]);
+      const extractor = await this.settleOwnedExtractor(tx, playerId, worldId, extractorId);
+
+      if (!extractor.resourceVeinId) {
+        throw createError({
+          statusCode: 409,
+          statusMessage: 'Extractor is no longer attached to a vein',
+        });
+      }
+
+      const point = sql`ST_SetSRID(ST_MakePoint(${x}, ${y}), 4326)`;
+      const [vein] = await tx
+        .select({ id: resourceVeins.id })
+        .from(resourceVeins)
+        .where(
+          and(
+            eq(resourceVeins.id, extractor.resourceVeinId),
+            sql`ST_DWithin(${resourceVeins.centerPoint}, ${point}, ${resourceVeins.radius})`,
+          ),
+        );
+
+      if (!vein) {
+        throw createError({
+          statusCode: 422,
+          statusMessage: "Target location is outside the vein's extraction area",
+          data: { x, y, veinId: extractor.resourceVeinId },
+        });
+      }
+
+      const occupied = await tx.query.extractors.findFirst({
+        columns: { id: true },
+        where: and(eq(extractors.x, x), eq(extractors.y, y), eq(extractors.worldId, worldId)),
+      });
+
+      if (occupied && occupied.id !== extractor.id) {
+        throw createError({
+          statusCode: 409,
+          statusMessage: 'Extractor already exists at this location',
+          data: { x, y, extractorId: occupied.id },
+        });
+      }
+
+      const [relocated] = await tx
+        .update(extractors)
+        .set({ x, y, position: point, updatedAt: new Date() })
+        .where(eq(extractors.id, extractor.id))
+        .returning();
+
+      return { relocated: relocated!, previous: { x: extractor.x, y: extractor.y } };
+    });
+
+    publishExtractorChange(worldId, 'updated', relocated, previous);
+    return relocated;
+  }
+
+  /**
+   * Buy the next efficiency tier for an extractor
+   */
+  async upgrade(
+    playerId: string,
+    worldId: string,
+    extractorId: string,
+  ): Promise<{ extractor: Extractor; credits: number; tier: number }> {
+    const result = await db.transaction(async (tx) => {
+      const [player] = await lockPlayers(tx, [playerId]);
+      const extractor = await this.settleOwnedExtractor(tx, playerId, worldId, extractorId);
+
+      const upgrade = getNextUpgrade(extractor.efficiency);
+      if (!upgrade) {
+        throw createError({ statusCode: 409, statusMessage: 'Extractor is fully upgraded' });
+      }
+
+      if (player!.credits < upgrade.cost) {
+        throw createError({
+          statusCode: 409,
+          statusMessage: 'Not enough credits',
+          data: { required: upgrade.cost, available: player!.credits },
+        });
+      }
+
+      const now = new Date();
+      const credits = roundCredits(player!.credits - upgrade.cost);
+      await tx.update(players).set({ credits, updatedAt: now }).where(eq(players.id, playerId));
+
+      const [upgraded] = await tx
+        .update(extractors)
+        .set({ efficiency: upgrade.efficiency, updatedAt: now })
+        .where(eq(extractors.id, extractor.id))
+        .returning();
+
+      this.log(`Extractor ${extractor.id} upgraded to tier ${upgrade.tier}`);
+      return { extractor: upgraded!, credits, tier: upgrade.tier };
+    });
+
+    publishExtractorChange(worldId, 'updated', result.extractor);
+    return result;
+  }
+
+  /**
+   * Check ownership, settle the extractor's vein up to now and return the locked, settled row
+   */
+  private async settleOwnedExtractor(
+    tx: DbTransaction,
+    playerId: string,
+    worldId: string,
+    extractorId: string,
+  ): Promise<Extractor> {
+    const owned = await tx.query.extractors.findFirst({
+      columns: { resourceVeinId: true },
+      where: and(
+        eq(extractors.id, extractorId),
+        eq(extractors.playerId, playerId),
+        eq(extractors.worldId, worldId),
+      ),
+    });
+
+    if (!owned) {
+      throw createError({ statusCode: 404, statusMessage: 'Extractor not found' });
+    }
+
+    if (owned.resourceVeinId) {
+      await getProductionService().settleVein(tx, owned.resourceVeinId, new Date());
+    }
+
+    const [extractor] = await tx
+      .select()
+      .from(extractors)
+      .where(eq(extractors.id, extractorId))
+      .for('update');
+
+    if (!extractor) {
+      throw createError({ statusCode: 404, statusMessage: 'Extractor not found' });
+    }
+
+    return extractor;
+  }
+}
+
+let extractorServiceInstance: ExtractorService | null = null;
+
+/**
+ * Get the global ExtractorService instance
+ */
+export function getExtractorService(): ExtractorService {
+  if (!extractorServiceInstance) {
+    extractorServiceInstance = new ExtractorService();
+  }
+  return extractorServiceInstance;
+}
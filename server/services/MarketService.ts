@@ -0,0 +1,439 @@
+import { and, asc, eq } from 'drizzle-orm';
+import { db } from '../database/connection';
+import {
+  marketListings,
+  marketPrices,
+  players,
+  worldEvents,
+  type MarketListing,
+} from '../database/schema';
+import type { DbTransaction } from './ProductionService';
+import {
+  addToInventory,
+  lockPlayers,
+  roundCredits,
+  takeFromInventory,
+  type Inventory,
+} from '~~/server/utils/inventory';
+import { RESOURCE_CONFIGS } from '~~/app/config/resources.config';
+import {
+  getAllProductKeys,
+  getProductValue,
+  parseProductKey,
+} from '~~/app/config/processing.config';
+import { MarketDemand } from '#shared/types/world';
+import { createServiceLogger } from '#shared/utils/logger';
+
+export const MARKET_CONFIG = {
+  // Baseline price relative to baseValue, from the resource's long-run demand outlook
+  DEMAND_PRICE_MULTIPLIERS: {
+    [MarketDemand.LOW]: 0.8,
+    [MarketDemand.STABLE]: 1.0,
+    [MarketDemand.HIGH]: 1.25,
+    [MarketDemand.EXPLOSIVE]: 1.6,
+    [MarketDemand.SPECIALIZED]: 1.4,
+  } as Record<MarketDemand, number>,
+  // Net demand (in units) that moves the price by a factor of e; specialised markets are thin
+  LIQUIDITY: {
+    [MarketDemand.LOW]: 4000,
+    [MarketDemand.STABLE]: 3000,
+    [MarketDemand.HIGH]: 2500,
+    [MarketDemand.EXPLOSIVE]: 1500,
+    [MarketDemand.SPECIALIZED]: 800,
+  } as Record<MarketDemand, number>,
+  DEMAND_HALF_LIFE_MS: 6 * 60 * 60 * 1000,
+  MIN_PRICE_FACTOR: 0.2,
+  MAX_PRICE_FACTOR: 5,
+  // The market buys from players below the quoted price
+  SELL_SPREAD: 0.9,
+} as const;
+
+export interface MarketQuote {
+  resourceType: string;
+  price: number;
+  basePrice: number;
+  change: number;
+  marketDemand: MarketDemand;
+}
+
+export interface TradeResult {
+  resourceType: string;
+  quantity: number;
+  pricePerUnit: number;
+  total: number;
+  credits: number;
+  inventory: Inventory;
+}
+
+/**
+ * Demand outlook of the resource a product (raw or processed) is made from
+ */
+function getMarketDemand(product: string): MarketDemand {
+  const parsed = parseProductKey(product);
+  return parsed ? RESOURCE_CONFIGS[parsed.resourceType].marketDemand : MarketDemand.STABLE;
+}
+
+/**
+ * Equilibrium price of a product before any trading pressure
+ */
+export function getBasePrice(product: string): number {
+  return (
+    getProductValue(product) * MARKET_CONFIG.DEMAND_PRICE_MULTIPLIERS[getMarketDemand(product)]
+  );
+}
+
+/**
+ * Price for a given net demand: exponential in demand pressure, clamped around the base price
+ */
+export function calculateMarketPrice(product: string, netDemand: number): number {
+  const factor = Math.exp(netDemand / MARKET_CONFIG.LIQUIDITY[getMarketDemand(product)]);
+  const clamped = Math.min(
+    MARKET_CONFIG.MAX_PRICE_FACTOR,
+    Math.max(MARKET_CONFIG.MIN_PRICE_FACTOR, factor),
+  );
+
+  return roundCredits(getBasePrice(product) * clamped);
+}
+
+/**
+ * Net demand fades with a half-life, so untraded resources drift back to their base price
+ */
+export function decayNetDemand(netDemand: number, elapsedMs: number): number {
+  if (elapsedMs <= 0) return netDemand;
+  return netDemand * Math.pow(0.5, elapsedMs / MARKET_CONFIG.DEMAND_HALF_LIFE_MS);
+}
+
+export class MarketService {
+  private log: ReturnType<typeof createServiceLogger>['info'];
+
+  constructor() {
+    this.log = createServiceLogger('MarketService').info;
+  }
+
+  /**
+   * Current quotes for every raw and processed product in a world
+   */
+  async getPrices(worldId: string, now: Date = new Date()): Promise<MarketQuote[]> {
+    const rows = await db.select().from(marketPrices).where(eq(marketPrices.worldId, worldId));
+    const netDemandByType = new Map(
+      rows.map((row) => [
+        row.resourceType,
+        decayNetDemand(row.netDemand, now.getTime() - row.updatedAt.getTime()),
+      ]),
+    );
+
+    return getAllProductKeys().map((resourceType) => {
+      const basePrice = getBasePrice(resourceType);
+      const price = calculateMarketPrice(resourceType, netDemandByType.get(resourceType) ?? 0);
+
+      return {
+        resourceType,
+        price,
+        basePrice: roundCredits(basePrice),
+        change: basePrice > 0 ? price / basePrice - 1 : 0,
+        marketDemand: getMarketDemand(resourceType),
+      };
+    });
+  }
+
+  async getOpenListings(worldId: string, resourceType?: string): Promise<MarketListing[]> {
+    const filters = [eq(marketListings.worldId, worldId), eq(marketListings.status, 'open')];
+    if (resourceType) {
+      filters.push(eq(marketListings.resourceType, resourceType));
+    }
+
+    return db
+      .select()
+      .from(marketListings)
+      .where(and(...filters))
+      .orderBy(asc(marketListings.pricePerUnit), asc(marketListings.createdAt));
+  }
+
+  /**
+   * Sell inventory straight to the market at the current price (less the spread).
+   * Large sales slip: they execute at the average of the price before and after the sale.
+   */
+  async sellToMarket(
+    playerId: string,
+    worldId: string,
+    resourceType: string,
+    quantity: number,
+  ): Promise<TradeResult> {
+    return db.transaction(async (tx) => {
+      const now = new Date();
+      const [player] = await lockPlayers(tx, [playerId]);
+      const inventory = takeFromInventory(player!.inventory as Inventory, resourceType, quantity);
+
+      const netDemand = await this.lockNetDemand(tx, worldId, resourceType, now);
+      const nextNetDemand = netDemand - quantity;
+      const priceBefore = calculateMarketPrice(resourceType, netDemand);
+      const priceAfter = calculateMarketPrice(resourceType, nextNetDemand);
+
+      const pricePerUnit = roundCredits(
+        ((priceBefore + priceAfter) / 2) * MARKET_CONFIG.SELL_SPREAD,
+      );
+      const total = roundCredits(pricePerUnit * quantity);
+      const credits = roundCredits(player!.credits + total);
+
+      await this.saveNetDemand(tx, worldId, resourceType, nextNetDemand, priceAfter, now);
+      await tx
+        .update(players)
+        .set({ inventory, credits, updatedAt: now })
+        .where(eq(players.id, playerId));
+
+      await recordTrade(tx, {
+        worldId,
+        kind: 'market_sale',
+        resourceType,
+        quantity,
+        pricePerUnit,
+        total,
+        sellerId: playerId,
+      });
+
+      return { resourceType, quantity, pricePerUnit, total, credits, inventory };
+    });
+  }
+
+  /**
+   * List inventory for other players to buy. The units are held in escrow by the listing.
+   */
+  async createListing(
+    playerId: string,
+    worldId: string,
+    resourceType: string,
+    quantity: number,
+    pricePerUnit: number,
+  ): Promise<MarketListing> {
+    return db.transaction(async (tx) => {
+      const [player] = await lockPlayers(tx, [playerId]);
+      const inventory = takeFromInventory(player!.inventory as Inventory, resourceType, quantity);
+
+      await tx
+        .update(players)
+        .set({ inventory, updatedAt: new Date() })
+        .where(eq(players.id, playerId));
+
+      const [listing] = await tx
+        .insert(marketListings)
+        .values({
+          worldId,
+          sellerId: playerId,
+          resourceType,
+          quantity,
+          pricePerUnit: roundCredits(pricePerUnit),
+        })
+        .returning();
+
+      this.log(`Listing ${listing!.id} created: ${quantity} ${resourceType} @ ${pricePerUnit}`);
+      return listing!;
+    });
+  }
+
+  /**
+   * Buy some or all of another player's listing. Purchases count as demand for price drift.
+   */
+  async buyListing(
+    buyerId: string,
+    worldId: string,
+    listingId: string,
+    quantity?: number,
+  ): Promise<TradeResult & { listing: MarketListing }> {
+    return db.transaction(async (tx) => {
+      const now = new Date();
+      const [listing] = await tx
+        .select()
+        .from(marketListings)
+        .where(and(eq(marketListings.id, listingId), eq(marketListings.worldId, worldId)))
+        .for('update');
+
+      if (!listing || listing.status !== 'open') {
+        throw createError({ statusCode: 404, statusMessage: 'Listing not found or closed' });
+      }
+      if (listing.sellerId === buyerId) {
+        throw createError({ statusCode: 400, statusMessage: 'Cannot buy your own listing' });
+      }
+
+      const buyQuantity = quantity ?? listing.quantity;
+      if (buyQuantity > listing.quantity) {
+        throw createError({
+          statusCode: 409,
+          statusMessage: 'Listing does not have that many units left',
+          data: { requested: buyQuantity, available: listing.quantity },
+        });
+      }
+
+      const total = roundCredits(listing.pricePerUnit * buyQuantity);
+      const lockedPlayers = await lockPlayers(tx, [buyerId, listing.sellerId]);
+      const buyer = lockedPlayers.find((player) => player.id === buyerId)!;
+      const seller = lockedPlayers.find((player) => player.id === listing.sellerId)!;
+
+      if (buyer.credits < total) {
+        throw createError({
+          statusCode: 409,
+          statusMessage: 'Not enough credits',
+          data: { required: total, available: buyer.credits },
+        });
+      }
+
+      const inventory = addToInventory(
+        buyer.inventory as Inventory,
+        listing.resourceType,
+        buyQuantity,
+      );
+      const credits = roundCredits(buyer.credits - total);
+
+      await tx
+        .update(players)
+        .set({ inventory, credits, updatedAt: now })
+        .where(eq(players.id, buyerId));
+      await tx
+        .update(players)
+        .set({ credits: roundCredits(seller.credits + total), updatedAt: now })
+        .where(eq(players.id, seller.id));
+
+      const remaining = listing.quantity - buyQuantity;
+      const [updatedListing] = await tx
+        .update(marketListings)
+        .set({ quantity: remaining, status: remaining > 0 ? 'open' : 'filled', updatedAt: now })
+        .where(eq(marketListings.id, listing.id))
+        .returning();
+
+      const netDemand = await this.lockNetDemand(tx, worldId, listing.resourceType, now);
+      const nextNetDemand = netDemand + buyQuantity;
+      await this.saveNetDemand(
+        tx,
+        worldId,
+        listing.resourceType,
+        nextNetDemand,
+        calculateMarketPrice(listing.resourceType, nextNetDemand),
+        now,
+      );
+
+      await recordTrade(tx, {
+        worldId,
+        kind: 'listing_purchase',
+        resourceType: listing.resourceType,
+        quantity: buyQuantity,
+        pricePerUnit: listing.pricePerUnit,
+        total,
+        sellerId: listing.sellerId,
+        buyerId,
+        listingId: listing.id,
+      });
+
+      return {
+        resourceType: listing.resourceType,
+        quantity: buyQuantity,
+        pricePerUnit: listing.pricePerUnit,
+        total,
+        credits,
+        inventory,
+        listing: updatedListing!,
+      };
+    });
+  }
+
+  /**
+   * Cancel an open listing and return the unsold units to the seller
+   */
+  async cancelListing(playerId: string, listingId: string): Promise<Inventory> {
+    return db.transaction(async (tx) => {
+      const [listing] = await tx
+        .select()
+        .from(marketListings)
+        .where(and(eq(marketListings.id, listingId), eq(marketListings.sellerId, playerId)))
+        .for('update');
+
+      if (!listing || listing.status !== 'open') {
+        throw createError({ statusCode: 404, statusMessage: 'Listing not found or closed' });
+      }
+
+      const [player] = await lockPlayers(tx, [playerId]);
+      const inventory = addToInventory(
+        player!.inventory as Inventory,
+        listing.resourceType,
+        listing.quantity,
+      );
+      const now = new Date();
+
+      await tx.update(players).set({ inventory, updatedAt: now }).where(eq(players.id, playerId));
+      await tx
+        .update(marketListings)
+        .set({ status: 'cancelled', updatedAt: now })
+        .where(eq(marketListings.id, listing.id));
+
+      return inventory;
+    });
+  }
+
+  /**
+   * Lock the price row for a resource and return its net demand decayed to `now`
+   */
+  private async lockNetDemand(
+    tx: DbTransaction,
+    worldId: string,
+    resourceType: string,
+    now: Date,
+  ): Promise<number> {
+    await tx
+      .insert(marketPrices)
+      .values({ worldId, resourceType, netDemand: 0, lastPrice: getBasePrice(resourceType) })
+      .onConflictDoNothing();
+
+    const [row] = await tx
+      .select()
+      .from(marketPrices)
+      .where(and(eq(marketPrices.worldId, worldId), eq(marketPrices.resourceType, resourceType)))
+      .for('update');
+
+    return decayNetDemand(row!.netDemand, now.getTime() - row!.updatedAt.getTime());
+  }
+
+  private async saveNetDemand(
+    tx: DbTransaction,
+    worldId: string,
+    resourceType: string,
+    netDemand: number,
+    lastPrice: number,
+    now: Date,
+  ): Promise<void> {
+    await tx
+      .update(marketPrices)
+      .set({ netDemand, lastPrice, updatedAt: now })
+      .where(and(eq(marketPrices.worldId, worldId), eq(marketPrices.resourceType, resourceType)));
+  }
+}
+
+async function recordTrade(
+  tx: DbTransaction,
+  trade: {
+    worldId: string;
+    kind: 'market_sale' | 'listing_purchase';
+    resourceType: string;
+    quantity: number;
+    pricePerUnit: number;
+    total: number;
+    sellerId: string;
+    buyerId?: string;
+    listingId?: string;
+  },
+): Promise<void> {
+  await tx.insert(worldEvents).values({
+    eventType: 'market_trade',
+    eventData: trade,
+    metadata: { worldId: trade.worldId },
+  });
+}
+
+let marketServiceInstance: MarketService | null = null;
+
+/**
+ * Get the global MarketService instance
+ */
+export function getMarketService(): MarketService {
+  if (!marketServiceInstance) {
+    marketServiceInstance = new MarketService();
+  }
+  return marketServiceInstance;
+}
@@ -0,0 +1,433 @@
+import { and, asc, desc, eq, gt, inArray, lte } from 'drizzle-orm';
+import { db } from '../database/connection';
+import {
+  players,
+  processingFacilities,
+  processingJobs,
+  worlds,
+  type ProcessingFacility,
+  type ProcessingJob,
+} from '../database/schema';
+import type { DbTransaction } from './ProductionService';
+import {
+  addToInventory,
+  lockPlayers,
+  roundCredits,
+  takeFromInventory,
+  type Inventory,
+} from '~~/server/utils/inventory';
+import { getDistanceToWater } from '~~/server/utils/hydrology';
+import { getWorldSeed } from '~~/server/utils/world-seed';
+import { PROCESSING_STEP_CONFIGS, getRecipe } from '~~/app/config/processing.config';
+import type { ProcessingStep } from '#shared/types/world';
+import { createServiceLogger } from '#shared/utils/logger';
+
+export const PROCESSING_CONFIG = {
+  TICK_INTERVAL_MS: 15 * 1000,
+  // Unfinished jobs (running or waiting) a single facility will hold
+  MAX_QUEUED_JOBS: 5,
+} as const;
+
+export interface FacilityWithJobs extends ProcessingFacility {
+  jobs: ProcessingJob[];
+}
+
+export interface ProcessingTickResult {
+  jobsCompleted: number;
+  playersCredited: number;
+}
+
+/**
+ * Runs processing facilities.
+ *
+ * A facility works through its queue one job at a time, so each job's start and completion
+ * time is fixed when it's queued (right after the previous job). The tick only has to deliver
+ * jobs whose completion time has passed, which also settles anything that finished while the
+ * server was down.
+ */
+export class ProcessingService {
+  private timer: NodeJS.Timeout | null = null;
+  private isTicking = false;
+  private log: ReturnType<typeof createServiceLogger>['info'];
+  private error: ReturnType<typeof createServiceLogger>['error'];
+
+  constructor() {
+    const serviceLogger = createServiceLogger('ProcessingService');
+    this.log = serviceLogger.info;
+    this.error = serviceLogger.error;
+  }
+
+  start(intervalMs: number = PROCESSING_CONFIG.TICK_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    void this.runTick();
+    this.timer = setInterval(() => void this.runTick(), intervalMs);
+    this.log(`Processing loop started (${intervalMs}ms interval)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      this.log('Processing loop stopped');
+    }
+  }
+
+  private async runTick(): Promise<void> {
+    if (this.isTicking) return;
+    this.isTicking = true;
+
+    try {
+      const result = await this.tick();
+      if (result.jobsCompleted > 0) {
+        this.log(
+          `Processing tick: ${result.jobsCompleted} jobs delivered to ${result.playersCredited} players`,
+        );
+      }
+    } catch (error) {
+      this.error('Processing tick failed', 'runTick', { error: (error as Error).message });
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Deliver every job in an active world that has finished by `now`
+   */
+  async tick(now: Date = new Date()): Promise<ProcessingTickResult> {
+    const dueRows = await db
+      .selectDistinct({ playerId: processingJobs.playerId })
+      .from(processingJobs)
+      .innerJoin(processingFacilities, eq(processingFacilities.id, processingJobs.facilityId))
+      .innerJoin(worlds, eq(worlds.id, processingFacilities.worldId))
+      .where(
+        and(
+          eq(processingJobs.status, 'queued'),
+          lte(processingJobs.completesAt, now),
+          eq(worlds.isActive, true),
+        ),
+      );
+
+    const result: ProcessingTickResult = { jobsCompleted: 0, playersCredited: 0 };
+
+    for (const { playerId } of dueRows) {
+      try {
+        const completed = await db.transaction((tx) => this.completeDueJobs(tx, playerId, now));
+        if (completed > 0) {
+          result.jobsCompleted += completed;
+          result.playersCredited++;
+        }
+      } catch (error) {
+        this.error('Failed to deliver processing jobs', 'tick', {
+          playerId,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Move the output of a player's finished jobs into their inventory.
+   * Locks the player first, matching the order used when queueing and cancelling jobs.
+   */
+  async completeDueJobs(tx: DbTransaction, playerId: string, now: Date): Promise<number> {
+    const [player] = await lockPlayers(tx, [playerId]);
+
+    const dueJobs = await tx
+      .select()
+      .from(processingJobs)
+      .where(
+        and(
+          eq(processingJobs.playerId, playerId),
+          eq(processingJobs.status, 'queued'),
+          lte(processingJobs.completesAt, now),
+        ),
+      )
+      .for('update');
+
+    if (dueJobs.length === 0) return 0;
+
+    let inventory = player!.inventory as Inventory;
+    for (const job of dueJobs) {
+      inventory = addToInventory(inventory, job.outputType, job.outputQuantity);
+    }
+
+    await tx.update(players).set({ inventory, updatedAt: now }).where(eq(players.id, playerId));
+    await tx
+      .update(processingJobs)
+      .set({ status: 'completed', updatedAt: now })
+      .where(
+        inArray(
+          processingJobs.id,
+          dueJobs.map((job) => job.id),
+        ),
+      );
+
+    return dueJobs.length;
+  }
+
+  /**
+   * A player's facilities in a world with their unfinished jobs, after delivering finished ones
+   */
+  async getFacilities(playerId: string, worldId: string): Promise<FacilityWithJobs[]> {
+    await db.transaction((tx) => this.completeDueJobs(tx, playerId, new Date()));
+
+    return db.query.processingFacilities.findMany({
+      where: and(
+        eq(processingFacilities.playerId, playerId),
+        eq(processingFacilities.worldId, worldId),
+      ),
+      with: {
+        jobs: {
+          where: eq(processingJobs.status, 'queued'),
+          orderBy: asc(processingJobs.startsAt),
+        },
+      },
+      orderBy: asc(processingFacilities.createdAt),
+    });
+  }
+
+  /**
+   * Build a facility for `step` at world cell (x, y), paid for from the player's credits.
+   * Steps that need water are rejected too far from a river, lake or ocean.
+   */
+  async placeFacility(
+    playerId: string,
+    worldId: string,
+    step: ProcessingStep,
+    x: number,
+    y: number,
+  ): Promise<{ facility: ProcessingFacility; credits: number }> {
+    const { facilityCost: cost, maxDistanceToWater } = PROCESSING_STEP_CONFIGS[step];
+
+    if (maxDistanceToWater !== undefined) {
+      const distanceToWater = getDistanceToWater(await getWorldSeed(worldId), x, y);
+      if (distanceToWater > maxDistanceToWater) {
+        throw createError({
+          statusCode: 400,
+          statusMessage: `A ${step} facility must be built within ${maxDistanceToWater} cells of water`,
+          data: { distanceToWater, maxDistanceToWater },
+        });
+      }
+    }
+
+    return db.transaction(async (tx) => {
+      const [player] = await lockPlayers(tx, [playerId]);
+
+      if (player!.credits < cost) {
+        throw createError({
+          statusCode: 409,
+          statusMessage: 'Not enough credits',
+          data: { required: cost, available: player!.credits },
+        });
+      }
+
+      const occupied = await tx.query.processingFacilities.findFirst({
+        columns: { id: true },
+        where: and(
+          eq(processingFacilities.worldId, worldId),
+          eq(processingFacilities.x, x),
+          eq(processingFacilities.y, y),
+        ),
+      });
+
+      if (occupied) {
+        throw createError({
+          statusCode: 409,
+          statusMessage: 'A facility already exists at this location',
+        });
+      }
+
+      const credits = roundCredits(player!.credits - cost);
+      await tx
+        .update(players)
+        .set({ credits, updatedAt: new Date() })
+        .where(eq(players.id, playerId));
+
+      const [facility] = await tx
+        .insert(processingFacilities)
+        .values({ playerId, worldId, step, x, y })
+        .returning();
+
+      this.log(`Facility ${facility!.id} (${step}) placed at (${x}, ${y}) for ${cost} credits`);
+      return { facility: facility!, credits };
+    });
+  }
+
+  /**
+   * Take `quantity` of `input` out of the player's inventory and queue it on one of their
+   * facilities. Output is floored to whole units, so the batch must be big enough to yield one.
+   */
+  async queueJob(
+    playerId: string,
+    facilityId: string,
+    input: string,
+    quantity: number,
+  ): Promise<{ job: ProcessingJob; inventory: Inventory }> {
+    return db.transaction(async (tx) => {
+      const now = new Date();
+      const [player] = await lockPlayers(tx, [playerId]);
+      const facility = await this.lockFacility(tx, playerId, facilityId);
+      const step = facility.step as ProcessingStep;
+
+      const recipe = getRecipe(input, step);
+      if (!recipe) {
+        throw createError({
+          statusCode: 400,
+          statusMessage: `${input} cannot be processed by a ${step} facility`,
+        });
+      }
+
+      const outputQuantity = Math.floor(quantity * recipe.yieldRate);
+      if (outputQuantity < 1) {
+        throw createError({
+          statusCode: 400,
+          statusMessage: 'Batch too small to yield any output',
+          data: { quantity, yieldRate: recipe.yieldRate },
+        });
+      }
+
+      const queuedJobs = await tx
+        .select()
+        .from(processingJobs)
+        .where(and(eq(processingJobs.facilityId, facilityId), eq(processingJobs.status, 'queued')))
+        .orderBy(desc(processingJobs.completesAt));
+
+      if (queuedJobs.length >= PROCESSING_CONFIG.MAX_QUEUED_JOBS) {
+        throw createError({
+          statusCode: 409,
+          statusMessage: 'Facility queue is full',
+          data: { maxQueuedJobs: PROCESSING_CONFIG.MAX_QUEUED_JOBS },
+        });
+      }
+
+      const inventory = takeFromInventory(player!.inventory as Inventory, input, quantity);
+      await tx.update(players).set({ inventory, updatedAt: now }).where(eq(players.id, playerId));
+
+      const lastCompletion = queuedJobs[0]?.completesAt.getTime() ?? 0;
+      const startsAt = new Date(Math.max(now.getTime(), lastCompletion));
+      const durationMs = quantity * PROCESSING_STEP_CONFIGS[step].secondsPerUnit * 1000;
+
+      const [job] = await tx
+        .insert(processingJobs)
+        .values({
+          facilityId,
+          playerId,
+          inputType: input,
+          inputQuantity: quantity,
+          outputType: recipe.output,
+          outputQuantity,
+          startsAt,
+          completesAt: new Date(startsAt.getTime() + durationMs),
+        })
+        .returning();
+
+      return { job: job!, inventory };
+    });
+  }
+
+  /**
+   * Cancel a job that hasn't started, refund its input and pull the jobs behind it forward
+   */
+  async cancelJob(playerId: string, jobId: string): Promise<Inventory> {
+    return db.transaction(async (tx) => {
+      const now = new Date();
+      const [player] = await lockPlayers(tx, [playerId]);
+
+      const [job] = await tx
+        .select()
+        .from(processingJobs)
+        .where(and(eq(processingJobs.id, jobId), eq(processingJobs.playerId, playerId)))
+        .for('update');
+
+      if (!job || job.status !== 'queued') {
+        throw createError({ statusCode: 404, statusMessage: 'Job not found or finished' });
+      }
+      if (job.startsAt <= now) {
+        throw createError({ statusCode: 409, statusMessage: 'Job is already running' });
+      }
+
+      await this.lockFacility(tx, playerId, job.facilityId);
+
+      const inventory = addToInventory(
+        player!.inventory as Inventory,
+        job.inputType,
+        job.inputQuantity,
+      );
+      await tx.update(players).set({ inventory, updatedAt: now }).where(eq(players.id, playerId));
+      await tx
+        .update(processingJobs)
+        .set({ status: 'cancelled', updatedAt: now })
+        .where(eq(processingJobs.id, job.id));
+
+      const laterJobs = await tx
+        .select()
+        .from(processingJobs)
+        .where(
+          and(
+            eq(processingJobs.facilityId, job.facilityId),
+            eq(processingJobs.status, 'queued'),
+            gt(processingJobs.startsAt, job.startsAt),
+          ),
+        )
+        .orderBy(asc(processingJobs.startsAt));
+
+      let cursor = job.startsAt.getTime();
+      for (const laterJob of laterJobs) {
+        const durationMs = laterJob.completesAt.getTime() - laterJob.startsAt.getTime();
+        await tx
+          .update(processingJobs)
+          .set({
+            startsAt: new Date(cursor),
+            completesAt: new Date(cursor + durationMs),
+            updatedAt: now,
+          })
+          .where(eq(processingJobs.id, laterJob.id));
+        cursor += durationMs;
+      }
+
+      return inventory;
+    });
+  }
+
+  private async lockFacility(
+    tx: DbTransaction,
+    playerId: string,
+    facilityId: string,
+  ): Promise<ProcessingFacility> {
+    const [facility] = await tx
+      .select()
+      .from(processingFacilities)
+      .where(
+        and(eq(processingFacilities.id, facilityId), eq(processingFacilities.playerId, playerId)),
+      )
+      .for('update');
+
+    if (!facility) {
+      throw createError({ statusCode: 404, statusMessage: 'Facility not found' });
+    }
+
+    return facility;
+  }
+}
+
+let processingServiceInstance: ProcessingService | null = null;
+
+/**
+ * Get the global ProcessingService instance
+ */
+export function getProcessingService(): ProcessingService {
+  if (!processingServiceInstance) {
+    processingServiceInstance = new ProcessingService();
+  }
+  return processingServiceInstance;
+}
+
+export function stopProcessingService(): void {
+  if (processingServiceInstance) {
+    processingServiceInstance.stop();
+    processingServiceInstance = null;
+  }
+}
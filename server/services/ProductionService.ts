@@ -0,0 +1,467 @@
+import { and, eq, inArray, isNotNull, ne } from 'drizzle-orm';
+import { db } from '../database/connection';
+import {
+  extractors,
+  players,
+  resourceClaims,
+  resourceVeins,
+  worlds,
+  type Extractor,
+  type ResourceVein,
+} from '../database/schema';
+import { addToInventory, type Inventory } from '~~/server/utils/inventory';
+import { publishExtractorChange, publishVeinChange } from '~~/server/utils/world-broadcast';
+import { RESOURCE_CONFIGS } from '~~/app/config/resources.config';
+import { ExtractorStatus, type ResourceType } from '#shared/types/world';
+import { createServiceLogger } from '#shared/utils/logger';
+
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type ExtractorStorage = Record<string, number>;
+
+export const PRODUCTION_CONFIG = {
+  TICK_INTERVAL_MS: 60 * 1000,
+  // Output of a perfect vein (density 1, quality 1) at difficulty 1 and efficiency 1
+  BASE_UNITS_PER_HOUR: 120,
+  STORAGE_CAPACITY: 1000,
+  // Remaining reserves below this are treated as exhausted to avoid chasing float dust
+  EXHAUSTION_EPSILON: 0.001,
+} as const;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+export interface CollectionResult {
+  collected: Record<string, number>;
+  inventory: Record<string, number>;
+  extractorsCollected: number;
+}
+
+export interface VeinSettlement {
+  extractorsUpdated: number;
+  unitsProduced: number;
+  exhausted: boolean;
+  // Extractors whose status changed, as written, and the vein when it ran out in this settle
+  changedExtractors: Extractor[];
+  newlyExhaustedVein: ResourceVein | null;
+}
+
+export interface ProductionTickResult {
+  veinsProcessed: number;
+  extractorsUpdated: number;
+  unitsProduced: number;
+  veinsExhausted: number;
+}
+
+/**
+ * Hourly output of one extractor on a vein, before storage and reserve limits
+ */
+export function calculateProductionRate(
+  resourceType: string,
+  density: number,
+  quality: number,
+  efficiency: number,
+): number {
+  const config = RESOURCE_CONFIGS[resourceType as ResourceType];
+  const difficulty = config?.extractionDifficulty ?? 1;
+
+  return (PRODUCTION_CONFIG.BASE_UNITS_PER_HOUR * density * quality * efficiency) / difficulty;
+}
+
+export function getStoredAmount(storage: ExtractorStorage): number {
+  return Object.values(storage).reduce((sum, amount) => sum + amount, 0);
+}
+
+/**
+ * Advances extractor production.
+ *
+ * Output is always computed from the time elapsed since each extractor's `lastTick`, so a tick
+ * that runs after downtime settles the whole offline period in one step. Production that doesn't
+ * fit in storage is lost rather than banked, and `lastTick` always moves to the settle time.
+ */
+export class ProductionService {
+  private timer: NodeJS.Timeout | null = null;
+  private isTicking = false;
+  private log: ReturnType<typeof createServiceLogger>['info'];
+  private error: ReturnType<typeof createServiceLogger>['error'];
+
+  constructor() {
+    const serviceLogger = createServiceLogger('ProductionService');
+    this.log = serviceLogger.info;
+    this.error = serviceLogger.error;
+  }
+
+  start(intervalMs: number = PRODUCTION_CONFIG.TICK_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    // Settle anything that accumulated while the server was down before waiting a full interval
+    void this.runTick();
+    this.timer = setInterval(() => void this.runTick(), intervalMs);
+    this.log(`Production loop started (${intervalMs}ms interval)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      this.log('Production loop stopped');
+    }
+  }
+
+  private async runTick(): Promise<void> {
+    // Skip rather than overlap when a tick takes longer than the interval
+    if (this.isTicking) return;
+    this.isTicking = true;
+
+    try {
+      const result = await this.tick();
+      if (result.extractorsUpdated > 0) {
+        this.log(
+          `Production tick: ${result.unitsProduced.toFixed(2)} units from ${result.extractorsUpdated} extractors on ${result.veinsProcessed} veins`,
+        );
+      }
+    } catch (error) {
+      this.error('Production tick failed', 'runTick', { error: (error as Error).message });
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Settle every producing vein in active worlds up to `now`
+   */
+  async tick(now: Date = new Date()): Promise<ProductionTickResult> {
+    const result: ProductionTickResult = {
+      veinsProcessed: 0,
+      extractorsUpdated: 0,
+      unitsProduced: 0,
+      veinsExhausted: 0,
+    };
+
+    const veinRows = await db
+      .selectDistinct({ veinId: extractors.resourceVeinId })
+      .from(extractors)
+      .innerJoin(worlds, eq(worlds.id, extractors.worldId))
+      .where(
+        and(
+          isNotNull(extractors.resourceVeinId),
+          ne(extractors.status, ExtractorStatus.DEPLETED),
+          eq(worlds.isActive, true),
+        ),
+      );
+
+    for (const { veinId } of veinRows) {
+      if (!veinId) continue;
+
+      try {
+        const veinResult = await db.transaction((tx) => this.settleVein(tx, veinId, now));
+        publishSettlement(veinResult);
+        result.veinsProcessed++;
+        result.extractorsUpdated += veinResult.extractorsUpdated;
+        result.unitsProduced += veinResult.unitsProduced;
+        if (veinResult.exhausted) result.veinsExhausted++;
+      } catch (error) {
+        this.error(`Failed to settle vein ${veinId}`, 'tick', {
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Settle all extractors on one vein up to `now` inside the caller's transaction.
+   * Locks the vein and its extractors, so concurrent settles of the same vein serialize.
+   */
+  async settleVein(
+    tx: DbTransaction,
+    veinId: string,
+    now: Date = new Date(),
+  ): Promise<VeinSettlement> {
+    const [vein] = await tx
+      .select()
+      .from(resourceVeins)
+      .where(eq(resourceVeins.id, veinId))
+      .for('update');
+
+    if (!vein) {
+      return {
+        extractorsUpdated: 0,
+        unitsProduced: 0,
+        exhausted: false,
+        changedExtractors: [],
+        newlyExhaustedVein: null,
+      };
+    }
+
+    const veinExtractors = await tx
+      .select()
+      .from(extractors)
+      .where(eq(extractors.resourceVeinId, veinId))
+      .for('update');
+
+    if (veinExtractors.length === 0) {
+      return {
+        extractorsUpdated: 0,
+        unitsProduced: 0,
+        exhausted: vein.isExhausted,
+        changedExtractors: [],
+        newlyExhaustedVein: null,
+      };
+    }
+
+    const remainingReserves = Math.max(0, vein.totalReserves - vein.extractedAmount);
+
+    const demands = veinExtractors.map((extractor) => {
+      const storage = (extractor.storage ?? {}) as ExtractorStorage;
+      const elapsedHours = Math.max(0, now.getTime() - extractor.lastTick.getTime()) / MS_PER_HOUR;
+      const freeCapacity = Math.max(
+        0,
+        PRODUCTION_CONFIG.STORAGE_CAPACITY - getStoredAmount(storage),
+      );
+      const potential =
+        calculateProductionRate(
+          vein.resourceType,
+          vein.density,
+          vein.quality,
+          extractor.efficiency,
+        ) * elapsedHours;
+
+      return {
+        extractor,
+        storage,
+        amount: vein.isExhausted ? 0 : Math.min(potential, freeCapacity),
+      };
+    });
+
+    // Extractors sharing a vein split whatever is left in proportion to what they could produce
+    const totalDemand = demands.reduce((sum, demand) => sum + demand.amount, 0);
+    const shareFactor = totalDemand > remainingReserves ? remainingReserves / totalDemand : 1;
+
+    const produced = totalDemand * shareFactor;
+    const exhausted =
+      vein.isExhausted || remainingReserves - produced <= PRODUCTION_CONFIG.EXHAUSTION_EPSILON;
+
+    const changedExtractors: Extractor[] = [];
+    for (const { extractor, storage, amount } of demands) {
+      const output = amount * shareFactor;
+      const nextStorage: ExtractorStorage = { ...storage };
+      if (output > 0) {
+        nextStorage[vein.resourceType] = (nextStorage[vein.resourceType] ?? 0) + output;
+      }
+
+      const status = getExtractorStatus(nextStorage, exhausted);
+      await tx
+        .update(extractors)
+        .set({
+          storage: nextStorage,
+          status,
+          lastTick: now,
+          updatedAt: now,
+        })
+        .where(eq(extractors.id, extractor.id));
+
+      if (status !== extractor.status) {
+        changedExtractors.push({ ...extractor, storage: nextStorage, status, lastTick: now });
+      }
+    }
+
+    const extractedAmount = exhausted ? vein.totalReserves : vein.extractedAmount + produced;
+    if (produced > 0 || exhausted !== vein.isExhausted) {
+      await tx
+        .update(resourceVeins)
+        .set({ extractedAmount, isExhausted: exhausted })
+        .where(eq(resourceVeins.id, veinId));
+    }
+
+    if (produced > 0) {
+      const producingPlayerIds = [
+        ...new Set(
+          demands.filter(({ amount }) => amount > 0).map(({ extractor }) => extractor.playerId),
+        ),
+      ];
+
+      await tx
+        .update(resourceClaims)
+        .set({ lastActivity: now, claimType: 'active' })
+        .where(
+          and(
+            eq(resourceClaims.resourceVeinId, veinId),
+            inArray(resourceClaims.playerId, producingPlayerIds),
+          ),
+        );
+    }
+
+    if (exhausted && !vein.isExhausted) {
+      this.log(`Vein ${veinId} exhausted`);
+    }
+
+    return {
+      extractorsUpdated: veinExtractors.length,
+      unitsProduced: produced,
+      exhausted,
+      changedExtractors,
+      newlyExhaustedVein:
+        exhausted && !vein.isExhausted ? { ...vein, extractedAmount, isExhausted: true } : null,
+    };
+  }
+
+  /**
+   * Move whole units from a player's extractor storage into their inventory.
+   * Production is settled up to now first, in the same transaction, so nothing produced since the
+   * last tick is lost or collected twice. Fractional leftovers stay in storage for the next collection.
+   */
+  async collectExtractors(
+    playerId: string,
+    worldId: string,
+    extractorIds?: string[],
+  ): Promise<CollectionResult> {
+    // Status changes are only pushed to other peers once the collection has committed
+    const settlements: VeinSettlement[] = [];
+    const resumed: Extractor[] = [];
+
+    const result = await db.transaction(async (tx) => {
+      const ownershipFilters = [eq(extractors.playerId, playerId), eq(extractors.worldId, worldId)];
+      if (extractorIds) {
+        ownershipFilters.push(inArray(extractors.id, extractorIds));
+      }
+
+      const owned = await tx
+        .select({ id: extractors.id, resourceVeinId: extractors.resourceVeinId })
+        .from(extractors)
+        .where(and(...ownershipFilters));
+
+      if (extractorIds && owned.length !== new Set(extractorIds).size) {
+        throw createError({ statusCode: 404, statusMessage: 'Extractor not found' });
+      }
+
+      // Lock the player first: inventory is read-modify-write and players are never locked by ticks
+      const [player] = await tx
+        .select()
+        .from(players)
+        .where(eq(players.id, playerId))
+        .for('update');
+      if (!player) {
+        throw createError({ statusCode: 404, statusMessage: 'Player not found' });
+      }
+
+      let inventory = player.inventory as Inventory;
+      if (owned.length === 0) {
+        return { collected: {}, inventory, extractorsCollected: 0 };
+      }
+
+      // Settle in a stable vein order so concurrent collections can't deadlock each other
+      const now = new Date();
+      const veinIds = [
+        ...new Set(owned.map(({ resourceVeinId }) => resourceVeinId).filter((id) => id !== null)),
+      ].sort();
+      for (const veinId of veinIds) {
+        settlements.push(await this.settleVein(tx, veinId, now));
+      }
+
+      const settled = await tx
+        .select()
+        .from(extractors)
+        .where(
+          inArray(
+            extractors.id,
+            owned.map(({ id }) => id),
+          ),
+        )
+        .for('update');
+
+      const collected: Record<string, number> = {};
+      let extractorsCollected = 0;
+
+      for (const extractor of settled) {
+        const remaining: ExtractorStorage = {};
+        let collectedAny = false;
+
+        for (const [resourceType, amount] of Object.entries(
+          extractor.storage as ExtractorStorage,
+        )) {
+          const wholeUnits = Math.floor(amount);
+          if (wholeUnits > 0) {
+            collected[resourceType] = (collected[resourceType] ?? 0) + wholeUnits;
+            collectedAny = true;
+          }
+          if (amount - wholeUnits > 0) {
+            remaining[resourceType] = amount - wholeUnits;
+          }
+        }
+
+        if (!collectedAny) continue;
+        extractorsCollected++;
+
+        const status =
+          extractor.status === ExtractorStatus.STORAGE_FULL
+            ? ExtractorStatus.EXTRACTING
+            : extractor.status;
+        await tx
+          .update(extractors)
+          .set({ storage: remaining, status, updatedAt: now })
+          .where(eq(extractors.id, extractor.id));
+
+        if (status !== extractor.status) {
+          resumed.push({ ...extractor, storage: remaining, status });
+        }
+      }
+
+      for (const [resourceType, amount] of Object.entries(collected)) {
+        inventory = addToInventory(inventory, resourceType, amount);
+      }
+
+      if (extractorsCollected > 0) {
+        await tx.update(players).set({ inventory, updatedAt: now }).where(eq(players.id, playerId));
+      }
+
+      return { collected, inventory, extractorsCollected };
+    });
+
+    settlements.forEach(publishSettlement);
+    for (const extractor of resumed) {
+      publishExtractorChange(extractor.worldId, 'updated', extractor);
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Push a committed settle's status changes and exhaustion to peers watching the affected chunks
+ */
+export function publishSettlement(settlement: VeinSettlement): void {
+  for (const extractor of settlement.changedExtractors) {
+    publishExtractorChange(extractor.worldId, 'updated', extractor);
+  }
+  if (settlement.newlyExhaustedVein) {
+    publishVeinChange(settlement.newlyExhaustedVein);
+  }
+}
+
+function getExtractorStatus(storage: ExtractorStorage, exhausted: boolean): ExtractorStatus {
+  if (exhausted) return ExtractorStatus.DEPLETED;
+  if (getStoredAmount(storage) >= PRODUCTION_CONFIG.STORAGE_CAPACITY) {
+    return ExtractorStatus.STORAGE_FULL;
+  }
+  return ExtractorStatus.EXTRACTING;
+}
+
+let productionServiceInstance: ProductionService | null = null;
+
+/**
+ * Get the global ProductionService instance
+ */
+export function getProductionService(): ProductionService {
+  if (!productionServiceInstance) {
+    productionServiceInstance = new ProductionService();
+  }
+  return productionServiceInstance;
+}
+
+export function stopProductionService(): void {
+  if (productionServiceInstance) {
+    productionServiceInstance.stop();
+    productionServiceInstance = null;
+  }
+}
@@ -0,0 +1,362 @@
+import { and, desc, eq, getTableColumns, gte, lte, sql } from 'drizzle-orm';
+import { db } from '../database/connection';
+import { players, playerScans, resourceVeins, type Player } from '../database/schema';
+import type { DbTransaction } from './ProductionService';
+import { getDiscoveryService } from './DiscoveryService';
+import { lockPlayers, roundCredits } from '~~/server/utils/inventory';
+import { ensureChunksHavePersistedVeins, isCurrentVein } from '~~/server/utils/resource-generator';
+import { revealVeinToPlayer } from '~~/server/utils/world-broadcast';
+import { toResourceVein, type ResourceVeinRow } from '~~/server/utils/resource-vein-mapper';
+import {
+  ScanLevel,
+  type ResourceVein,
+  type ScanCoverageChunk,
+  type ScanHistoryEntry,
+} from '#shared/types/world';
+import { getChunksInRadius, normalizeWorldCoordinates } from '#shared/utils/coordinates';
+import { SCAN_LEVEL_CONFIGS, getScanConfidence } from '#shared/utils/scan-levels';
+import { createServiceLogger } from '#shared/utils/logger';
+
+const SCAN_CHUNK_SIZE = 16;
+
+export const SCAN_HISTORY_CONFIG = {
+  DEFAULT_LIMIT: 100,
+  MAX_LIMIT: 500,
+  // Widest heatmap area, in chunks per side, and the most scans folded into one heatmap
+  MAX_HEATMAP_CHUNKS: 64,
+  MAX_HEATMAP_SCANS: 5000,
+} as const;
+
+export interface ScanRequest {
+  x: number;
+  y: number;
+  searchRadius: number;
+  scanLevel: ScanLevel;
+}
+
+export interface ScanOutcome {
+  // Every vein the scan revealed, nearest first
+  veins: ResourceVein[];
+  cost: number;
+  credits: number;
+  cooldownEndsAt: Date;
+}
+
+export interface ScanBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Which of a player's scans to read back: those touching `bounds`, within the time window
+ */
+export interface ScanWindow {
+  bounds?: ScanBounds;
+  since?: Date;
+  until?: Date;
+}
+
+interface RecordedScanResults {
+  scanLevel?: ScanLevel;
+  searchRadius?: number;
+  veinIds?: string[];
+  resourceFound?: boolean;
+}
+
+type VeinRow = ResourceVeinRow & { distance: number };
+
+/**
+ * Paid resource scans.
+ *
+ * Each scan level reaches deeper deposits than the last and costs more. Surface scans report
+ * the nearest vein only; deeper scans report everything in range, with confidence falling off
+ * with distance from the scan point. After a scan the player waits out the cooldown of that
+ * scan's level, measured from its `player_scans.scanned_at`.
+ *
+ * The same rows are read back as the player's scan history and coverage heatmap.
+ */
+export class ScanService {
+  private log: ReturnType<typeof createServiceLogger>['info'];
+
+  constructor() {
+    this.log = createServiceLogger('ScanService').info;
+  }
+
+  async scan(player: Player, request: ScanRequest, now: Date = new Date()): Promise<ScanOutcome> {
+    const { x, y } = normalizeWorldCoordinates(request.x, request.y);
+    const { searchRadius, scanLevel } = request;
+    const config = SCAN_LEVEL_CONFIGS[scanLevel];
+
+    const chunks = getChunksInRadius(x, y, searchRadius, SCAN_CHUNK_SIZE);
+    await ensureChunksHavePersistedVeins(chunks, player.worldId, SCAN_CHUNK_SIZE);
+
+    const outcome = await db.transaction(async (tx) => {
+      const [locked] = await lockPlayers(tx, [player.id]);
+      await assertScanCooldownElapsed(tx, locked!.sessionId, now);
+
+      if (locked!.credits < config.cost) {
+        throw createError({
+          statusCode: 409,
+          statusMessage: 'Not enough credits',
+          data: { required: config.cost, available: locked!.credits },
+        });
+      }
+
+      const credits = roundCredits(locked!.credits - config.cost);
+      await tx.update(players).set({ credits, updatedAt: now }).where(eq(players.id, player.id));
+
+      const rows = await findVeinsInRange(tx, player.worldId, x, y, searchRadius, scanLevel);
+      const veins = rows.map((row) =>
+        toResourceVein(row, {
+          isDiscovered: true,
+          scanLevel,
+          confidence: getScanConfidence(scanLevel, row.distance, searchRadius),
+          discoveredBy: player.id,
+          discoveredAt: now.toISOString(),
+        }),
+      );
+
+      const discoveryService = getDiscoveryService();
+      await discoveryService.markChunksExplored(player.id, player.worldId, chunks, tx);
+      for (const vein of veins) {
+        await discoveryService.recordVeinDiscovery(player.id, vein.id, vein.discovery, tx);
+      }
+
+      await tx.insert(playerScans).values({
+        sessionId: locked!.sessionId,
+        worldId: player.worldId,
+        scanCenter: sql`ST_SetSRID(ST_MakePoint(${x}, ${y}), 4326)`,
+        scanArea: sql`ST_Buffer(ST_SetSRID(ST_MakePoint(${x}, ${y}), 4326), ${searchRadius})`,
+        scanType: config.scanType,
+        results: {
+          success: true,
+          resourceFound: veins.length > 0,
+          resourceType: veins[0]?.type ?? null,
+          veinIds: veins.map((vein) => vein.id),
+          scanLevel,
+          cost: config.cost,
+          coordinates: { worldX: x, worldY: y },
+          searchRadius,
+        },
+        scannedAt: now,
+      });
+
+      return {
+        veins,
+        cost: config.cost,
+        credits,
+        cooldownEndsAt: new Date(now.getTime() + config.cooldownMs),
+      };
+    });
+
+    for (const vein of outcome.veins) {
+      revealVeinToPlayer(player.id, vein.id);
+    }
+
+    this.log(
+      `Player ${player.id} ran a ${scanLevel} scan at (${x}, ${y}) for ${config.cost} credits, found ${outcome.veins.length} veins`,
+    );
+    return outcome;
+  }
+
+  /**
+   * The player's scans in their current world, newest first
+   */
+  async getScanHistory(
+    player: Player,
+    window: ScanWindow = {},
+    limit: number = SCAN_HISTORY_CONFIG.DEFAULT_LIMIT,
+  ): Promise<ScanHistoryEntry[]> {
+    const rows = await selectScans(player, window, Math.min(limit, SCAN_HISTORY_CONFIG.MAX_LIMIT));
+
+    return rows.map((row) => {
+      const results = row.results as RecordedScanResults;
+      return {
+        id: row.id,
+        x: row.center.x,
+        y: row.center.y,
+        searchRadius: results.searchRadius ?? 0,
+        scanType: row.scanType,
+        scanLevel: results.scanLevel ?? ScanLevel.SURFACE,
+        veinsFound: results.veinIds?.length ?? (results.resourceFound ? 1 : 0),
+        scannedAt: row.scannedAt.toISOString(),
+      };
+    });
+  }
+
+  /**
+   * Per-chunk scan coverage inside `bounds`. A cell counts as covered when its center lies
+   * within half a cell of some scan's search radius, so even a zero-radius scan covers the
+   * cell it was made in. Chunks the player never scanned are left out.
+   */
+  async getCoverageHeatmap(
+    player: Player,
+    bounds: ScanBounds,
+    window: Omit<ScanWindow, 'bounds'> = {},
+  ): Promise<ScanCoverageChunk[]> {
+    const rows = await selectScans(
+      player,
+      { ...window, bounds },
+      SCAN_HISTORY_CONFIG.MAX_HEATMAP_SCANS,
+    );
+
+    const size = SCAN_CHUNK_SIZE;
+    const minChunkX = Math.floor(bounds.minX / size);
+    const maxChunkX = Math.floor(bounds.maxX / size);
+    const minChunkY = Math.floor(bounds.minY / size);
+    const maxChunkY = Math.floor(bounds.maxY / size);
+
+    const chunks = new Map<string, ScanCoverageChunk & { covered: Uint8Array }>();
+
+    for (const row of rows) {
+      const { x, y } = row.center;
+      const reach = ((row.results as RecordedScanResults).searchRadius ?? 0) + 0.5;
+
+      const fromChunkX = Math.max(minChunkX, Math.floor((x - reach) / size));
+      const toChunkX = Math.min(maxChunkX, Math.floor((x + reach) / size));
+      const fromChunkY = Math.max(minChunkY, Math.floor((y - reach) / size));
+      const toChunkY = Math.min(maxChunkY, Math.floor((y + reach) / size));
+
+      for (let chunkX = fromChunkX; chunkX <= toChunkX; chunkX++) {
+        for (let chunkY = fromChunkY; chunkY <= toChunkY; chunkY++) {
+          const key = `${chunkX},${chunkY}`;
+          const chunk = chunks.get(key) ?? {
+            chunkX,
+            chunkY,
+            scanCount: 0,
+            coverage: 0,
+            lastScannedAt: row.scannedAt.toISOString(),
+            covered: new Uint8Array(size * size),
+          };
+
+          let touched = false;
+          for (let cellY = 0; cellY < size; cellY++) {
+            for (let cellX = 0; cellX < size; cellX++) {
+              const dx = chunkX * size + cellX + 0.5 - x;
+              const dy = chunkY * size + cellY + 0.5 - y;
+              if (dx * dx + dy * dy <= reach * reach) {
+                chunk.covered[cellY * size + cellX] = 1;
+                touched = true;
+              }
+            }
+          }
+          if (!touched) continue;
+
+          // Rows come newest first, so the first scan to touch a chunk is its latest
+          chunk.scanCount++;
+          chunks.set(key, chunk);
+        }
+      }
+    }
+
+    return [...chunks.values()].map(({ covered, ...chunk }) => ({
+      ...chunk,
+      coverage: covered.reduce((sum, cell) => sum + cell, 0) / covered.length,
+    }));
+  }
+}
+
+async function selectScans(player: Player, window: ScanWindow, limit: number) {
+  const { bounds, since, until } = window;
+
+  return db
+    .select({
+      id: playerScans.id,
+      center: playerScans.scanCenter,
+      scanType: playerScans.scanType,
+      results: playerScans.results,
+      scannedAt: playerScans.scannedAt,
+    })
+    .from(playerScans)
+    .where(
+      and(
+        eq(playerScans.sessionId, player.sessionId),
+        eq(playerScans.worldId, player.worldId),
+        bounds
+          ? sql`ST_Intersects(${playerScans.scanArea}, ST_MakeEnvelope(${bounds.minX}, ${bounds.minY}, ${bounds.maxX}, ${bounds.maxY}, 4326))`
+          : undefined,
+        since ? gte(playerScans.scannedAt, since) : undefined,
+        until ? lte(playerScans.scannedAt, until) : undefined,
+      ),
+    )
+    .orderBy(desc(playerScans.scannedAt))
+    .limit(limit);
+}
+
+/**
+ * Reject the scan while the player's latest scan is still cooling down. The cooldown is the one
+ * of the latest scan's level; scans recorded without a level count as surface scans.
+ */
+async function assertScanCooldownElapsed(
+  tx: DbTransaction,
+  sessionId: string,
+  now: Date,
+): Promise<void> {
+  const [latest] = await tx
+    .select({ scannedAt: playerScans.scannedAt, results: playerScans.results })
+    .from(playerScans)
+    .where(eq(playerScans.sessionId, sessionId))
+    .orderBy(desc(playerScans.scannedAt))
+    .limit(1);
+  if (!latest) return;
+
+  const recordedLevel = (latest.results as { scanLevel?: ScanLevel }).scanLevel;
+  const { cooldownMs } = SCAN_LEVEL_CONFIGS[recordedLevel ?? ScanLevel.SURFACE];
+  const retryAfterMs = latest.scannedAt.getTime() + cooldownMs - now.getTime();
+
+  if (retryAfterMs > 0) {
+    throw createError({
+      statusCode: 429,
+      statusMessage: 'Scanner is cooling down',
+      data: { retryAfterMs, cooldownEndsAt: new Date(now.getTime() + retryAfterMs).toISOString() },
+    });
+  }
+}
+
+async function findVeinsInRange(
+  tx: DbTransaction,
+  worldId: string,
+  x: number,
+  y: number,
+  radius: number,
+  scanLevel: ScanLevel,
+): Promise<VeinRow[]> {
+  const { maxDepth, returnsAllVeins } = SCAN_LEVEL_CONFIGS[scanLevel];
+  const queryPoint = sql`ST_SetSRID(ST_MakePoint(${x}, ${y}), 4326)`;
+
+  const query = tx
+    .select({
+      ...getTableColumns(resourceVeins),
+      distance: sql<number>`ST_Distance(${resourceVeins.centerPoint}, ${queryPoint})`.mapWith(
+        Number,
+      ),
+    })
+    .from(resourceVeins)
+    .where(
+      and(
+        eq(resourceVeins.worldId, worldId),
+        // Veins left over from an older generator are no longer there to be found
+        isCurrentVein(),
+        sql`ST_DWithin(${resourceVeins.centerPoint}, ${queryPoint}, ${radius})`,
+        // Veins persisted without a depth sit at the surface
+        sql`COALESCE(${resourceVeins.depth}, 1) <= ${maxDepth}`,
+      ),
+    )
+    .orderBy(sql`ST_Distance(${resourceVeins.centerPoint}, ${queryPoint})`);
+
+  return returnsAllVeins ? query : query.limit(1);
+}
+
+let scanServiceInstance: ScanService | null = null;
+
+/**
+ * Get the global ScanService instance
+ */
+export function getScanService(): ScanService {
+  if (!scanServiceInstance) {
+    scanServiceInstance = new ScanService();
+  }
+  return scanServiceInstance;
+}
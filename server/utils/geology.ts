@@ -0,0 +1,261 @@
+import { GEOLOGICAL_CLUSTER_CONFIGS } from '~/config/geology.config';
+import { RESOURCE_CONFIGS } from '~/config/resources.config';
+import { TERRAIN_CONFIGS } from '~/config/terrain.config';
+import { classifyBiome } from '~~/server/utils/terrain-generator';
+import { getFreshwaterAt } from '~~/server/utils/hydrology';
+import { createSeededRandom, deriveSeed, type RandomFn } from '~~/server/utils/seeded-random';
+import { validateResourcePosition, type WorldCoordinate } from '#shared/utils/coordinates';
+import {
+  HydrologyFeature,
+  type GeologicalClusterConfig,
+  type ResourceType,
+} from '#shared/types/world';
+
+/**
+ * Geological Cluster System
+ *
+ * The world is split into regions, each holding at most one cluster laid out from the seed and
+ * the region alone, so a cluster comes out the same whichever chunk asks for it. A cluster's
+ * primary veins sit inside its ellipse and its secondary veins, of the primaries' associated
+ * resources, are scattered close around them.
+ *
+ * No cluster reaches further than a region from its center, so the regions around a chunk hold
+ * every cluster that can touch it.
+ */
+
+export const GEOLOGY_CONFIG = {
+  // Cells per side of a geology region; must exceed half the longest cluster
+  REGION_SIZE: 256,
+  // Chance that a region holds a cluster at all
+  CLUSTER_CHANCE: 0.35,
+  // Cells kept between veins of one cluster
+  VEIN_SPACING: 4,
+  // Secondary veins land at most this much beyond VEIN_SPACING from their primary, in cells
+  SECONDARY_SPREAD: 20,
+  PLACEMENT_ATTEMPTS: 8,
+  MAX_CACHED_REGIONS: 128,
+} as const;
+
+export interface ClusterVein {
+  x: number;
+  y: number;
+  resourceType: ResourceType;
+  role: 'primary' | 'secondary';
+}
+
+export interface GeologicalCluster {
+  id: string;
+  config: GeologicalClusterConfig;
+  centerX: number;
+  centerY: number;
+  angle: number;
+  veins: ClusterVein[];
+}
+
+const CLUSTER_CONFIGS = Object.values(GEOLOGICAL_CLUSTER_CONFIGS);
+const TOTAL_CLUSTER_WEIGHT = CLUSTER_CONFIGS.reduce((sum, config) => sum + config.weight, 0);
+
+// Laid out regions (null where no cluster formed), most recently used last
+const regionClusterCache = new Map<string, GeologicalCluster | null>();
+
+function randomInt(random: RandomFn, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+function pickClusterConfig(random: RandomFn): GeologicalClusterConfig {
+  let threshold = random() * TOTAL_CLUSTER_WEIGHT;
+  for (const config of CLUSTER_CONFIGS) {
+    threshold -= config.weight;
+    if (threshold <= 0) return config;
+  }
+  return CLUSTER_CONFIGS[CLUSTER_CONFIGS.length - 1]!;
+}
+
+/**
+ * Whether a world cell lies inside a cluster's ellipse
+ */
+export function isInCluster(cluster: GeologicalCluster, worldX: number, worldY: number): boolean {
+  const dx = worldX - cluster.centerX;
+  const dy = worldY - cluster.centerY;
+  const along = dx * Math.cos(cluster.angle) + dy * Math.sin(cluster.angle);
+  const across = -dx * Math.sin(cluster.angle) + dy * Math.cos(cluster.angle);
+
+  return (
+    (along / (cluster.config.length / 2)) ** 2 + (across / (cluster.config.width / 2)) ** 2 <= 1
+  );
+}
+
+function canHostVein(seed: string, position: WorldCoordinate, placed: WorldCoordinate[]): boolean {
+  if (!validateResourcePosition(position, placed, GEOLOGY_CONFIG.VEIN_SPACING)) return false;
+
+  const { terrain } = classifyBiome(seed, position.x, position.y);
+  return (
+    TERRAIN_CONFIGS[terrain].resources.minable &&
+    getFreshwaterAt(seed, position.x, position.y) === HydrologyFeature.NONE
+  );
+}
+
+/**
+ * Try a few random points from `sample` until one can host a vein
+ */
+function placeVein(
+  seed: string,
+  cluster: GeologicalCluster,
+  random: RandomFn,
+  sample: () => WorldCoordinate,
+): WorldCoordinate | null {
+  const placed = cluster.veins.map(({ x, y }) => ({ x, y }));
+
+  for (let attempt = 0; attempt < GEOLOGY_CONFIG.PLACEMENT_ATTEMPTS; attempt++) {
+    const position = sample();
+    if (isInCluster(cluster, position.x, position.y) && canHostVein(seed, position, placed)) {
+      return position;
+    }
+  }
+
+  return null;
+}
+
+function layoutCluster(seed: string, regionX: number, regionY: number): GeologicalCluster | null {
+  const random = createSeededRandom(deriveSeed(seed, 'geology', regionX, regionY));
+  if (random() >= GEOLOGY_CONFIG.CLUSTER_CHANCE) return null;
+
+  const config = pickClusterConfig(random);
+  const { REGION_SIZE } = GEOLOGY_CONFIG;
+  const centerX = regionX * REGION_SIZE + Math.floor(random() * REGION_SIZE);
+  const centerY = regionY * REGION_SIZE + Math.floor(random() * REGION_SIZE);
+
+  if (!config.terrains.includes(classifyBiome(seed, centerX, centerY).terrain)) return null;
+
+  const cluster: GeologicalCluster = {
+    id: `${config.formation}:${regionX}:${regionY}`,
+    config,
+    centerX,
+    centerY,
+    angle: random() * Math.PI,
+    veins: [],
+  };
+
+  // The first primary sits at the center; the rest anywhere in the ellipse
+  const primaryCount = randomInt(random, config.primaryVeins.min, config.primaryVeins.max);
+  for (let i = 0; i < primaryCount; i++) {
+    const position = placeVein(seed, cluster, random, () => {
+      if (i === 0) return { x: centerX, y: centerY };
+
+      const radius = Math.sqrt(random());
+      const theta = random() * Math.PI * 2;
+      const along = (radius * Math.cos(theta) * config.length) / 2;
+      const across = (radius * Math.sin(theta) * config.width) / 2;
+      return {
+        x: Math.round(centerX + along * Math.cos(cluster.angle) - across * Math.sin(cluster.angle)),
+        y: Math.round(centerY + along * Math.sin(cluster.angle) + across * Math.cos(cluster.angle)),
+      };
+    });
+
+    if (position) {
+      const resourceType =
+        config.primaryResources[Math.floor(random() * config.primaryResources.length)]!;
+      cluster.veins.push({ ...position, resourceType, role: 'primary' });
+    }
+  }
+
+  const primaries = [...cluster.veins];
+  if (primaries.length === 0) return null;
+
+  const secondaryCount = randomInt(random, config.secondaryVeins.min, config.secondaryVeins.max);
+  for (let i = 0; i < secondaryCount; i++) {
+    const primary = primaries[Math.floor(random() * primaries.length)]!;
+    const associated = RESOURCE_CONFIGS[primary.resourceType].associatedResources;
+    if (associated.length === 0) continue;
+
+    const position = placeVein(seed, cluster, random, () => {
+      const distance = GEOLOGY_CONFIG.VEIN_SPACING + random() * GEOLOGY_CONFIG.SECONDARY_SPREAD;
+      const theta = random() * Math.PI * 2;
+      return {
+        x: Math.round(primary.x + distance * Math.cos(theta)),
+        y: Math.round(primary.y + distance * Math.sin(theta)),
+      };
+    });
+
+    if (position) {
+      const resourceType = associated[Math.floor(random() * associated.length)]!;
+      cluster.veins.push({ ...position, resourceType, role: 'secondary' });
+    }
+  }
+
+  return cluster;
+}
+
+function getRegionCluster(
+  seed: string,
+  regionX: number,
+  regionY: number,
+): GeologicalCluster | null {
+  const cacheKey = `${seed}:${regionX},${regionY}`;
+  if (regionClusterCache.has(cacheKey)) {
+    const cached = regionClusterCache.get(cacheKey) ?? null;
+    regionClusterCache.delete(cacheKey);
+    regionClusterCache.set(cacheKey, cached);
+    return cached;
+  }
+
+  const cluster = layoutCluster(seed, regionX, regionY);
+  regionClusterCache.set(cacheKey, cluster);
+  if (regionClusterCache.size > GEOLOGY_CONFIG.MAX_CACHED_REGIONS) {
+    regionClusterCache.delete(regionClusterCache.keys().next().value!);
+  }
+
+  return cluster;
+}
+
+/**
+ * Every cluster whose area can reach the given world cell
+ */
+export function getClustersNear(seed: string, worldX: number, worldY: number): GeologicalCluster[] {
+  const regionX = Math.floor(worldX / GEOLOGY_CONFIG.REGION_SIZE);
+  const regionY = Math.floor(worldY / GEOLOGY_CONFIG.REGION_SIZE);
+  const clusters: GeologicalCluster[] = [];
+
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const cluster = getRegionCluster(seed, regionX + dx, regionY + dy);
+      if (cluster) clusters.push(cluster);
+    }
+  }
+
+  return clusters;
+}
+
+/**
+ * Cluster veins whose position falls inside a chunk, with the cluster each belongs to
+ */
+export function getClusterVeinsInChunk(
+  seed: string,
+  chunkX: number,
+  chunkY: number,
+  chunkSize: number = 16,
+): Array<{ cluster: GeologicalCluster; vein: ClusterVein }> {
+  const minX = chunkX * chunkSize;
+  const minY = chunkY * chunkSize;
+
+  return getClustersNear(seed, minX, minY).flatMap((cluster) =>
+    cluster.veins
+      .filter(
+        (vein) =>
+          vein.x >= minX &&
+          vein.x < minX + chunkSize &&
+          vein.y >= minY &&
+          vein.y < minY + chunkSize,
+      )
+      .map((vein) => ({ cluster, vein })),
+  );
+}
+
+/**
+ * Names of the clusters a world cell lies in, e.g. ['Porphyry district']
+ */
+export function getGeologicalFeaturesAt(seed: string, worldX: number, worldY: number): string[] {
+  return getClustersNear(seed, worldX, worldY)
+    .filter((cluster) => isInCluster(cluster, worldX, worldY))
+    .map((cluster) => cluster.config.name);
+}
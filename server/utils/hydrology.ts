@@ -0,0 +1,312 @@
+import { TERRAIN_CONFIGS } from '~/config/terrain.config';
+import {
+  classifyBiome,
+  getElevationAt,
+  getTerrainNoiseValues,
+} from '~~/server/utils/terrain-generator';
+import { createSeededRandom, deriveSeed } from '~~/server/utils/seeded-random';
+import { ExtendedTerrainType, HydrologyFeature } from '#shared/types/world';
+
+/**
+ * Hydrology System
+ *
+ * Rivers are traced downhill along the elevation noise from sources picked per region, so a
+ * river is a pure function of the seed and the region it starts in and carries on across chunk
+ * borders unchanged. A river ends when it reaches the ocean or joins other water; one that runs
+ * into a basin fills it into a lake, and the first flat stretch it crosses pools into a lake it
+ * then flows out of. Coastline is land bordering the ocean.
+ *
+ * A river plus the lake at its end stays within MAX_RIVER_LENGTH + LAKE_MAX_CELLS of its source.
+ * With WATER_SEARCH_RADIUS added that is still less than a region, so the regions around a cell
+ * hold every river that can reach it or any cell a distance search looks at.
+ */
+
+export const HYDROLOGY_CONFIG = {
+  // Cells per side of a hydrology region
+  REGION_SIZE: 512,
+  // Candidate river sources tried per region; only high, wet enough cells become rivers
+  SOURCE_ATTEMPTS: 12,
+  SOURCE_MIN_ELEVATION: 0.35,
+  SOURCE_MIN_MOISTURE: -0.2,
+  MAX_RIVER_LENGTH: 352,
+  // A river pools into a lake where it drops less than this over one cell
+  LAKE_FLAT_DROP: 0.0008,
+  // Cells within this much elevation of the water level flood into a lake
+  LAKE_DEPTH: 0.003,
+  LAKE_MAX_CELLS: 96,
+  // How far distance-to-water looks before giving up, in cells
+  WATER_SEARCH_RADIUS: 48,
+  MAX_CACHED_REGIONS: 64,
+} as const;
+
+// Above this elevation the biome classifier can never pick OCEAN, so the full check is skipped
+const OCEAN_ELEVATION_LIMIT =
+  TERRAIN_CONFIGS[ExtendedTerrainType.OCEAN].elevation.max +
+  TERRAIN_CONFIGS[ExtendedTerrainType.OCEAN].elevation.variance;
+
+const NEIGHBOURS = [
+  [-1, -1],
+  [0, -1],
+  [1, -1],
+  [-1, 0],
+  [1, 0],
+  [-1, 1],
+  [0, 1],
+  [1, 1],
+] as const;
+
+const ORTHOGONAL_NEIGHBOURS = [
+  [0, -1],
+  [-1, 0],
+  [1, 0],
+  [0, 1],
+] as const;
+
+type FreshwaterMap = Map<string, HydrologyFeature>;
+
+// Traced regions, most recently used last
+const regionWaterCache = new Map<string, FreshwaterMap>();
+
+function cellKey(worldX: number, worldY: number): string {
+  return `${worldX},${worldY}`;
+}
+
+function isOceanAt(seed: string, worldX: number, worldY: number): boolean {
+  if (getElevationAt(seed, worldX, worldY) > OCEAN_ELEVATION_LIMIT) return false;
+  return classifyBiome(seed, worldX, worldY).terrain === ExtendedTerrainType.OCEAN;
+}
+
+/**
+ * Flood the cells around a river cell that lie within LAKE_DEPTH of its level
+ */
+function fillLake(
+  seed: string,
+  originX: number,
+  originY: number,
+  level: number,
+  water: FreshwaterMap,
+): Set<string> {
+  const queue: Array<[number, number]> = [[originX, originY]];
+  const visited = new Set<string>([cellKey(originX, originY)]);
+  const lake = new Set<string>();
+
+  while (queue.length > 0 && lake.size < HYDROLOGY_CONFIG.LAKE_MAX_CELLS) {
+    const [x, y] = queue.shift()!;
+    const key = cellKey(x, y);
+    water.set(key, HydrologyFeature.LAKE);
+    lake.add(key);
+
+    for (const [dx, dy] of ORTHOGONAL_NEIGHBOURS) {
+      const neighbourKey = cellKey(x + dx, y + dy);
+      if (visited.has(neighbourKey)) continue;
+      visited.add(neighbourKey);
+
+      const elevation = getElevationAt(seed, x + dx, y + dy);
+      if (Math.abs(elevation - level) <= HYDROLOGY_CONFIG.LAKE_DEPTH) {
+        queue.push([x + dx, y + dy]);
+      }
+    }
+  }
+
+  return lake;
+}
+
+/**
+ * Follow the steepest descent from a source until the river meets water or fills a basin
+ */
+function traceRiver(seed: string, sourceX: number, sourceY: number, water: FreshwaterMap): void {
+  let x = sourceX;
+  let y = sourceY;
+  let elevation = getElevationAt(seed, x, y);
+  let lake: Set<string> | null = null;
+
+  for (let length = 0; length < HYDROLOGY_CONFIG.MAX_RIVER_LENGTH; length++) {
+    const key = cellKey(x, y);
+    if (isOceanAt(seed, x, y)) return;
+
+    // The river runs on through its own lake; any other water it meets, it joins
+    if (!lake?.has(key)) {
+      if (water.has(key)) return;
+      water.set(key, HydrologyFeature.RIVER);
+    }
+
+    let next: [number, number] | null = null;
+    let nextElevation = elevation;
+    for (const [dx, dy] of NEIGHBOURS) {
+      const neighbourElevation = getElevationAt(seed, x + dx, y + dy);
+      if (neighbourElevation < nextElevation) {
+        next = [x + dx, y + dy];
+        nextElevation = neighbourElevation;
+      }
+    }
+
+    if (!next) {
+      fillLake(seed, x, y, elevation, water);
+      return;
+    }
+
+    if (!lake && elevation - nextElevation < HYDROLOGY_CONFIG.LAKE_FLAT_DROP) {
+      lake = fillLake(seed, x, y, elevation, water);
+    }
+
+    [x, y] = next;
+    elevation = nextElevation;
+  }
+}
+
+/**
+ * Rivers and lakes of every river that starts in a region, traced once and cached
+ */
+function getRegionWater(seed: string, regionX: number, regionY: number): FreshwaterMap {
+  const cacheKey = `${seed}:${regionX},${regionY}`;
+  const cached = regionWaterCache.get(cacheKey);
+  if (cached) {
+    regionWaterCache.delete(cacheKey);
+    regionWaterCache.set(cacheKey, cached);
+    return cached;
+  }
+
+  const { REGION_SIZE } = HYDROLOGY_CONFIG;
+  const random = createSeededRandom(deriveSeed(seed, 'hydrology', regionX, regionY));
+  const water: FreshwaterMap = new Map();
+
+  for (let attempt = 0; attempt < HYDROLOGY_CONFIG.SOURCE_ATTEMPTS; attempt++) {
+    const sourceX = regionX * REGION_SIZE + Math.floor(random() * REGION_SIZE);
+    const sourceY = regionY * REGION_SIZE + Math.floor(random() * REGION_SIZE);
+    const { elevation, moisture } = getTerrainNoiseValues(seed, sourceX, sourceY);
+
+    if (
+      elevation >= HYDROLOGY_CONFIG.SOURCE_MIN_ELEVATION &&
+      moisture >= HYDROLOGY_CONFIG.SOURCE_MIN_MOISTURE
+    ) {
+      traceRiver(seed, sourceX, sourceY, water);
+    }
+  }
+
+  regionWaterCache.set(cacheKey, water);
+  if (regionWaterCache.size > HYDROLOGY_CONFIG.MAX_CACHED_REGIONS) {
+    regionWaterCache.delete(regionWaterCache.keys().next().value!);
+  }
+
+  return water;
+}
+
+/**
+ * Freshwater maps of the regions whose rivers can reach the given region
+ */
+function getNearbyRegionWater(seed: string, regionX: number, regionY: number): FreshwaterMap[] {
+  const maps: FreshwaterMap[] = [];
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      maps.push(getRegionWater(seed, regionX + dx, regionY + dy));
+    }
+  }
+  return maps;
+}
+
+function getRegion(worldX: number, worldY: number): { regionX: number; regionY: number } {
+  return {
+    regionX: Math.floor(worldX / HYDROLOGY_CONFIG.REGION_SIZE),
+    regionY: Math.floor(worldY / HYDROLOGY_CONFIG.REGION_SIZE),
+  };
+}
+
+function getFreshwater(maps: FreshwaterMap[], worldX: number, worldY: number): HydrologyFeature {
+  const key = cellKey(worldX, worldY);
+  for (const map of maps) {
+    const feature = map.get(key);
+    if (feature) return feature;
+  }
+  return HydrologyFeature.NONE;
+}
+
+/**
+ * River or lake at a world cell, or NONE
+ */
+export function getFreshwaterAt(seed: string, worldX: number, worldY: number): HydrologyFeature {
+  const { regionX, regionY } = getRegion(worldX, worldY);
+  return getFreshwater(getNearbyRegionWater(seed, regionX, regionY), worldX, worldY);
+}
+
+/**
+ * Water features of every cell in a chunk, indexed [cellY][cellX]. Takes the chunk's terrain so
+ * coastline only needs the classifier for the ring of cells just outside the chunk.
+ */
+export function generateChunkWater(
+  seed: string,
+  chunkX: number,
+  chunkY: number,
+  terrain: ExtendedTerrainType[][],
+  chunkSize: number = 16,
+): HydrologyFeature[][] {
+  const originX = chunkX * chunkSize;
+  const originY = chunkY * chunkSize;
+  const { regionX, regionY } = getRegion(originX, originY);
+  const maps = getNearbyRegionWater(seed, regionX, regionY);
+
+  const isOcean = (cellX: number, cellY: number): boolean => {
+    const inChunk = terrain[cellY]?.[cellX];
+    return inChunk
+      ? inChunk === ExtendedTerrainType.OCEAN
+      : isOceanAt(seed, originX + cellX, originY + cellY);
+  };
+
+  const water: HydrologyFeature[][] = [];
+
+  for (let cellY = 0; cellY < chunkSize; cellY++) {
+    const row: HydrologyFeature[] = [];
+
+    for (let cellX = 0; cellX < chunkSize; cellX++) {
+      if (isOcean(cellX, cellY)) {
+        row.push(HydrologyFeature.NONE);
+        continue;
+      }
+
+      const freshwater = getFreshwater(maps, originX + cellX, originY + cellY);
+      if (freshwater !== HydrologyFeature.NONE) {
+        row.push(freshwater);
+        continue;
+      }
+
+      const bordersOcean = ORTHOGONAL_NEIGHBOURS.some(([dx, dy]) =>
+        isOcean(cellX + dx, cellY + dy),
+      );
+      row.push(bordersOcean ? HydrologyFeature.COAST : HydrologyFeature.NONE);
+    }
+
+    water.push(row);
+  }
+
+  return water;
+}
+
+/**
+ * Straight-line distance in cells from a world cell to the nearest river, lake or ocean.
+ * Searches outwards ring by ring and returns WATER_SEARCH_RADIUS when nothing is that close.
+ */
+export function getDistanceToWater(seed: string, worldX: number, worldY: number): number {
+  const radius = HYDROLOGY_CONFIG.WATER_SEARCH_RADIUS;
+  const { regionX, regionY } = getRegion(worldX, worldY);
+  const maps = getNearbyRegionWater(seed, regionX, regionY);
+
+  const isWater = (x: number, y: number) =>
+    getFreshwater(maps, x, y) !== HydrologyFeature.NONE || isOceanAt(seed, x, y);
+
+  let nearest: number = radius;
+
+  // Every cell on ring r is at least r away, so once r reaches the best distance nothing closer remains
+  for (let ring = 0; ring < nearest; ring++) {
+    for (let dy = -ring; dy <= ring; dy++) {
+      for (let dx = -ring; dx <= ring; dx++) {
+        if (Math.max(Math.abs(dx), Math.abs(dy)) !== ring) continue;
+
+        const distance = Math.hypot(dx, dy);
+        if (distance < nearest && isWater(worldX + dx, worldY + dy)) {
+          nearest = distance;
+        }
+      }
+    }
+  }
+
+  return Math.round(nearest * 10) / 10;
+}
@@ -0,0 +1,59 @@
+import { asc, inArray } from 'drizzle-orm';
+import { players, type Player } from '~~/server/database/schema';
+import type { DbTransaction } from '~~/server/services/ProductionService';
+
+export type Inventory = Record<string, number>;
+
+/**
+ * Return a copy of `inventory` with `quantity` units of `resourceType` added
+ */
+export function addToInventory(inventory: Inventory, resourceType: string, quantity: number) {
+  return {
+    ...inventory,
+    [resourceType]: (inventory[resourceType] ?? 0) + quantity,
+  };
+}
+
+/**
+ * Return a copy of `inventory` with `quantity` units of `resourceType` removed.
+ * Throws 409 when the player doesn't hold enough; emptied entries are dropped.
+ */
+export function takeFromInventory(inventory: Inventory, resourceType: string, quantity: number) {
+  const available = inventory[resourceType] ?? 0;
+
+  if (available < quantity) {
+    throw createError({
+      statusCode: 409,
+      statusMessage: `Not enough ${resourceType} in inventory`,
+      data: { resourceType, requested: quantity, available },
+    });
+  }
+
+  const { [resourceType]: _removed, ...rest } = inventory;
+  const remaining = available - quantity;
+
+  return remaining > 0 ? { ...rest, [resourceType]: remaining } : rest;
+}
+
+export function roundCredits(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Lock player rows in id order so concurrent transactions touching the same players can't deadlock
+ */
+export async function lockPlayers(tx: DbTransaction, playerIds: string[]): Promise<Player[]> {
+  const ids = [...new Set(playerIds)].sort();
+  const rows = await tx
+    .select()
+    .from(players)
+    .where(inArray(players.id, ids))
+    .orderBy(asc(players.id))
+    .for('update');
+
+  if (rows.length !== ids.length) {
+    throw createError({ statusCode: 404, statusMessage: 'Player not found' });
+  }
+
+  return playerIds.map((id) => rows.find((row) => row.id === id)!);
+}
@@ -0,0 +1,92 @@
+import { and, eq } from 'drizzle-orm';
+import { db } from '~~/server/database/connection';
+import type { players } from '~~/server/database/schema';
+import { worlds } from '~~/server/database/schema';
+
+export const PLAYER_SESSION_COOKIE = 'player-session-id';
+
+/**
+ * Get the world new players are assigned to, creating one if no active world exists
+ */
+export async function getDefaultWorld() {
+  const defaultWorld = await db
+    .select()
+    .from(worlds)
+    .where(eq(worlds.isActive, true))
+    .then((rows) => rows[0] || null);
+
+  if (defaultWorld) {
+    return defaultWorld;
+  }
+
+  const [createdWorld] = await db
+    .insert(worlds)
+    .values({
+      name: 'Default World',
+      seed: 'default-seed-' + Math.random().toString(36).substring(7),
+      description: 'Default world for new players',
+      isActive: true,
+    })
+    .returning();
+
+  return createdWorld!;
+}
+
+/**
+ * Look up an active world by id, throwing 404 when it doesn't exist or has been archived
+ */
+export async function getActiveWorld(worldId: string) {
+  const world = await db.query.worlds.findFirst({
+    where: and(eq(worlds.id, worldId), eq(worlds.isActive, true)),
+  });
+
+  if (!world) {
+    throw createError({ statusCode: 404, statusMessage: `World ${worldId} not found` });
+  }
+
+  return world;
+}
+
+type WorldManager = Pick<typeof players.$inferSelect, 'id' | 'role'>;
+
+/**
+ * Throw 403 unless the player is an admin; only admins can create worlds
+ */
+export function assertWorldAdmin(player: WorldManager) {
+  if (player.role !== 'admin') {
+    throw createError({ statusCode: 403, statusMessage: 'Only admins can create worlds' });
+  }
+}
+
+/**
+ * Throw 403 unless the player owns the world or is an admin
+ */
+export function assertCanManageWorld(
+  player: WorldManager,
+  world: Pick<typeof worlds.$inferSelect, 'id' | 'ownerId'>,
+) {
+  if (player.role !== 'admin' && world.ownerId !== player.id) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: `Only the owner of world ${world.id} or an admin can manage it`,
+    });
+  }
+}
+
+/**
+ * Read a single cookie value from a raw `Cookie` header (used where no H3 event is available)
+ */
+export function readCookie(cookieHeader: string | null | undefined, name: string) {
+  if (!cookieHeader) return undefined;
+
+  for (const part of cookieHeader.split(';')) {
+    const separatorIndex = part.indexOf('=');
+    if (separatorIndex === -1) continue;
+
+    if (part.slice(0, separatorIndex).trim() === name) {
+      return decodeURIComponent(part.slice(separatorIndex + 1).trim());
+    }
+  }
+
+  return undefined;
+}
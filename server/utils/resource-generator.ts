@@ -1,16 +1,31 @@
-import { createNoise2D } from 'simplex-noise';
-import { v4 as uuidv4 } from 'uuid';
+import { createNoise2D, type NoiseFunction2D } from 'simplex-noise';
+import { v5 as uuidv5 } from 'uuid';
 import { RESOURCE_CONFIGS } from '~/config/resources.config';
+import { TERRAIN_CONFIGS } from '~/config/terrain.config';
 import {
-  generateTerrainType,
-  getTerrainNoiseValues,
-  generateChunkTerrain,
+  classifyBiome,
+  generateChunkBiomes,
+  type BiomeSample,
 } from '~~/server/utils/terrain-generator';
+import { generateChunkWater, getDistanceToWater, getFreshwaterAt } from '~~/server/utils/hydrology';
+import {
+  getClusterVeinsInChunk,
+  getGeologicalFeaturesAt,
+  type GeologicalCluster,
+} from '~~/server/utils/geology';
+import {
+  createSeededRandom,
+  deriveSeed,
+  hashSeed,
+  type RandomFn,
+} from '~~/server/utils/seeded-random';
+import { getWorldSeed } from '~~/server/utils/world-seed';
 import { getCacheService } from '~~/server/services/CacheService';
 import { getStorageService } from '~~/server/services/StorageService';
 import { db } from '~~/server/database/connection';
-import { resourceVeins } from '~~/server/database/schema';
-import { sql } from 'drizzle-orm';
+import { extractors, resourceClaims, resourceVeins, worldChunks } from '~~/server/database/schema';
+import { eq, sql, type SQL } from 'drizzle-orm';
+import { isError } from 'h3';
 import {
   normalizeWorldCoordinates,
   worldToFullCoordinate,
@@ -19,27 +34,75 @@ import {
   MIN_RESOURCE_DISTANCE,
   type WorldCoordinate,
 } from '#shared/utils/coordinates';
+import { getVeinFootprintRadius } from '#shared/utils/vein-footprint';
 import type {
   ResourceVein,
   ResourceType,
   ResourceGrade,
-  ClimateType,
   EnvironmentalHazard,
   ChunkData,
+  ExtendedTerrainType,
 } from '#shared/types/world';
 import {
   ResourceGrade as ResourceGradeEnum,
-  ClimateType as ClimateTypeEnum,
   EnvironmentalHazard as EnvironmentalHazardEnum,
+  HydrologyFeature,
   ScanLevel as ScanLevelEnum,
 } from '#shared/types/world';
 import { isValidUUID } from '#shared/index';
 
-const resourceDensityNoise = createNoise2D();
-const resourceTypeNoise = createNoise2D();
-const richnessnoise = createNoise2D();
-const sizeNoise = createNoise2D();
-const depthNoise = createNoise2D();
+interface ResourceNoiseFields {
+  density: NoiseFunction2D;
+  type: NoiseFunction2D;
+  richness: NoiseFunction2D;
+  size: NoiseFunction2D;
+  depth: NoiseFunction2D;
+}
+
+// Worlds whose noise fields are kept; fields are cheap to rebuild for a world touched again
+const MAX_CACHED_NOISE_SEEDS = 16;
+
+// Noise fields per world seed, most recently used last
+const resourceNoiseBySeed = new Map<string, ResourceNoiseFields>();
+
+/**
+ * Get (or lazily build) the resource noise fields for a world seed
+ */
+function getResourceNoiseFields(seed: string): ResourceNoiseFields {
+  let fields = resourceNoiseBySeed.get(seed);
+
+  if (fields) {
+    resourceNoiseBySeed.delete(seed);
+  } else {
+    const layer = (name: string) =>
+      createNoise2D(createSeededRandom(deriveSeed(seed, 'resources', name)));
+    fields = {
+      density: layer('density'),
+      type: layer('type'),
+      richness: layer('richness'),
+      size: layer('size'),
+      depth: layer('depth'),
+    };
+  }
+
+  resourceNoiseBySeed.set(seed, fields);
+  if (resourceNoiseBySeed.size > MAX_CACHED_NOISE_SEEDS) {
+    resourceNoiseBySeed.delete(resourceNoiseBySeed.keys().next().value!);
+  }
+
+  return fields;
+}
+
+// Fallback namespace for name-based (v5) vein IDs in worlds without a UUID (e.g. 'default').
+// Real worlds use their own id, so forks sharing a seed still get distinct vein rows.
+const VEIN_ID_NAMESPACE = '6f1c3b52-8d4e-4a57-9b0e-2f6d8a1c7e93';
+
+// Bumped whenever chunk or vein generation changes. Chunks cached or stored by an older generator
+// are regenerated on load, so they don't leave seams against freshly generated neighbours.
+export const CHUNK_GENERATOR_VERSION = '3.7.0';
+
+// Generated veins carry a fixed timestamp so regenerating a chunk is byte-for-byte identical
+const GENERATION_EPOCH = new Date(0).toISOString();
 
 const RESOURCE_GENERATION_CONFIG = {
   BASE_RESOURCE_PROBABILITY: 0.15,
@@ -56,6 +119,21 @@ const RESOURCE_GENERATION_CONFIG = {
   COMMON_MULTIPLIER: 1.5,
   RARE_MULTIPLIER: 0.3,
   ULTRA_RARE_MULTIPLIER: 0.1,
+
+  // Weighting of a resource on terrain that lists it, and on terrain whose geology hosts
+  // (or doesn't host) any of its formations
+  TERRAIN_PREFERRED_MULTIPLIER: 3,
+  FORMATION_MATCH_MULTIPLIER: 2,
+  FORMATION_MISMATCH_MULTIPLIER: 0.5,
+
+  // Acidic groundwater only builds up this close to surface water, in cells
+  ACIDIC_WATER_RANGE: 12,
+
+  // Veins within this many cells of each other list one another as nearby, across chunk borders
+  NEARBY_VEIN_DISTANCE: 8,
+
+  // Chunks whose vein placements are kept; linking a chunk's veins places its neighbours too
+  MAX_CACHED_PLACEMENTS: 256,
 };
 
 /**
@@ -63,34 +141,127 @@ const RESOURCE_GENERATION_CONFIG = {
  */
 async function persistResourceVeinToDatabase(vein: ResourceVein, worldId: string): Promise<void> {
   const { worldX, worldY } = vein.location;
-  const { size, richness, depth } = vein.deposit;
-  const { purity } = vein.quality;
+  const {
+    size,
+    radius: extractionRadius,
+    richness,
+    depth,
+    accessibility,
+    formation,
+  } = vein.deposit;
+  const { purity, grade } = vein.quality;
+  const { terrain, climate, hazards, proximity } = vein.environment;
 
   const normalizedCoords = normalizeWorldCoordinates(worldX, worldY);
-  const extractionRadius = Math.sqrt(size) * 10;
 
   const centerPoint = sql`ST_SetSRID(ST_MakePoint(${normalizedCoords.x}, ${normalizedCoords.y}), 4326)`;
   const extractionArea = sql`ST_SetSRID(ST_Buffer(ST_MakePoint(${normalizedCoords.x}, ${normalizedCoords.y}), ${extractionRadius}), 4326)`;
 
   try {
-    await db.insert(resourceVeins).values({
-      worldId,
-      resourceType: vein.type,
-      centerX: normalizedCoords.x,
-      centerY: normalizedCoords.y,
-      radius: extractionRadius,
-      centerPoint,
-      extractionArea,
-      density: richness,
-      quality: purity,
-      depth,
-      isExhausted: false,
-      extractedAmount: vein.extraction.totalExtracted,
-    });
+    await db
+      .insert(resourceVeins)
+      .values({
+        id: vein.id,
+        worldId,
+        resourceType: vein.type,
+        centerX: normalizedCoords.x,
+        centerY: normalizedCoords.y,
+        radius: extractionRadius,
+        centerPoint,
+        extractionArea,
+        density: richness,
+        quality: purity,
+        depth,
+        grade,
+        accessibility,
+        formation,
+        terrain,
+        climate,
+        hazards,
+        nearbyVeins: proximity.nearbyVeins,
+        geologicalFeatures: proximity.geologicalFeatures,
+        distanceToWater: proximity.distanceToWater,
+        seed: vein.metadata.seed,
+        generatorVersion: CHUNK_GENERATOR_VERSION,
+        isExhausted: false,
+        totalReserves: size,
+        extractedAmount: vein.extraction.totalExtracted,
+      })
+      // A vein stored by an older generator takes the current one's attributes; what has been
+      // extracted from it is kept
+      .onConflictDoUpdate({
+        target: resourceVeins.id,
+        set: {
+          resourceType: vein.type,
+          centerX: normalizedCoords.x,
+          centerY: normalizedCoords.y,
+          radius: extractionRadius,
+          centerPoint,
+          extractionArea,
+          density: richness,
+          quality: purity,
+          depth,
+          grade,
+          accessibility,
+          formation,
+          terrain,
+          climate,
+          hazards,
+          nearbyVeins: proximity.nearbyVeins,
+          geologicalFeatures: proximity.geologicalFeatures,
+          distanceToWater: proximity.distanceToWater,
+          seed: vein.metadata.seed,
+          generatorVersion: CHUNK_GENERATOR_VERSION,
+          totalReserves: size,
+        },
+        setWhere: sql`${resourceVeins.generatorVersion} IS DISTINCT FROM ${CHUNK_GENERATOR_VERSION}`,
+      });
   } catch (error) {
     console.error(`Failed to persist resource vein ${vein.id}:`, error);
   }
 }
+
+/**
+ * Matches veins stored by the current generator. Veins from older generators may sit where the
+ * current one places nothing, so spatial queries leave them out.
+ */
+export function isCurrentVein(): SQL {
+  return eq(resourceVeins.generatorVersion, CHUNK_GENERATOR_VERSION);
+}
+
+/**
+ * Delete a chunk's veins from older generators that no extractor or claim uses; the rest are
+ * overwritten when the chunk's veins are persisted again
+ */
+async function removeStaleChunkVeins(
+  worldId: string,
+  chunkX: number,
+  chunkY: number,
+  chunkSize: number,
+): Promise<void> {
+  await db.delete(resourceVeins).where(
+    sql`${resourceVeins.worldId} = ${worldId}
+        AND ${resourceVeins.generatorVersion} IS DISTINCT FROM ${CHUNK_GENERATOR_VERSION}
+        AND ${resourceVeins.centerX} >= ${chunkX * chunkSize}
+        AND ${resourceVeins.centerX} < ${(chunkX + 1) * chunkSize}
+        AND ${resourceVeins.centerY} >= ${chunkY * chunkSize}
+        AND ${resourceVeins.centerY} < ${(chunkY + 1) * chunkSize}
+        AND NOT EXISTS (SELECT 1 FROM ${extractors} WHERE ${extractors.resourceVeinId} = ${resourceVeins.id})
+        AND NOT EXISTS (SELECT 1 FROM ${resourceClaims} WHERE ${resourceClaims.resourceVeinId} = ${resourceVeins.id})`,
+  );
+}
+
+/**
+ * Record a generated chunk in world_chunks so worlds can report how much of them has been generated
+ */
+async function recordGeneratedChunk(worldId: string, chunkX: number, chunkY: number) {
+  if (!isValidUUID(worldId)) {
+    return;
+  }
+
+  await db.insert(worldChunks).values({ worldId, chunkX, chunkY }).onConflictDoNothing();
+}
+
 const chunkGenerationInProgress = new Map<string, Promise<void>>();
 const MAX_CONCURRENT_CHUNK_GENERATIONS = 5;
 let activeGenerations = 0;
@@ -129,13 +300,14 @@ export async function ensureChunksHavePersistedVeins(
                 AND ${resourceVeins.centerX} >= ${minX}
                 AND ${resourceVeins.centerX} <= ${maxX}
                 AND ${resourceVeins.centerY} >= ${minY}
-                AND ${resourceVeins.centerY} <= ${maxY}`,
+                AND ${resourceVeins.centerY} <= ${maxY}
+                AND ${resourceVeins.generatorVersion} = ${CHUNK_GENERATOR_VERSION}`,
           );
         return { chunkX, chunkY, hasVeins: count[0].count > 0 };
       }),
     );
 
-    // Persist veins for chunks that don't have any in the database
+    // Persist veins for chunks with none from the current generator in the database
     const chunksNeedingVeins = existingVeinsPerChunk
       .filter(({ hasVeins }) => !hasVeins)
       .map(({ chunkX, chunkY }) => ({ chunkX, chunkY }));
@@ -193,7 +365,9 @@ export async function generateAndPersistChunkResources(
   chunkSize: number = 16,
   worldId: string = 'default',
 ): Promise<ResourceVein[]> {
-  const resources = generateChunkResources(chunkX, chunkY, chunkSize);
+  const seed = await getWorldSeed(worldId);
+  const resources = generateChunkResources(seed, chunkX, chunkY, chunkSize, worldId);
+  await removeStaleChunkVeins(worldId, chunkX, chunkY, chunkSize);
 
   // Persist all resource veins to database with reduced parallelism to avoid overwhelming connections
   const batchSize = 3;
@@ -206,12 +380,79 @@ export async function generateAndPersistChunkResources(
 }
 
 export function generateChunkResources(
+  seed: string,
   chunkX: number,
   chunkY: number,
   chunkSize: number = 16,
+  worldId: string = 'default',
 ): ResourceVein[] {
-  const resources: ResourceVein[] = [];
+  const resources = getChunkVeinPlacements(seed, chunkX, chunkY, chunkSize).map((placement) => {
+    const fullCoords = worldToFullCoordinate(placement.x, placement.y, chunkSize);
+    return generateResourceVein(
+      seed,
+      worldId,
+      placement.resourceType,
+      placement.x,
+      placement.y,
+      fullCoords.chunkX,
+      fullCoords.chunkY,
+      fullCoords.cellX,
+      fullCoords.cellY,
+      placement.biome,
+      placement.cluster,
+    );
+  });
+
+  linkNearbyVeins(seed, worldId, chunkX, chunkY, chunkSize, resources);
+  return resources;
+}
+
+interface VeinPlacement {
+  x: number;
+  y: number;
+  resourceType: ResourceType;
+  biome: BiomeSample;
+  cluster?: GeologicalCluster;
+}
+
+// Vein placements of recently generated and linked chunks, most recently used last
+const chunkPlacementCache = new Map<string, VeinPlacement[]>();
+
+/**
+ * Where a chunk's veins sit and what they hold, without generating the veins themselves
+ */
+function getChunkVeinPlacements(
+  seed: string,
+  chunkX: number,
+  chunkY: number,
+  chunkSize: number,
+): VeinPlacement[] {
+  const cacheKey = `${seed}:${chunkX},${chunkY}:${chunkSize}`;
+  const cached = chunkPlacementCache.get(cacheKey);
+  if (cached) {
+    chunkPlacementCache.delete(cacheKey);
+    chunkPlacementCache.set(cacheKey, cached);
+    return cached;
+  }
+
+  const placements = placeChunkVeins(seed, chunkX, chunkY, chunkSize);
+  chunkPlacementCache.set(cacheKey, placements);
+  if (chunkPlacementCache.size > RESOURCE_GENERATION_CONFIG.MAX_CACHED_PLACEMENTS) {
+    chunkPlacementCache.delete(chunkPlacementCache.keys().next().value!);
+  }
+
+  return placements;
+}
+
+function placeChunkVeins(
+  seed: string,
+  chunkX: number,
+  chunkY: number,
+  chunkSize: number,
+): VeinPlacement[] {
+  const placements: VeinPlacement[] = [];
   const resourceTypes = Object.keys(RESOURCE_CONFIGS) as ResourceType[];
+  const noise = getResourceNoiseFields(seed);
 
   // Pre-generate potential resource positions to prevent overlaps
   const maxResourcesPerChunk = Math.ceil(
@@ -223,61 +464,137 @@ export function generateChunkResources(
     chunkSize,
     maxResourcesPerChunk,
     MIN_RESOURCE_DISTANCE,
+    createSeededRandom(deriveSeed(seed, 'positions', chunkX, chunkY, chunkSize)),
   );
 
   const existingPositions: WorldCoordinate[] = [];
 
-  for (const position of candidatePositions) {
-    const densityValue = resourceDensityNoise(
-      position.x * RESOURCE_GENERATION_CONFIG.DENSITY_NOISE_SCALE,
-      position.y * RESOURCE_GENERATION_CONFIG.DENSITY_NOISE_SCALE,
-    );
+  // Cluster veins are laid out before anything else claims their cells
+  for (const { cluster, vein } of getClusterVeinsInChunk(seed, chunkX, chunkY, chunkSize)) {
+    placements.push({
+      x: vein.x,
+      y: vein.y,
+      resourceType: vein.resourceType,
+      biome: classifyBiome(seed, vein.x, vein.y),
+      cluster,
+    });
+    existingPositions.push({ x: vein.x, y: vein.y });
+  }
 
-    if (densityValue < RESOURCE_GENERATION_CONFIG.DENSITY_THRESHOLD) {
+  for (const position of candidatePositions) {
+    if (!validateResourcePosition(position, existingPositions, MIN_RESOURCE_DISTANCE)) {
       continue;
     }
 
-    const resourceType = selectResourceType(position.x, position.y, resourceTypes);
-    if (!resourceType) {
+    // Veins aren't placed on terrain that can't be mined, or under rivers and lakes
+    const biome = classifyBiome(seed, position.x, position.y);
+    const terrainResources = TERRAIN_CONFIGS[biome.terrain].resources;
+    if (
+      !terrainResources.minable ||
+      getFreshwaterAt(seed, position.x, position.y) !== HydrologyFeature.NONE
+    ) {
       continue;
     }
 
-    if (!validateResourcePosition(position, existingPositions, MIN_RESOURCE_DISTANCE)) {
+    const densityValue =
+      noise.density(
+        position.x * RESOURCE_GENERATION_CONFIG.DENSITY_NOISE_SCALE,
+        position.y * RESOURCE_GENERATION_CONFIG.DENSITY_NOISE_SCALE,
+      ) * terrainResources.resourceDensityModifier;
+
+    if (densityValue < RESOURCE_GENERATION_CONFIG.DENSITY_THRESHOLD) {
       continue;
     }
 
-    const fullCoords = worldToFullCoordinate(position.x, position.y, chunkSize);
-    const resourceVein = generateResourceVein(
-      resourceType,
+    const resourceType = selectResourceType(
+      noise,
       position.x,
       position.y,
-      fullCoords.chunkX,
-      fullCoords.chunkY,
-      fullCoords.cellX,
-      fullCoords.cellY,
-      densityValue,
+      resourceTypes,
+      biome.terrain,
     );
+    if (!resourceType) {
+      continue;
+    }
 
-    resources.push(resourceVein);
+    placements.push({ x: position.x, y: position.y, resourceType, biome });
     existingPositions.push(position);
   }
 
-  return resources;
+  return placements;
 }
 
 /**
- * Selects a resource type based on world coordinates and rarity
+ * Add every vein within NEARBY_VEIN_DISTANCE of each of the chunk's veins to its nearbyVeins.
+ * Neighbouring chunks are placed, not generated, and their veins referred to by their stable ID.
+ */
+function linkNearbyVeins(
+  seed: string,
+  worldId: string,
+  chunkX: number,
+  chunkY: number,
+  chunkSize: number,
+  veins: ResourceVein[],
+): void {
+  const reach = Math.ceil(RESOURCE_GENERATION_CONFIG.NEARBY_VEIN_DISTANCE / chunkSize);
+  const candidates: Array<{ id: string; x: number; y: number }> = [];
+
+  for (let dy = -reach; dy <= reach; dy++) {
+    for (let dx = -reach; dx <= reach; dx++) {
+      if (dx === 0 && dy === 0) {
+        for (const vein of veins) {
+          candidates.push({ id: vein.id, x: vein.location.worldX, y: vein.location.worldY });
+        }
+        continue;
+      }
+
+      for (const placement of getChunkVeinPlacements(seed, chunkX + dx, chunkY + dy, chunkSize)) {
+        const { x, y } = normalizeWorldCoordinates(placement.x, placement.y);
+        candidates.push({ id: getVeinId(seed, worldId, x, y), x, y });
+      }
+    }
+  }
+
+  for (const vein of veins) {
+    const { nearbyVeins } = vein.environment.proximity;
+
+    for (const other of candidates) {
+      if (other.id === vein.id || nearbyVeins.includes(other.id)) continue;
+
+      const distance = Math.hypot(other.x - vein.location.worldX, other.y - vein.location.worldY);
+      if (distance <= RESOURCE_GENERATION_CONFIG.NEARBY_VEIN_DISTANCE) {
+        nearbyVeins.push(other.id);
+      }
+    }
+  }
+}
+
+/**
+ * Stable ID of the vein at a position, so veins can refer to ones that aren't generated yet
+ */
+function getVeinId(seed: string, worldId: string, worldX: number, worldY: number): string {
+  const coords = normalizeWorldCoordinates(worldX, worldY);
+  const veinSeed = deriveSeed(seed, 'vein', coords.x, coords.y);
+  return uuidv5(veinSeed, isValidUUID(worldId) ? worldId : VEIN_ID_NAMESPACE);
+}
+
+/**
+ * Selects a resource type based on world coordinates and rarity, favouring the resources and
+ * formations of the terrain at the position
  */
 function selectResourceType(
+  noise: ResourceNoiseFields,
   worldX: number,
   worldY: number,
   availableTypes: ResourceType[],
+  terrain: ExtendedTerrainType,
 ): ResourceType | null {
-  const typeNoise = resourceTypeNoise(
+  const typeNoise = noise.type(
     worldX * RESOURCE_GENERATION_CONFIG.TYPE_NOISE_SCALE,
     worldY * RESOURCE_GENERATION_CONFIG.TYPE_NOISE_SCALE,
   );
 
+  const terrainResources = TERRAIN_CONFIGS[terrain].resources;
   const weightedResources: Array<{ type: ResourceType; weight: number }> = [];
 
   for (const type of availableTypes) {
@@ -292,6 +609,16 @@ function selectResourceType(
       weight *= RESOURCE_GENERATION_CONFIG.RARE_MULTIPLIER;
     }
 
+    if (terrainResources.preferredResources.includes(type)) {
+      weight *= RESOURCE_GENERATION_CONFIG.TERRAIN_PREFERRED_MULTIPLIER;
+    }
+
+    weight *= config.preferredFormations.some((formation) =>
+      terrainResources.preferredFormations.includes(formation),
+    )
+      ? RESOURCE_GENERATION_CONFIG.FORMATION_MATCH_MULTIPLIER
+      : RESOURCE_GENERATION_CONFIG.FORMATION_MISMATCH_MULTIPLIER;
+
     weightedResources.push({ type, weight });
   }
 
@@ -314,9 +641,12 @@ function selectResourceType(
 }
 
 /**
- * Generates a complete resource vein with all properties
+ * Generates a complete resource vein with all properties. Veins of a geological cluster take the
+ * cluster's formation and list the rest of the cluster as nearby.
  */
 function generateResourceVein(
+  seed: string,
+  worldId: string,
   resourceType: ResourceType,
   worldX: number,
   worldY: number,
@@ -324,60 +654,64 @@ function generateResourceVein(
   chunkY: number,
   cellX: number,
   cellY: number,
-  _densityValue: number,
+  biome: BiomeSample,
+  cluster?: GeologicalCluster,
 ): ResourceVein {
   const config = RESOURCE_CONFIGS[resourceType];
-  const id = uuidv4();
-
   const normalizedCoords = normalizeWorldCoordinates(worldX, worldY);
+  const noise = getResourceNoiseFields(seed);
 
-  const richnessValue = richnessnoise(
+  // Everything random about a vein is keyed on its position, so IDs survive regeneration
+  const veinSeed = deriveSeed(seed, 'vein', normalizedCoords.x, normalizedCoords.y);
+  const id = getVeinId(seed, worldId, normalizedCoords.x, normalizedCoords.y);
+  const random = createSeededRandom(veinSeed);
+
+  const richnessValue = noise.richness(
     normalizedCoords.x * RESOURCE_GENERATION_CONFIG.RICHNESS_NOISE_SCALE,
     normalizedCoords.y * RESOURCE_GENERATION_CONFIG.RICHNESS_NOISE_SCALE,
   );
   const normalizedRichness = (richnessValue + 1) / 2; // Convert to [0,1]
   const richness = Math.max(0.1, Math.min(1.0, normalizedRichness * config.rarity + 0.2));
 
-  const sizeValue = sizeNoise(
+  const sizeValue = noise.size(
     normalizedCoords.x * RESOURCE_GENERATION_CONFIG.SIZE_NOISE_SCALE,
     normalizedCoords.y * RESOURCE_GENERATION_CONFIG.SIZE_NOISE_SCALE,
   );
   const normalizedSize = (sizeValue + 1) / 2;
   const size = Math.floor(config.minSize + (config.maxSize - config.minSize) * normalizedSize);
 
-  const depthValue = depthNoise(
+  const depthValue = noise.depth(
     normalizedCoords.x * RESOURCE_GENERATION_CONFIG.DEPTH_NOISE_SCALE,
     normalizedCoords.y * RESOURCE_GENERATION_CONFIG.DEPTH_NOISE_SCALE,
   );
   const normalizedDepth = (depthValue + 1) / 2;
   const depth = Math.max(1, Math.min(10, Math.floor(1 + normalizedDepth * 9)));
 
-  // Determine quality grade based on richness
-  const grade: ResourceGrade =
-    richness >= 0.8
-      ? ResourceGradeEnum.ULTRA
-      : richness >= 0.6
-        ? ResourceGradeEnum.HIGH
-        : richness >= 0.4
-          ? ResourceGradeEnum.MEDIUM
-          : ResourceGradeEnum.LOW;
-
-  // Calculate accessibility (inversely related to depth)
-  const accessibility = Math.max(0.1, Math.min(1.0, 1.0 - (depth - 1) / 9));
+  const { terrain, climate } = biome;
+  const grade = getVeinGrade(richness);
+  const accessibility = getVeinAccessibility(depth, terrain);
 
   // Calculate complexity and yield
   const complexity = config.extractionDifficulty;
   const baseYield = size * richness * accessibility;
   const expectedYield = Math.floor(baseYield / complexity);
 
-  // Select random formation type from preferred formations
-  const formation =
-    config.preferredFormations[Math.floor(Math.random() * config.preferredFormations.length)];
+  // Pick among the resource's formations, keeping to those the terrain hosts when there are any
+  const terrainFormations = config.preferredFormations.filter((candidate) =>
+    TERRAIN_CONFIGS[terrain].resources.preferredFormations.includes(candidate),
+  );
+  const formations = terrainFormations.length > 0 ? terrainFormations : config.preferredFormations;
+  const formation = cluster
+    ? cluster.config.formation
+    : formations[Math.floor(random() * formations.length)]!;
+
+  const nearbyVeins = (cluster?.veins ?? [])
+    .map((member) => getVeinId(seed, worldId, member.x, member.y))
+    .filter((memberId) => memberId !== id);
 
   // Generate environmental properties
-  const terrain = generateTerrainType(normalizedCoords.x, normalizedCoords.y);
-  const climate = generateClimate(normalizedCoords.x, normalizedCoords.y);
-  const hazards = generateHazards(resourceType, depth);
+  const distanceToWater = getDistanceToWater(seed, normalizedCoords.x, normalizedCoords.y);
+  const hazards = generateHazards(resourceType, depth, distanceToWater, random);
 
   const resourceVein: ResourceVein = {
     id,
@@ -394,6 +728,7 @@ function generateResourceVein(
 
     deposit: {
       size,
+      radius: getVeinFootprintRadius(size),
       richness,
       depth,
       accessibility,
@@ -411,7 +746,7 @@ function generateResourceVein(
       totalExtracted: 0,
       remainingReserves: size,
       depletion: 0,
-      lastExtracted: new Date().toISOString(),
+      lastExtracted: GENERATION_EPOCH,
       extractionRate: Math.floor(expectedYield / 10), // Base extraction rate
     },
 
@@ -426,15 +761,15 @@ function generateResourceVein(
       climate,
       hazards,
       proximity: {
-        nearbyVeins: [],
-        geologicalFeatures: [],
-        distanceToWater: Math.random() * 1000, // Random distance for now
+        nearbyVeins,
+        geologicalFeatures: getGeologicalFeaturesAt(seed, normalizedCoords.x, normalizedCoords.y),
+        distanceToWater,
       },
     },
 
     metadata: {
-      generated: new Date().toISOString(),
-      seed: Math.floor(normalizedCoords.x * 1000 + normalizedCoords.y), // Reproducible seed
+      generated: GENERATION_EPOCH,
+      seed: hashSeed(veinSeed),
       version: '1.0.0',
       tags: [resourceType, grade, formation],
     },
@@ -444,25 +779,35 @@ function generateResourceVein(
 }
 
 /**
- * Generate climate type based on world coordinates
+ * Quality grade of a vein, based on its richness
  */
-function generateClimate(worldX: number, worldY: number): ClimateType {
-  const noiseValues = getTerrainNoiseValues(worldX, worldY);
-
-  const latitudelike = Math.abs(worldY % 1000) / 1000;
-  const temperatureModifier = noiseValues.temperature;
+export function getVeinGrade(richness: number): ResourceGrade {
+  return richness >= 0.8
+    ? ResourceGradeEnum.ULTRA
+    : richness >= 0.6
+      ? ResourceGradeEnum.HIGH
+      : richness >= 0.4
+        ? ResourceGradeEnum.MEDIUM
+        : ResourceGradeEnum.LOW;
+}
 
-  if (latitudelike < 0.2 || temperatureModifier < -0.3) return ClimateTypeEnum.ARCTIC;
-  if (latitudelike < 0.4) return ClimateTypeEnum.TEMPERATE;
-  if (latitudelike < 0.6 && temperatureModifier > 0.1) return ClimateTypeEnum.TROPICAL;
-  if (latitudelike < 0.8 || noiseValues.moisture < -0.2) return ClimateTypeEnum.ARID;
-  return ClimateTypeEnum.ALPINE;
+/**
+ * Accessibility of a vein, inversely related to its depth (1-10) and scaled by the terrain over it
+ */
+export function getVeinAccessibility(depth: number, terrain?: ExtendedTerrainType): number {
+  const modifier = terrain ? TERRAIN_CONFIGS[terrain].resources.accessibilityModifier : 1;
+  return Math.max(0.1, Math.min(1.0, (1.0 - (depth - 1) / 9) * modifier));
 }
 
 /**
  * Generate environmental hazards based on resource type and depth
  */
-function generateHazards(resourceType: ResourceType, depth: number): EnvironmentalHazard[] {
+function generateHazards(
+  resourceType: ResourceType,
+  depth: number,
+  distanceToWater: number,
+  random: RandomFn,
+): EnvironmentalHazard[] {
   const hazards: EnvironmentalHazard[] = [];
 
   // Add hazards based on resource type
@@ -473,28 +818,35 @@ function generateHazards(resourceType: ResourceType, depth: number): Environment
   // Add hazards based on depth
   if (depth >= 7) {
     hazards.push(EnvironmentalHazardEnum.HIGH_PRESSURE);
-    if (Math.random() < 0.3) hazards.push(EnvironmentalHazardEnum.INSTABILITY);
+    if (random() < 0.3) hazards.push(EnvironmentalHazardEnum.INSTABILITY);
   }
 
-  if (depth >= 5 && Math.random() < 0.2) {
+  if (depth >= 5 && random() < 0.2) {
     hazards.push(EnvironmentalHazardEnum.TOXIC_GASES);
   }
 
-  // Chance of acidic water in certain formations
-  if (Math.random() < 0.1) {
+  // Chance of acidic water where groundwater is fed by nearby surface water
+  if (distanceToWater <= RESOURCE_GENERATION_CONFIG.ACIDIC_WATER_RANGE && random() < 0.25) {
     hazards.push(EnvironmentalHazardEnum.ACIDIC_WATER);
   }
 
   return hazards;
 }
 
+/**
+ * Whether a cached or stored chunk was produced by the current generator
+ */
+function isCurrentChunk(chunk: ChunkData): boolean {
+  return chunk.metadata?.version === CHUNK_GENERATOR_VERSION;
+}
+
 /**
  * Orchestrate the new persistence flow: Cache -> Storage -> Generate
  *
  * This function implements the new multi-tiered architecture:
- * 1. Request chunk from CacheService (Redis). If found, return it.
- * 2. If not in cache, request chunk from StorageService (MinIO). If found, return it AND asynchronously add it to the Redis cache.
- * 3. If not in storage, generate the chunk procedurally.
+ * 1. Request chunk from CacheService (Redis). If found and current, return it.
+ * 2. If not in cache, request chunk from StorageService (MinIO). If found and current, return it AND asynchronously add it to the Redis cache.
+ * 3. If not in storage, or only from an older generator, generate the chunk procedurally from the world seed.
  * 4. Asynchronously save the newly generated chunk to BOTH the StorageService (for persistence) and the CacheService (for subsequent requests).
  */
 export async function generateOrLoadChunk(
@@ -505,19 +857,22 @@ export async function generateOrLoadChunk(
 ): Promise<ChunkData> {
   const cacheService = getCacheService();
   const storageService = getStorageService();
+  let seed: string | undefined;
 
   try {
+    seed = await getWorldSeed(worldId);
+
     // Step 1: Check Redis cache first
     const cachedChunk = await cacheService.getChunk(worldId, chunkX, chunkY);
 
-    if (cachedChunk) {
+    if (cachedChunk && isCurrentChunk(cachedChunk)) {
       return cachedChunk;
     }
 
     // Step 2: Check MinIO storage if not in cache
     const storedChunk = await storageService.getChunk(worldId, chunkX, chunkY);
 
-    if (storedChunk) {
+    if (storedChunk && isCurrentChunk(storedChunk)) {
       // Asynchronously cache the chunk in Redis for future requests
       setImmediate(async () => {
         try {
@@ -533,20 +888,32 @@ export async function generateOrLoadChunk(
       return storedChunk;
     }
 
-    // Step 3: Generate chunk procedurally if not found anywhere
-    const terrain = generateChunkTerrain(chunkX, chunkY, chunkSize);
-    const resources = generateChunkResources(chunkX, chunkY, chunkSize);
+    // Step 3: Generate chunk procedurally if not found anywhere, or only from an older generator.
+    // Saving it below overwrites the stale copies.
+    const staleChunk = cachedChunk ?? storedChunk;
+    if (staleChunk) {
+      console.log(
+        `🔄 [REGENERATE] Chunk (${chunkX}, ${chunkY}) is from generator ${staleChunk.metadata?.version ?? 'unknown'}, regenerating`,
+      );
+    }
+
+    const biomes = generateChunkBiomes(seed, chunkX, chunkY, chunkSize);
+    const waterData = generateChunkWater(seed, chunkX, chunkY, biomes.terrain, chunkSize);
+    const resources = generateChunkResources(seed, chunkX, chunkY, chunkSize, worldId);
 
     const chunkData: ChunkData = {
       coordinate: { chunkX, chunkY },
-      terrain,
+      terrain: biomes.terrain,
+      elevationData: biomes.elevation,
+      climateData: biomes.climate,
+      waterData,
       resources,
       size: chunkSize,
       timestamp: new Date().toISOString(),
       metadata: {
-        version: '3.0.0',
-        generationMethod: 'multi_layer_noise',
-        seed: Math.floor(chunkX * 1000 + chunkY),
+        version: CHUNK_GENERATOR_VERSION,
+        generationMethod: 'biome_classifier',
+        seed: hashSeed(seed),
       },
     };
 
@@ -558,6 +925,8 @@ export async function generateOrLoadChunk(
 
         // Save to Redis cache for subsequent requests
         await cacheService.setChunk(worldId, chunkX, chunkY, chunkData);
+
+        await recordGeneratedChunk(worldId, chunkX, chunkY);
       } catch (error) {
         console.error(`❌ [PERSISTENCE ERROR] Failed to save chunk (${chunkX}, ${chunkY}):`, error);
       }
@@ -565,6 +934,11 @@ export async function generateOrLoadChunk(
 
     return chunkData;
   } catch (error) {
+    // A world that doesn't exist has nothing to fall back to
+    if (isError(error) && error.statusCode === 404) {
+      throw error;
+    }
+
     // Fallback to generation-only if entire persistence layer fails
     console.error(
       `❌ [PERSISTENCE ERROR] Full persistence failure for chunk (${chunkX}, ${chunkY}):`,
@@ -574,19 +948,25 @@ export async function generateOrLoadChunk(
       `🔄 [FALLBACK] Falling back to generation-only mode for chunk (${chunkX}, ${chunkY})`,
     );
 
-    const terrain = generateChunkTerrain(chunkX, chunkY, chunkSize);
-    const resources = generateChunkResources(chunkX, chunkY, chunkSize);
+    // Nothing can be generated without the seed, so a failed seed lookup is tried once more
+    const fallbackSeed = seed ?? (await getWorldSeed(worldId));
+    const biomes = generateChunkBiomes(fallbackSeed, chunkX, chunkY, chunkSize);
+    const waterData = generateChunkWater(fallbackSeed, chunkX, chunkY, biomes.terrain, chunkSize);
+    const resources = generateChunkResources(fallbackSeed, chunkX, chunkY, chunkSize, worldId);
 
     return {
       coordinate: { chunkX, chunkY },
-      terrain,
+      terrain: biomes.terrain,
+      elevationData: biomes.elevation,
+      climateData: biomes.climate,
+      waterData,
       resources,
       size: chunkSize,
       timestamp: new Date().toISOString(),
       metadata: {
-        version: '3.0.0',
-        generationMethod: 'multi_layer_noise_fallback',
-        seed: Math.floor(chunkX * 1000 + chunkY),
+        version: CHUNK_GENERATOR_VERSION,
+        generationMethod: 'biome_classifier_fallback',
+        seed: hashSeed(fallbackSeed),
       },
     };
   }
@@ -0,0 +1,123 @@
+import { RESOURCE_CONFIGS } from '~/config/resources.config';
+import type { resourceVeins } from '~~/server/database/schema';
+import { getVeinAccessibility, getVeinGrade } from '~~/server/utils/resource-generator';
+import { normalizeWorldCoordinates, worldToFullCoordinate } from '#shared/utils/coordinates';
+import {
+  ClimateType,
+  EnvironmentalHazard,
+  ExtendedTerrainType,
+  ScanLevel,
+  type FormationType,
+  type ResourceGrade,
+  type ResourceType,
+  type ResourceVein,
+} from '#shared/types/world';
+
+const VEIN_CHUNK_SIZE = 16;
+
+// The geometry columns aren't needed to describe a vein, so queries may leave them out
+export type ResourceVeinRow = Omit<
+  typeof resourceVeins.$inferSelect,
+  'centerPoint' | 'extractionArea'
+>;
+
+export type VeinDiscovery = ResourceVein['discovery'];
+
+const UNDISCOVERED: VeinDiscovery = {
+  isDiscovered: false,
+  scanLevel: ScanLevel.SURFACE,
+  confidence: 0,
+};
+
+const HAZARDS = new Set<string>(Object.values(EnvironmentalHazard));
+
+/**
+ * Maps a `resource_veins` row to the shared `ResourceVein` shape. Scans, nearby-resource
+ * queries and `DatabaseService` all go through here so they report the same vein the same way.
+ *
+ * Rows persisted before the generated attributes were stored fall back to what can be derived
+ * from their type, richness and depth.
+ */
+export function toResourceVein(
+  row: ResourceVeinRow,
+  discovery: VeinDiscovery = UNDISCOVERED,
+): ResourceVein {
+  const type = row.resourceType as ResourceType;
+  const config = RESOURCE_CONFIGS[type];
+
+  const coords = normalizeWorldCoordinates(row.centerX, row.centerY);
+  const fullCoords = worldToFullCoordinate(coords.x, coords.y, VEIN_CHUNK_SIZE);
+
+  const size = row.totalReserves;
+  const depth = row.depth ?? 1;
+  const accessibility = row.accessibility ?? getVeinAccessibility(depth);
+  const grade = (row.grade as ResourceGrade | null) ?? getVeinGrade(row.density);
+  const formation = (row.formation as FormationType | null) ?? config.preferredFormations[0]!;
+  const complexity = config.extractionDifficulty;
+  const expectedYield = Math.floor((size * row.density * accessibility) / complexity);
+
+  const remainingReserves = Math.max(0, size - row.extractedAmount);
+  const generated = row.createdAt.toISOString();
+
+  return {
+    id: row.id,
+    type,
+    location: {
+      worldX: coords.x,
+      worldY: coords.y,
+      chunkX: fullCoords.chunkX,
+      chunkY: fullCoords.chunkY,
+      cellX: fullCoords.cellX,
+      cellY: fullCoords.cellY,
+    },
+    deposit: {
+      size,
+      radius: row.radius,
+      richness: row.density,
+      depth,
+      accessibility,
+      formation,
+    },
+    quality: {
+      grade,
+      purity: row.quality,
+      complexity,
+      yield: expectedYield,
+    },
+    extraction: {
+      totalExtracted: row.extractedAmount,
+      remainingReserves,
+      depletion: size > 0 ? Math.min(1, row.extractedAmount / size) : 1,
+      // Extraction times aren't tracked per vein, so this is when the vein was persisted
+      lastExtracted: generated,
+      extractionRate: Math.floor(expectedYield / 10),
+    },
+    discovery,
+    environment: {
+      terrain: (row.terrain as ExtendedTerrainType | null) ?? ExtendedTerrainType.PLAINS,
+      climate: (row.climate as ClimateType | null) ?? ClimateType.TEMPERATE,
+      hazards: parseHazards(row.hazards),
+      proximity: {
+        nearbyVeins: parseStrings(row.nearbyVeins),
+        geologicalFeatures: parseStrings(row.geologicalFeatures),
+        distanceToWater: row.distanceToWater ?? 0,
+      },
+    },
+    metadata: {
+      generated,
+      seed: row.seed ?? 0,
+      version: '1.0.0',
+      tags: [type, grade, formation],
+    },
+  };
+}
+
+function parseHazards(value: unknown): EnvironmentalHazard[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((hazard): hazard is EnvironmentalHazard => HAZARDS.has(hazard));
+}
+
+function parseStrings(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((item): item is string => typeof item === 'string');
+}
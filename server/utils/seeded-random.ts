@@ -0,0 +1,44 @@
+/**
+ * Seeded Random Utilities
+ *
+ * Deterministic PRNG helpers so that world generation is a pure function of
+ * the world seed. The same seed produces the same sequence in every process.
+ */
+
+export type RandomFn = () => number;
+
+/**
+ * Hash an arbitrary string seed into a 32-bit unsigned integer (FNV-1a)
+ */
+export function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+}
+
+/**
+ * Derive a namespaced sub-seed so independent generators don't share a sequence
+ */
+export function deriveSeed(seed: string, ...parts: Array<string | number>): string {
+  return [seed, ...parts].join(':');
+}
+
+/**
+ * Create a seeded random function returning values in [0, 1) (mulberry32)
+ */
+export function createSeededRandom(seed: string | number): RandomFn {
+  let state = typeof seed === 'number' ? seed >>> 0 : hashSeed(seed);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,81 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { eq } from 'drizzle-orm';
+import { db } from '~~/server/database/connection';
+import { players, type Player } from '~~/server/database/schema';
+import { PLAYER_SESSION_COOKIE, readCookie } from '~~/server/utils/player-world';
+
+export const STREAM_TOKEN_CONFIG = {
+  TTL_MS: Number(process.env.STREAM_TOKEN_TTL) || 5 * 60 * 1000,
+} as const;
+
+let fallbackSecret: string | null = null;
+
+function getTokenSecret(): string {
+  if (process.env.STREAM_TOKEN_SECRET) return process.env.STREAM_TOKEN_SECRET;
+
+  // Tokens signed with a per-process secret stop verifying after a restart or on another instance
+  if (!fallbackSecret) {
+    fallbackSecret = randomBytes(32).toString('hex');
+    console.warn('STREAM_TOKEN_SECRET is not set; using a random per-process secret');
+  }
+  return fallbackSecret;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getTokenSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * Create a short-lived token that lets a WebSocket connect as a player without its cookie
+ */
+export function createStreamToken(
+  playerId: string,
+  now: Date = new Date(),
+): { token: string; expiresAt: Date } {
+  const expiresAt = new Date(now.getTime() + STREAM_TOKEN_CONFIG.TTL_MS);
+  const payload = `${playerId}.${expiresAt.getTime()}`;
+  return { token: `${payload}.${sign(payload)}`, expiresAt };
+}
+
+/**
+ * Player id a stream token was issued for, or null when it's malformed, forged or expired
+ */
+export function verifyStreamToken(token: string, now: Date = new Date()): string | null {
+  const [playerId, expiresAt, signature] = token.split('.');
+  if (!playerId || !expiresAt || !signature) return null;
+
+  const expected = Buffer.from(sign(`${playerId}.${expiresAt}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  return Number(expiresAt) > now.getTime() ? playerId : null;
+}
+
+/**
+ * Row of the player a stream token was issued for, or null when they no longer exist
+ */
+export async function findStreamPlayer(playerId: string): Promise<Player | null> {
+  const player = await db.query.players.findFirst({ where: eq(players.id, playerId) });
+  return player ?? null;
+}
+
+/**
+ * Resolve the player opening a WebSocket, from a `token` query parameter or the session cookie.
+ * Unlike the API middleware this never creates a player; sockets need an existing one.
+ */
+export async function resolveStreamPlayer(request: {
+  url: string;
+  headers: Headers;
+}): Promise<Player | null> {
+  const token = new URL(request.url, 'http://localhost').searchParams.get('token');
+  if (token) {
+    const playerId = verifyStreamToken(token);
+    return playerId ? findStreamPlayer(playerId) : null;
+  }
+
+  const sessionId = readCookie(request.headers.get('cookie'), PLAYER_SESSION_COOKIE);
+  if (!sessionId) return null;
+
+  const player = await db.query.players.findFirst({ where: eq(players.sessionId, sessionId) });
+  return player ?? null;
+}
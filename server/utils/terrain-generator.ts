@@ -1,19 +1,24 @@
-import { createNoise2D } from 'simplex-noise';
-import type { ExtendedTerrainType } from '#shared/types/world';
-import { ExtendedTerrainType as TerrainTypeEnum } from '#shared/types/world';
+import { createNoise2D, type NoiseFunction2D } from 'simplex-noise';
+import { TERRAIN_CONFIGS } from '~/config/terrain.config';
+import type { ClimateType, ExtendedTerrainType, TerrainProperties } from '#shared/types/world';
+import {
+  ClimateType as ClimateTypeEnum,
+  ExtendedTerrainType as TerrainTypeEnum,
+} from '#shared/types/world';
+import { createSeededRandom, deriveSeed } from '~~/server/utils/seeded-random';
 
 /**
  * Terrain Generation System
  *
  * Multi-layer terrain generation using Simplex noise with decorrelated offsets
- * for realistic terrain variation. Implements the exact specifications from
- * the terrain system documentation.
+ * for realistic terrain variation. Elevation, moisture and temperature feed a
+ * single biome classifier that picks terrain and climate together, scoring the
+ * terrain types by their TERRAIN_CONFIGS.
+ *
+ * Every noise layer is built from a PRNG derived from the world seed, so a
+ * given seed yields the same planet in every process.
  */
 
-const terrainElevationNoise = createNoise2D();
-const moistureNoise = createNoise2D();
-const temperatureNoise = createNoise2D();
-
 const NOISE_SCALES = {
   ELEVATION: 0.001, // Primary terrain height
   MOISTURE: 0.002, // Vegetation and water distribution
@@ -26,13 +31,22 @@ const NOISE_OFFSETS = {
   TEMPERATURE: { x: 20000, y: 20000 },
 } as const;
 
-const TERRAIN_THRESHOLDS = {
-  OCEAN_ELEVATION: -0.2,
-  MOUNTAIN_ELEVATION: 0.7,
-  HIGH_MOISTURE: 0.1,
-  LOW_MOISTURE: -0.2,
-  HIGH_TEMPERATURE: 0.1,
-  LOW_TEMPERATURE: -0.3,
+// Temperature drops with height, so peaks read colder than the lowlands around them
+const ELEVATION_COOLING = 0.6;
+
+const CLIMATE_THRESHOLDS = {
+  ALPINE_ELEVATION: 0.6,
+  ARCTIC_TEMPERATURE: -0.5,
+  TROPICAL_TEMPERATURE: 0.3,
+  ARID_MOISTURE: -0.3,
+} as const;
+
+// How much each factor counts when scoring a terrain against a cell
+const BIOME_WEIGHTS = {
+  ELEVATION: 3,
+  CLIMATE: 1,
+  MOISTURE: 1,
+  TEMPERATURE: 0.5,
 } as const;
 
 /**
@@ -44,22 +58,60 @@ export interface NoiseValues {
   temperature: number;
 }
 
+interface TerrainNoiseFields {
+  elevation: NoiseFunction2D;
+  moisture: NoiseFunction2D;
+  temperature: NoiseFunction2D;
+}
+
+// Worlds whose noise fields are kept; fields are cheap to rebuild for a world touched again
+const MAX_CACHED_NOISE_SEEDS = 16;
+
+// Noise fields per world seed, most recently used last
+const terrainNoiseBySeed = new Map<string, TerrainNoiseFields>();
+
+/**
+ * Get (or lazily build) the noise fields for a world seed
+ */
+function getTerrainNoiseFields(seed: string): TerrainNoiseFields {
+  let fields = terrainNoiseBySeed.get(seed);
+
+  if (fields) {
+    terrainNoiseBySeed.delete(seed);
+  } else {
+    fields = {
+      elevation: createNoise2D(createSeededRandom(deriveSeed(seed, 'terrain', 'elevation'))),
+      moisture: createNoise2D(createSeededRandom(deriveSeed(seed, 'terrain', 'moisture'))),
+      temperature: createNoise2D(createSeededRandom(deriveSeed(seed, 'terrain', 'temperature'))),
+    };
+  }
+
+  terrainNoiseBySeed.set(seed, fields);
+  if (terrainNoiseBySeed.size > MAX_CACHED_NOISE_SEEDS) {
+    terrainNoiseBySeed.delete(terrainNoiseBySeed.keys().next().value!);
+  }
+
+  return fields;
+}
+
 /**
  * Get raw noise values for a world coordinate
  * Used by resource generation and other systems that need climate data
  */
-export function getTerrainNoiseValues(worldX: number, worldY: number): NoiseValues {
-  const elevation = terrainElevationNoise(
+export function getTerrainNoiseValues(seed: string, worldX: number, worldY: number): NoiseValues {
+  const noise = getTerrainNoiseFields(seed);
+
+  const elevation = noise.elevation(
     (worldX + NOISE_OFFSETS.ELEVATION.x) * NOISE_SCALES.ELEVATION,
     (worldY + NOISE_OFFSETS.ELEVATION.y) * NOISE_SCALES.ELEVATION,
   );
 
-  const moisture = moistureNoise(
+  const moisture = noise.moisture(
     (worldX + NOISE_OFFSETS.MOISTURE.x) * NOISE_SCALES.MOISTURE,
     (worldY + NOISE_OFFSETS.MOISTURE.y) * NOISE_SCALES.MOISTURE,
   );
 
-  const temperature = temperatureNoise(
+  const temperature = noise.temperature(
     (worldX + NOISE_OFFSETS.TEMPERATURE.x) * NOISE_SCALES.TEMPERATURE,
     (worldY + NOISE_OFFSETS.TEMPERATURE.y) * NOISE_SCALES.TEMPERATURE,
   );
@@ -68,48 +120,119 @@ export function getTerrainNoiseValues(worldX: number, worldY: number): NoiseValu
 }
 
 /**
- * Generate terrain type for a single coordinate
- * Implements the exact terrain determination logic from specifications
+ * Terrain, climate and elevation of one cell, classified together from the same noise fields
  */
-export function generateTerrainType(worldX: number, worldY: number): ExtendedTerrainType {
-  const { elevation, moisture, temperature } = getTerrainNoiseValues(worldX, worldY);
+export interface BiomeSample {
+  terrain: ExtendedTerrainType;
+  climate: ClimateType;
+  elevation: number;
+}
 
-  if (elevation < TERRAIN_THRESHOLDS.OCEAN_ELEVATION) {
-    return TerrainTypeEnum.OCEAN;
-  }
+/**
+ * Chunk grids produced by the biome classifier, indexed [cellY][cellX]
+ */
+export interface ChunkBiomes {
+  terrain: ExtendedTerrainType[][];
+  climate: ClimateType[][];
+  elevation: number[][];
+}
 
-  if (elevation > TERRAIN_THRESHOLDS.MOUNTAIN_ELEVATION) {
-    return TerrainTypeEnum.MOUNTAINS;
-  }
+/**
+ * Climate of a cell from its temperature and moisture, with temperature lowered by elevation
+ */
+function classifyClimate({ elevation, moisture, temperature }: NoiseValues): ClimateType {
+  const localTemperature = temperature - Math.max(0, elevation) * ELEVATION_COOLING;
+
+  if (localTemperature < CLIMATE_THRESHOLDS.ARCTIC_TEMPERATURE) return ClimateTypeEnum.ARCTIC;
+  if (elevation >= CLIMATE_THRESHOLDS.ALPINE_ELEVATION) return ClimateTypeEnum.ALPINE;
+  if (moisture < CLIMATE_THRESHOLDS.ARID_MOISTURE) return ClimateTypeEnum.ARID;
+  if (localTemperature > CLIMATE_THRESHOLDS.TROPICAL_TEMPERATURE) return ClimateTypeEnum.TROPICAL;
+  return ClimateTypeEnum.TEMPERATE;
+}
 
-  if (elevation <= 0.2) {
-    if (moisture > TERRAIN_THRESHOLDS.HIGH_MOISTURE) {
-      return TerrainTypeEnum.SWAMP;
-    } else {
-      return TerrainTypeEnum.PLAINS;
-    }
-  }
+/**
+ * How well a terrain fits a cell: its elevation band, preferred climates and the humidity and
+ * temperature it leans towards, all taken from TERRAIN_CONFIGS
+ */
+function scoreTerrain(config: TerrainProperties, noise: NoiseValues, climate: ClimateType): number {
+  const { min, max, variance } = config.elevation;
+  const outside = Math.max(0, min - noise.elevation, noise.elevation - max);
+  const elevationFit = 1 - outside / variance;
+
+  const climateFit = config.climate.preferredClimates.includes(climate) ? 1 : 0;
+  const moistureFit = 1 - Math.abs(noise.moisture - config.climate.humidityModifier) / 2;
+  const temperatureFit = 1 - Math.abs(noise.temperature - config.climate.temperatureModifier) / 2;
+
+  return (
+    elevationFit * BIOME_WEIGHTS.ELEVATION +
+    climateFit * BIOME_WEIGHTS.CLIMATE +
+    moistureFit * BIOME_WEIGHTS.MOISTURE +
+    temperatureFit * BIOME_WEIGHTS.TEMPERATURE
+  );
+}
 
-  if (elevation < 0.5) {
-    if (moisture > TERRAIN_THRESHOLDS.HIGH_MOISTURE) {
-      return TerrainTypeEnum.FOREST;
-    } else {
-      return TerrainTypeEnum.HILLS;
+/**
+ * Classify a single coordinate into terrain and climate
+ * Climate is decided first, then every terrain is scored against the cell and the best fit wins
+ */
+export function classifyBiome(seed: string, worldX: number, worldY: number): BiomeSample {
+  const noise = getTerrainNoiseValues(seed, worldX, worldY);
+  const climate = classifyClimate(noise);
+
+  let terrain = TerrainTypeEnum.PLAINS;
+  let bestScore = -Infinity;
+
+  for (const config of Object.values(TERRAIN_CONFIGS)) {
+    const score = scoreTerrain(config, noise, climate);
+    if (score > bestScore) {
+      bestScore = score;
+      terrain = config.type;
     }
   }
 
-  if (temperature < TERRAIN_THRESHOLDS.LOW_TEMPERATURE) {
-    return TerrainTypeEnum.TUNDRA;
-  }
+  return { terrain, climate, elevation: noise.elevation };
+}
+
+/**
+ * Generate terrain type for a single coordinate
+ */
+export function generateTerrainType(
+  seed: string,
+  worldX: number,
+  worldY: number,
+): ExtendedTerrainType {
+  return classifyBiome(seed, worldX, worldY).terrain;
+}
+
+/**
+ * Generate terrain, climate and elevation grids for a chunk in one pass
+ */
+export function generateChunkBiomes(
+  seed: string,
+  chunkX: number,
+  chunkY: number,
+  chunkSize: number = 16,
+): ChunkBiomes {
+  const biomes: ChunkBiomes = { terrain: [], climate: [], elevation: [] };
+
+  for (let cellY = 0; cellY < chunkSize; cellY++) {
+    const terrainRow: ExtendedTerrainType[] = [];
+    const climateRow: ClimateType[] = [];
+    const elevationRow: number[] = [];
 
-  if (
-    moisture < TERRAIN_THRESHOLDS.LOW_MOISTURE &&
-    temperature > TERRAIN_THRESHOLDS.HIGH_TEMPERATURE
-  ) {
-    return TerrainTypeEnum.DESERT;
+    for (let cellX = 0; cellX < chunkSize; cellX++) {
+      const sample = classifyBiome(seed, chunkX * chunkSize + cellX, chunkY * chunkSize + cellY);
+      terrainRow.push(sample.terrain);
+      climateRow.push(sample.climate);
+      elevationRow.push(sample.elevation);
+    }
+
+    biomes.terrain.push(terrainRow);
+    biomes.climate.push(climateRow);
+    biomes.elevation.push(elevationRow);
   }
 
-  return TerrainTypeEnum.HILLS;
+  return biomes;
 }
 
 /**
@@ -117,21 +240,34 @@ export function generateTerrainType(worldX: number, worldY: number): ExtendedTer
  * Returns ExtendedTerrainType[][] for enhanced terrain system
  */
 export function generateChunkTerrain(
+  seed: string,
   chunkX: number,
   chunkY: number,
   chunkSize: number = 16,
+): ExtendedTerrainType[][] {
+  return generateChunkBiomes(seed, chunkX, chunkY, chunkSize).terrain;
+}
+
+/**
+ * Sample terrain on a coarse grid of `resolution`×`resolution` points `step` cells apart,
+ * starting at the given world cell. Each sample is taken at the center of its step.
+ */
+export function sampleTerrainOverview(
+  seed: string,
+  originX: number,
+  originY: number,
+  step: number,
+  resolution: number,
 ): ExtendedTerrainType[][] {
   const terrain: ExtendedTerrainType[][] = [];
 
-  for (let cellY = 0; cellY < chunkSize; cellY++) {
+  for (let sampleY = 0; sampleY < resolution; sampleY++) {
     const row: ExtendedTerrainType[] = [];
 
-    for (let cellX = 0; cellX < chunkSize; cellX++) {
-      const worldX = chunkX * chunkSize + cellX;
-      const worldY = chunkY * chunkSize + cellY;
-
-      const terrainType = generateTerrainType(worldX, worldY);
-      row.push(terrainType);
+    for (let sampleX = 0; sampleX < resolution; sampleX++) {
+      const worldX = originX + Math.floor((sampleX + 0.5) * step);
+      const worldY = originY + Math.floor((sampleY + 0.5) * step);
+      row.push(generateTerrainType(seed, worldX, worldY));
     }
 
     terrain.push(row);
@@ -145,6 +281,7 @@ export function generateChunkTerrain(
  * Returns number[][] where 0 = water, 1 = land
  */
 export function generateChunkTerrainLegacy(
+  seed: string,
   chunkX: number,
   chunkY: number,
   chunkSize: number = 16,
@@ -158,7 +295,7 @@ export function generateChunkTerrainLegacy(
       const worldX = chunkX * chunkSize + cellX;
       const worldY = chunkY * chunkSize + cellY;
 
-      const terrainType = generateTerrainType(worldX, worldY);
+      const terrainType = generateTerrainType(seed, worldX, worldY);
 
       // Convert to legacy binary: ocean = 0, everything else = 1
       const legacyValue = terrainType === TerrainTypeEnum.OCEAN ? 0 : 1;
@@ -181,23 +318,26 @@ export function isTraversableTerrain(terrainType: ExtendedTerrainType): boolean
 /**
  * Get elevation value for a coordinate (useful for height maps)
  */
-export function getElevationAt(worldX: number, worldY: number): number {
-  const { elevation } = getTerrainNoiseValues(worldX, worldY);
-  return elevation;
+export function getElevationAt(seed: string, worldX: number, worldY: number): number {
+  // Only the elevation layer is sampled; hydrology walks it cell by cell
+  return getTerrainNoiseFields(seed).elevation(
+    (worldX + NOISE_OFFSETS.ELEVATION.x) * NOISE_SCALES.ELEVATION,
+    (worldY + NOISE_OFFSETS.ELEVATION.y) * NOISE_SCALES.ELEVATION,
+  );
 }
 
 /**
  * Get moisture value for a coordinate (useful for vegetation systems)
  */
-export function getMoistureAt(worldX: number, worldY: number): number {
-  const { moisture } = getTerrainNoiseValues(worldX, worldY);
+export function getMoistureAt(seed: string, worldX: number, worldY: number): number {
+  const { moisture } = getTerrainNoiseValues(seed, worldX, worldY);
   return moisture;
 }
 
 /**
  * Get temperature value for a coordinate (useful for climate systems)
  */
-export function getTemperatureAt(worldX: number, worldY: number): number {
-  const { temperature } = getTerrainNoiseValues(worldX, worldY);
+export function getTemperatureAt(seed: string, worldX: number, worldY: number): number {
+  const { temperature } = getTerrainNoiseValues(seed, worldX, worldY);
   return temperature;
 }
@@ -1,7 +1,8 @@
 import { and, eq, sql } from 'drizzle-orm';
 import { db } from '~~/server/database/connection';
 import { extractors, resourceClaims, resourceVeins } from '~~/server/database/schema';
-import { ensureChunksHavePersistedVeins } from '~~/server/utils/resource-generator';
+import { ensureChunksHavePersistedVeins, isCurrentVein } from '~~/server/utils/resource-generator';
+import { getClaimService, isClaimReleasable } from '~~/server/services/ClaimService';
 import { WORLD_CONFIG } from '~~/app/config/world.config';
 import { logger } from '#shared/utils/logger';
 
@@ -16,6 +17,7 @@ export interface ExtractorPlacementInput {
 export interface ExtractorPlacementContext {
   veinId: string;
   veinResourceType: string;
+  veinCenter: { x: number; y: number };
   existingClaimPlayerId: string | null;
 }
 
@@ -86,13 +88,21 @@ export async function validateExtractorPlacement(
   }
 
   const veinsAtLocation = await db
-    .select({ id: resourceVeins.id, resourceType: resourceVeins.resourceType })
+    .select({
+      id: resourceVeins.id,
+      resourceType: resourceVeins.resourceType,
+      centerX: resourceVeins.centerX,
+      centerY: resourceVeins.centerY,
+    })
     .from(resourceVeins)
     .where(
       and(
         eq(resourceVeins.worldId, worldId),
         eq(resourceVeins.resourceType, resourceType),
-        sql`ST_Within(ST_SetSRID(ST_MakePoint(${x}, ${y}), 4326), ${resourceVeins.extractionArea})`,
+        isCurrentVein(),
+        // The exact footprint circle rather than the buffered polygon, so placement agrees with
+        // the ore bodies drawn on the client
+        sql`ST_DWithin(${resourceVeins.centerPoint}, ST_SetSRID(ST_MakePoint(${x}, ${y}), 4326), ${resourceVeins.radius})`,
       ),
     );
 
@@ -105,12 +115,22 @@ export async function validateExtractorPlacement(
     });
   }
 
-  const vein = veinsAtLocation[0];
+  const vein = veinsAtLocation[0]!;
 
-  const existingClaim = await db.query.resourceClaims.findFirst({
+  let existingClaim = await db.query.resourceClaims.findFirst({
     where: eq(resourceClaims.resourceVeinId, vein.id),
   });
 
+  // Don't make placement wait for the next expiry sweep to free an abandoned vein
+  if (
+    existingClaim &&
+    existingClaim.playerId !== playerId &&
+    isClaimReleasable(existingClaim) &&
+    (await getClaimService().releaseClaim(existingClaim.id))
+  ) {
+    existingClaim = undefined;
+  }
+
   if (existingClaim && existingClaim.playerId !== playerId) {
     throwValidationError(409, 'This resource vein is already claimed by another player', {
       veinId: vein.id,
@@ -121,6 +141,7 @@ export async function validateExtractorPlacement(
   return {
     veinId: vein.id,
     veinResourceType: vein.resourceType,
+    veinCenter: { x: vein.centerX, y: vein.centerY },
     existingClaimPlayerId: existingClaim?.playerId ?? null,
   };
 }
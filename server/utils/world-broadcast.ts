@@ -0,0 +1,203 @@
+import type {
+  ChunkCoordinate,
+  ClaimChangedMessage,
+  ExtractorChangedMessage,
+  WorldChangeMessage,
+  WorldExtractorState,
+} from '#shared/types/world';
+import { worldToChunk } from '#shared/utils/coordinates';
+import type { Player } from '~~/server/database/schema';
+
+// Cells per chunk edge on the world stream
+export const BROADCAST_CHUNK_SIZE = 16;
+
+interface BroadcastPeer {
+  id: string;
+  send: (data: Record<string, unknown>) => void;
+}
+
+interface Subscription {
+  peer: BroadcastPeer;
+  worldId: string;
+  chunks: Set<string>;
+}
+
+interface KnownVeins {
+  playerId: string;
+  veinIds: Set<string>;
+}
+
+// Chunks each peer is watching, replaced whenever it streams a new viewport
+const subscriptions = new Map<string, Subscription>();
+
+// Veins each peer has been shown; claim and vein pushes skip peers that haven't discovered the vein
+const knownVeins = new Map<string, KnownVeins>();
+
+// Player each open peer streams as, resolved once at the handshake and kept current on world moves
+const peerPlayers = new Map<string, Player>();
+
+function chunkKey(chunkX: number, chunkY: number): string {
+  return `${chunkX},${chunkY}`;
+}
+
+/**
+ * Subscribe a peer to live changes in the given chunks, replacing its previous subscription
+ */
+export function setPeerSubscription(
+  peer: BroadcastPeer,
+  worldId: string,
+  chunks: ChunkCoordinate[],
+): void {
+  subscriptions.set(peer.id, {
+    peer,
+    worldId,
+    chunks: new Set(chunks.map(({ chunkX, chunkY }) => chunkKey(chunkX, chunkY))),
+  });
+}
+
+/**
+ * Forget a closed peer: its subscription, the veins it was shown and the player it streamed as
+ */
+export function removePeerSubscription(peerId: string): void {
+  subscriptions.delete(peerId);
+  knownVeins.delete(peerId);
+  peerPlayers.delete(peerId);
+}
+
+export function setPeerPlayer(peerId: string, player: Player): void {
+  peerPlayers.set(peerId, player);
+}
+
+export function getPeerPlayer(peerId: string): Player | undefined {
+  return peerPlayers.get(peerId);
+}
+
+/**
+ * Point the open peers of the given players at another world, after a world switch or an archive
+ * moved them. What they watched in the old world no longer applies, so it is dropped until they
+ * stream a viewport in the new one.
+ */
+export function movePeerPlayers(playerIds: string[], worldId: string): void {
+  const moved = new Set(playerIds);
+  for (const [peerId, player] of peerPlayers) {
+    if (!moved.has(player.id)) continue;
+
+    peerPlayers.set(peerId, { ...player, worldId });
+    subscriptions.delete(peerId);
+    knownVeins.delete(peerId);
+  }
+}
+
+/**
+ * Remember veins a peer has been sent, so later changes to them reach it
+ */
+export function rememberPeerVeins(peerId: string, playerId: string, veinIds: string[]): void {
+  const known = knownVeins.get(peerId) ?? { playerId, veinIds: new Set<string>() };
+  for (const veinId of veinIds) known.veinIds.add(veinId);
+  knownVeins.set(peerId, known);
+}
+
+/**
+ * Let every connected peer of a player receive changes to a vein they just discovered
+ */
+export function revealVeinToPlayer(playerId: string, veinId: string): void {
+  for (const known of knownVeins.values()) {
+    if (known.playerId === playerId) known.veinIds.add(veinId);
+  }
+}
+
+function canSeeChange(peerId: string, message: WorldChangeMessage): boolean {
+  if (message.type === 'extractorChanged') return true;
+  return knownVeins.get(peerId)?.veinIds.has(message.veinId) ?? false;
+}
+
+/**
+ * Send a change to every peer in the world watching any of the given chunks, leaving out
+ * claim and vein changes for peers whose player hasn't discovered the vein
+ */
+export function publishWorldChange(
+  worldId: string,
+  message: WorldChangeMessage,
+  alsoChunks: ChunkCoordinate[] = [],
+): void {
+  const keys = [
+    chunkKey(message.chunkX, message.chunkY),
+    ...alsoChunks.map(({ chunkX, chunkY }) => chunkKey(chunkX, chunkY)),
+  ];
+  const payload = { ...message, timestamp: message.timestamp ?? new Date().toISOString() };
+
+  for (const { peer, worldId: peerWorldId, chunks } of subscriptions.values()) {
+    if (peerWorldId !== worldId || !keys.some((key) => chunks.has(key))) continue;
+    if (!canSeeChange(peer.id, message)) continue;
+
+    try {
+      peer.send(payload);
+    } catch (error) {
+      console.error(`Failed to push world change to ${peer.id}:`, error);
+    }
+  }
+}
+
+export function publishExtractorChange(
+  worldId: string,
+  change: ExtractorChangedMessage['change'],
+  extractor: WorldExtractorState,
+  previousPosition?: { x: number; y: number },
+): void {
+  const alsoChunks = previousPosition
+    ? [worldToChunk(previousPosition.x, previousPosition.y, BROADCAST_CHUNK_SIZE)]
+    : [];
+
+  publishWorldChange(
+    worldId,
+    {
+      type: 'extractorChanged',
+      change,
+      ...worldToChunk(extractor.x, extractor.y, BROADCAST_CHUNK_SIZE),
+      extractor: {
+        id: extractor.id,
+        playerId: extractor.playerId,
+        x: extractor.x,
+        y: extractor.y,
+        resourceType: extractor.resourceType,
+        status: extractor.status,
+        efficiency: extractor.efficiency,
+      },
+    },
+    alsoChunks,
+  );
+}
+
+export function publishClaimChange(
+  worldId: string,
+  change: ClaimChangedMessage['change'],
+  claim: { claimId: string; veinId: string; playerId: string },
+  veinCenter: { x: number; y: number },
+): void {
+  publishWorldChange(worldId, {
+    type: 'claimChanged',
+    change,
+    ...worldToChunk(veinCenter.x, veinCenter.y, BROADCAST_CHUNK_SIZE),
+    claimId: claim.claimId,
+    veinId: claim.veinId,
+    playerId: claim.playerId,
+  });
+}
+
+export function publishVeinChange(vein: {
+  id: string;
+  worldId: string;
+  centerX: number;
+  centerY: number;
+  totalReserves: number;
+  extractedAmount: number;
+  isExhausted: boolean;
+}): void {
+  publishWorldChange(vein.worldId, {
+    type: 'veinChanged',
+    ...worldToChunk(vein.centerX, vein.centerY, BROADCAST_CHUNK_SIZE),
+    veinId: vein.id,
+    remainingReserves: Math.max(0, vein.totalReserves - vein.extractedAmount),
+    isExhausted: vein.isExhausted,
+  });
+}
@@ -0,0 +1,35 @@
+import { eq } from 'drizzle-orm';
+import { db } from '~~/server/database/connection';
+import { worlds } from '~~/server/database/schema';
+import { isValidUUID } from '#shared/index';
+
+const worldSeedCache = new Map<string, string>();
+
+/**
+ * Resolve the generation seed stored in `worlds.seed` for a world.
+ * Seeds never change once a world exists, so lookups are cached for the process lifetime.
+ * Worlds that aren't backed by a `worlds` row fall back to using their id as the seed.
+ */
+export async function getWorldSeed(worldId: string): Promise<string> {
+  const cachedSeed = worldSeedCache.get(worldId);
+  if (cachedSeed) {
+    return cachedSeed;
+  }
+
+  if (!isValidUUID(worldId)) {
+    worldSeedCache.set(worldId, worldId);
+    return worldId;
+  }
+
+  const world = await db.query.worlds.findFirst({
+    columns: { seed: true },
+    where: eq(worlds.id, worldId),
+  });
+
+  if (!world) {
+    throw createError({ statusCode: 404, statusMessage: `World ${worldId} not found` });
+  }
+
+  worldSeedCache.set(worldId, world.seed);
+  return world.seed;
+}
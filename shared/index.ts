@@ -2,6 +2,8 @@ import { z } from 'zod/v4';
 
 export * from './types/world';
 export * from './utils/terrain';
+export * from './utils/chunk-codec';
+export * from './utils/scan-levels';
 
 export const uuidSchema = z.uuid({ message: 'Invalid UUID' });
 
@@ -25,6 +25,7 @@ export interface ChunkData {
   terrain: ExtendedTerrainType[][];
   elevationData?: number[][];
   climateData?: ClimateType[][];
+  waterData?: HydrologyFeature[][];
   size: number;
   timestamp?: string;
   resources: ResourceVein[];
@@ -37,6 +38,8 @@ export interface ChunkData {
 
 export interface TerrainGrid {
   cells: ExtendedTerrainType[][];
+  // Rivers, lakes and coastline per cell, laid over the terrain
+  water?: HydrologyFeature[][];
 }
 
 export interface WorldConfig {
@@ -58,13 +61,28 @@ export interface ChunkRequestMessage extends WebSocketMessage {
   chunkY: number;
 }
 
+// How much of each chunk the stream sends: every cell, or only the summary for far zoom levels
+export type ChunkDetail = 'full' | 'summary';
+
 export interface ViewportUpdateMessage extends WebSocketMessage {
   type: 'updateViewport';
+  // Chunks to stream, nearest first
   visibleChunks: ChunkCoordinate[];
+  // Every chunk in view, loaded or not; live changes are pushed for these and their surroundings
+  viewportChunks?: ChunkCoordinate[];
   cameraX?: number;
   cameraY?: number;
+  // Defaults to 'full'; summary viewports are answered with chunkSummary messages
+  detail?: ChunkDetail;
+}
+
+// Stop streaming the viewport with this requestId; without one, whatever is streaming stops
+export interface CancelRequestMessage extends WebSocketMessage {
+  type: 'cancel';
 }
 
+export type ChunkEncoding = 'json' | 'binary';
+
 export interface ChunkDataMessage extends WebSocketMessage {
   type: 'chunkData';
   chunkX: number;
@@ -72,7 +90,10 @@ export interface ChunkDataMessage extends WebSocketMessage {
   data: TerrainGrid;
   elevationData?: number[][];
   climateData?: ClimateType[][];
+  // Only the veins the receiving player has discovered
   resources?: ResourceVein[];
+  // Whether the receiving player has explored this chunk; unexplored chunks render under fog
+  explored?: boolean;
   priority?: 'viewport' | 'low';
   progress?: {
     current: number;
@@ -86,9 +107,32 @@ export interface ChunkDataMessage extends WebSocketMessage {
   };
 }
 
+/**
+ * Dominant terrain of each `blockSize`×`blockSize` block of a chunk, row by row
+ */
+export interface ChunkSummary {
+  blockSize: number;
+  blocks: ExtendedTerrainType[][];
+}
+
+export interface ChunkSummaryMessage extends WebSocketMessage {
+  type: 'chunkSummary';
+  chunkX: number;
+  chunkY: number;
+  summary: ChunkSummary;
+  explored?: boolean;
+  priority?: 'viewport' | 'low';
+  progress?: ChunkDataMessage['progress'];
+}
+
 export interface ConnectedMessage extends WebSocketMessage {
   type: 'connected';
   message?: string;
+  // Player the handshake authenticated and the world it streams
+  playerId?: string;
+  worldId?: string;
+  // Encoding the server will use for chunkData, as negotiated by the `encoding` query parameter
+  encoding?: ChunkEncoding;
 }
 
 export interface ErrorMessage extends WebSocketMessage {
@@ -104,13 +148,71 @@ export interface ViewportCompleteMessage extends WebSocketMessage {
   prefetchChunksStreamed?: number;
 }
 
+export interface ViewportCancelledMessage extends WebSocketMessage {
+  type: 'viewportCancelled';
+  reason: 'superseded' | 'cancelled';
+  chunksStreamed: number;
+  prefetchChunksStreamed?: number;
+  // Chunks that were still queued and never sent
+  droppedChunks: number;
+}
+
+/**
+ * Public view of an extractor, as pushed to every peer watching its chunk
+ */
+export interface WorldExtractorState {
+  id: string;
+  playerId: string;
+  x: number;
+  y: number;
+  resourceType: string;
+  status: string;
+  efficiency: number;
+}
+
+// Live changes pushed to peers subscribed to the chunk the change happened in
+export interface ExtractorChangedMessage extends WebSocketMessage {
+  type: 'extractorChanged';
+  change: 'placed' | 'updated' | 'removed';
+  chunkX: number;
+  chunkY: number;
+  extractor: WorldExtractorState;
+}
+
+export interface ClaimChangedMessage extends WebSocketMessage {
+  type: 'claimChanged';
+  change: 'claimed' | 'downgraded' | 'released';
+  chunkX: number;
+  chunkY: number;
+  claimId: string;
+  veinId: string;
+  playerId: string;
+}
+
+export interface VeinChangedMessage extends WebSocketMessage {
+  type: 'veinChanged';
+  chunkX: number;
+  chunkY: number;
+  veinId: string;
+  remainingReserves: number;
+  isExhausted: boolean;
+}
+
+export type WorldChangeMessage = ExtractorChangedMessage | ClaimChangedMessage | VeinChangedMessage;
+
 export type WorldMessage =
   | ChunkRequestMessage
   | ViewportUpdateMessage
+  | CancelRequestMessage
   | ChunkDataMessage
+  | ChunkSummaryMessage
   | ConnectedMessage
   | ErrorMessage
-  | ViewportCompleteMessage;
+  | ViewportCompleteMessage
+  | ViewportCancelledMessage
+  | ExtractorChangedMessage
+  | ClaimChangedMessage
+  | VeinChangedMessage;
 
 export interface RendererConfig {
   width: number;
@@ -158,6 +260,15 @@ export enum ClimateType {
   ALPINE = 'ALPINE',
 }
 
+// Water a cell carries on top of its terrain; the open sea is OCEAN terrain rather than a feature
+export enum HydrologyFeature {
+  NONE = 'NONE',
+  RIVER = 'RIVER',
+  LAKE = 'LAKE',
+  // Land bordering the ocean
+  COAST = 'COAST',
+}
+
 export enum ExtendedTerrainType {
   OCEAN = 'OCEAN',
   PLAINS = 'PLAINS',
@@ -193,7 +304,11 @@ export interface TerrainProperties {
     humidityModifier: number;
   };
   resources: {
+    // Whether veins can be placed on this terrain at all
+    minable: boolean;
     preferredResources: ResourceType[];
+    // Deposit formations the terrain's geology favours
+    preferredFormations: FormationType[];
     resourceDensityModifier: number;
     accessibilityModifier: number;
   };
@@ -310,6 +425,13 @@ export enum MarketDemand {
   SPECIALIZED = 'SPECIALIZED',
 }
 
+export enum ExtractorStatus {
+  IDLE = 'IDLE',
+  EXTRACTING = 'EXTRACTING',
+  STORAGE_FULL = 'STORAGE_FULL',
+  DEPLETED = 'DEPLETED',
+}
+
 export interface ProximityEffects {
   nearbyVeins: string[];
   geologicalFeatures: string[];
@@ -331,6 +453,8 @@ export interface ResourceVein {
 
   deposit: {
     size: number;
+    // Footprint radius in cells; extractors can be placed anywhere within it of the vein's center
+    radius: number;
     richness: number;
     depth: number;
     accessibility: number;
@@ -352,6 +476,10 @@ export interface ResourceVein {
     extractionRate: number;
   };
 
+  // Player holding the vein's extraction claim, as of when the chunk was sent; live claim changes
+  // keep it current
+  claimedBy?: string;
+
   discovery: {
     isDiscovered: boolean;
     discoveredBy?: string;
@@ -389,6 +517,55 @@ export interface ResourceConfig {
   realWorldUses: string[];
 }
 
+// Formations that generate as multi-chunk clusters rather than lone veins
+export type ClusterFormation =
+  | FormationType.PORPHYRY
+  | FormationType.KIMBERLITE
+  | FormationType.BIF;
+
+export interface GeologicalClusterConfig {
+  formation: ClusterFormation;
+  // Reported in a vein's geologicalFeatures, e.g. 'Porphyry district'
+  name: string;
+  // Relative chance of this cluster being picked where one forms
+  weight: number;
+  // Terrain the cluster's center must be on
+  terrains: ExtendedTerrainType[];
+  primaryResources: ResourceType[];
+  // The cluster is an ellipse of this length and width in cells, at a random angle
+  length: number;
+  width: number;
+  primaryVeins: { min: number; max: number };
+  // Veins of the primaries' associated resources, scattered around them
+  secondaryVeins: { min: number; max: number };
+}
+
+export interface ProcessingStepConfig {
+  step: ProcessingStep;
+  // Fraction of input units that survive the step
+  yieldRate: number;
+  // Per-unit value of the output relative to the input
+  valueMultiplier: number;
+  secondsPerUnit: number;
+  facilityCost: number;
+  // Facilities for the step must be built within this many cells of a river, lake or ocean
+  maxDistanceToWater?: number;
+}
+
+/**
+ * One step of a resource's processing chain. `input` and `output` are inventory product keys:
+ * the raw resource type, or `<resource>:<last step applied>` for processed goods.
+ */
+export interface ProcessingRecipe {
+  resourceType: ResourceType;
+  step: ProcessingStep;
+  input: string;
+  output: string;
+  yieldRate: number;
+  outputValue: number;
+  isFinal: boolean;
+}
+
 export interface ChunkResourceData {
   chunkX: number;
   chunkY: number;
@@ -397,3 +574,54 @@ export interface ChunkResourceData {
   dominantType?: ResourceType;
   lastUpdated: string;
 }
+
+/**
+ * One of a player's past scans, as read back from `player_scans`
+ */
+export interface ScanHistoryEntry {
+  id: string;
+  x: number;
+  y: number;
+  searchRadius: number;
+  scanType: 'resource' | 'geological' | 'full';
+  scanLevel: ScanLevel;
+  veinsFound: number;
+  scannedAt: string;
+}
+
+/**
+ * How thoroughly a player has prospected one chunk
+ */
+export interface ScanCoverageChunk {
+  chunkX: number;
+  chunkY: number;
+  scanCount: number;
+  // Share of the chunk's cells inside at least one scan area, 0-1
+  coverage: number;
+  lastScannedAt: string;
+}
+
+/**
+ * Position of a vein the player has discovered, without its details
+ */
+export interface DiscoveredVeinMarker {
+  id: string;
+  type: ResourceType;
+  x: number;
+  y: number;
+}
+
+/**
+ * Coarse terrain around a point, one sample every `step` cells, for the minimap
+ */
+export interface WorldOverview {
+  worldId: string;
+  // World cell at the top-left corner of the first sample
+  originX: number;
+  originY: number;
+  step: number;
+  resolution: number;
+  terrain: ExtendedTerrainType[][];
+  exploredChunks: ChunkCoordinate[];
+  discoveredVeins: DiscoveredVeinMarker[];
+}
@@ -0,0 +1,562 @@
+import type {
+  ChunkDataMessage,
+  ClimateType,
+  EnvironmentalHazard,
+  ExtendedTerrainType,
+  FormationType,
+  HydrologyFeature,
+  ResourceGrade,
+  ResourceType,
+  ResourceVein,
+  ScanLevel,
+} from '../types/world';
+
+/**
+ * Compact binary encoding for `chunkData` messages on the world stream.
+ *
+ * Layout (little-endian):
+ * - header: magic `0x57`, version, flags (which also carry the fog state), chunkX/chunkY (i32),
+ *   grid size (u8)
+ * - string table: every string in the message, referenced by u16 index
+ * - message fields: requestId, priority, progress, timestamp and metadata
+ * - terrain: a palette of the terrain types present, then each cell's palette index bit-packed
+ * - elevation (optional): min/max (f32) and one u8 per cell quantized between them
+ * - climate and water features (both optional): packed the same way as terrain
+ * - veins: fixed-order records whose enum and id fields point into the string table
+ *
+ * Decoded messages are full `ChunkDataMessage` objects with `metadata.compressionUsed` set.
+ */
+
+export const CHUNK_CODEC_MAGIC = 0x57;
+export const CHUNK_CODEC_VERSION = 5;
+
+const FLAG_ELEVATION = 1 << 0;
+const FLAG_PROGRESS = 1 << 1;
+const FLAG_TIMESTAMP = 1 << 2;
+const FLAG_METADATA = 1 << 3;
+// Set when the message carries `explored` at all; FLAG_EXPLORED is then its value
+const FLAG_FOG = 1 << 4;
+const FLAG_EXPLORED = 1 << 5;
+const FLAG_CLIMATE = 1 << 6;
+const FLAG_WATER = 1 << 7;
+
+const PRIORITIES = [undefined, 'viewport', 'low'] as const;
+const PHASES = [undefined, 'viewport', 'prefetch'] as const;
+
+const NO_STRING = 0xffff;
+
+class ByteWriter {
+  private buffer = new ArrayBuffer(1024);
+  private view = new DataView(this.buffer);
+  private offset = 0;
+
+  private ensure(bytes: number): void {
+    if (this.offset + bytes <= this.buffer.byteLength) return;
+
+    let size = this.buffer.byteLength * 2;
+    while (size < this.offset + bytes) size *= 2;
+
+    const grown = new ArrayBuffer(size);
+    new Uint8Array(grown).set(new Uint8Array(this.buffer, 0, this.offset));
+    this.buffer = grown;
+    this.view = new DataView(grown);
+  }
+
+  u8(value: number): void {
+    this.ensure(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  u16(value: number): void {
+    this.ensure(2);
+    this.view.setUint16(this.offset, value, true);
+    this.offset += 2;
+  }
+
+  i32(value: number): void {
+    this.ensure(4);
+    this.view.setInt32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  f32(value: number): void {
+    this.ensure(4);
+    this.view.setFloat32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  f64(value: number): void {
+    this.ensure(8);
+    this.view.setFloat64(this.offset, value, true);
+    this.offset += 8;
+  }
+
+  bytes(data: Uint8Array): void {
+    this.ensure(data.length);
+    new Uint8Array(this.buffer, this.offset, data.length).set(data);
+    this.offset += data.length;
+  }
+
+  finish(): Uint8Array {
+    return new Uint8Array(this.buffer, 0, this.offset);
+  }
+}
+
+class ByteReader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(private data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  u8(): number {
+    const value = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  u16(): number {
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  i32(): number {
+    const value = this.view.getInt32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  f32(): number {
+    const value = this.view.getFloat32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  f64(): number {
+    const value = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  bytes(length: number): Uint8Array {
+    const slice = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+}
+
+/**
+ * Deduplicating string table; each distinct string is written once and referenced by index
+ */
+class StringTable {
+  private indices = new Map<string, number>();
+  readonly strings: string[] = [];
+
+  ref(value: string | undefined): number {
+    if (value === undefined) return NO_STRING;
+
+    let index = this.indices.get(value);
+    if (index === undefined) {
+      index = this.strings.length;
+      if (index >= NO_STRING) {
+        throw new Error('Chunk message has too many distinct strings to encode');
+      }
+      this.strings.push(value);
+      this.indices.set(value, index);
+    }
+    return index;
+  }
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+function bitsFor(count: number): number {
+  let bits = 1;
+  while (1 << bits < count) bits++;
+  return bits;
+}
+
+/**
+ * Whether a WebSocket payload is a binary chunk frame rather than JSON text
+ */
+export function isBinaryChunkFrame(data: unknown): data is ArrayBuffer | Uint8Array {
+  if (data instanceof ArrayBuffer) return new Uint8Array(data)[0] === CHUNK_CODEC_MAGIC;
+  if (data instanceof Uint8Array) return data[0] === CHUNK_CODEC_MAGIC;
+  return false;
+}
+
+export function encodeChunkMessage(message: ChunkDataMessage): Uint8Array {
+  const cells = message.data.cells;
+  const size = cells.length;
+  const strings = new StringTable();
+
+  // Body is written first so the string table it fills can be placed ahead of it
+  const body = new ByteWriter();
+
+  body.u16(strings.ref(message.requestId));
+  body.u8(PRIORITIES.indexOf(message.priority));
+
+  if (message.progress) {
+    body.u16(message.progress.current);
+    body.u16(message.progress.total);
+    body.u8(PHASES.indexOf(message.progress.phase));
+  }
+
+  if (message.timestamp) body.f64(Date.parse(message.timestamp));
+
+  if (message.metadata) {
+    body.u16(strings.ref(message.metadata.version));
+    body.f32(message.metadata.generationTime);
+  }
+
+  writePaletteGrid(body, strings, cells);
+
+  if (message.elevationData) {
+    const values = message.elevationData.flat();
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const range = max - min || 1;
+
+    body.f32(min);
+    body.f32(max);
+    for (const value of values) {
+      body.u8(Math.round(((value - min) / range) * 255));
+    }
+  }
+
+  if (message.climateData) writePaletteGrid(body, strings, message.climateData);
+  if (message.data.water) writePaletteGrid(body, strings, message.data.water);
+
+  const resources = message.resources ?? [];
+  body.u16(resources.length);
+  for (const vein of resources) writeVein(body, strings, vein);
+
+  const flags =
+    (message.elevationData ? FLAG_ELEVATION : 0) |
+    (message.climateData ? FLAG_CLIMATE : 0) |
+    (message.data.water ? FLAG_WATER : 0) |
+    (message.progress ? FLAG_PROGRESS : 0) |
+    (message.timestamp ? FLAG_TIMESTAMP : 0) |
+    (message.metadata ? FLAG_METADATA : 0) |
+    (message.explored !== undefined ? FLAG_FOG : 0) |
+    (message.explored ? FLAG_EXPLORED : 0);
+
+  const out = new ByteWriter();
+  out.u8(CHUNK_CODEC_MAGIC);
+  out.u8(CHUNK_CODEC_VERSION);
+  out.u8(flags);
+  out.i32(message.chunkX);
+  out.i32(message.chunkY);
+  out.u8(size);
+
+  out.u16(strings.strings.length);
+  for (const value of strings.strings) {
+    const encoded = textEncoder.encode(value);
+    out.u16(encoded.length);
+    out.bytes(encoded);
+  }
+
+  out.bytes(body.finish());
+  return out.finish();
+}
+
+export function decodeChunkMessage(data: ArrayBuffer | Uint8Array): ChunkDataMessage {
+  const reader = new ByteReader(data instanceof Uint8Array ? data : new Uint8Array(data));
+
+  if (reader.u8() !== CHUNK_CODEC_MAGIC) {
+    throw new Error('Not a binary chunk message');
+  }
+  const version = reader.u8();
+  if (version !== CHUNK_CODEC_VERSION) {
+    throw new Error(`Unsupported chunk codec version: ${version}`);
+  }
+
+  const flags = reader.u8();
+  const chunkX = reader.i32();
+  const chunkY = reader.i32();
+  const size = reader.u8();
+
+  const strings: string[] = [];
+  const stringCount = reader.u16();
+  for (let i = 0; i < stringCount; i++) {
+    strings.push(textDecoder.decode(reader.bytes(reader.u16())));
+  }
+  const str = (index: number) => (index === NO_STRING ? undefined : strings[index]);
+
+  const message: ChunkDataMessage = {
+    type: 'chunkData',
+    chunkX,
+    chunkY,
+    data: { cells: [] },
+  };
+
+  if (flags & FLAG_FOG) message.explored = (flags & FLAG_EXPLORED) !== 0;
+
+  const requestId = str(reader.u16());
+  if (requestId !== undefined) message.requestId = requestId;
+
+  const priority = PRIORITIES[reader.u8()];
+  if (priority) message.priority = priority;
+
+  if (flags & FLAG_PROGRESS) {
+    const current = reader.u16();
+    const total = reader.u16();
+    const phase = PHASES[reader.u8()];
+    message.progress = phase ? { current, total, phase } : { current, total };
+  }
+
+  if (flags & FLAG_TIMESTAMP) {
+    message.timestamp = new Date(reader.f64()).toISOString();
+  }
+
+  message.metadata = { version: 'unknown', generationTime: 0, compressionUsed: true };
+  if (flags & FLAG_METADATA) {
+    message.metadata.version = str(reader.u16()) ?? 'unknown';
+    message.metadata.generationTime = reader.f32();
+  }
+
+  message.data.cells = readPaletteGrid<ExtendedTerrainType>(reader, str, size);
+
+  if (flags & FLAG_ELEVATION) {
+    const min = reader.f32();
+    const max = reader.f32();
+    const range = max - min || 1;
+    const quantized = reader.bytes(size * size);
+
+    message.elevationData = [];
+    for (let y = 0; y < size; y++) {
+      const row: number[] = [];
+      for (let x = 0; x < size; x++) {
+        row.push(min + (quantized[y * size + x]! / 255) * range);
+      }
+      message.elevationData.push(row);
+    }
+  }
+
+  if (flags & FLAG_CLIMATE) {
+    message.climateData = readPaletteGrid<ClimateType>(reader, str, size);
+  }
+
+  if (flags & FLAG_WATER) {
+    message.data.water = readPaletteGrid<HydrologyFeature>(reader, str, size);
+  }
+
+  const veinCount = reader.u16();
+  message.resources = [];
+  for (let i = 0; i < veinCount; i++) {
+    message.resources.push(readVein(reader, str));
+  }
+
+  return message;
+}
+
+// A grid of string enum values as a palette of the values present, then bit-packed indices
+function writePaletteGrid(writer: ByteWriter, strings: StringTable, grid: string[][]): void {
+  const palette: string[] = [];
+  const paletteIndex = new Map<string, number>();
+  for (const row of grid) {
+    for (const cell of row) {
+      if (!paletteIndex.has(cell)) {
+        paletteIndex.set(cell, palette.length);
+        palette.push(cell);
+      }
+    }
+  }
+
+  writer.u8(palette.length);
+  for (const value of palette) writer.u16(strings.ref(value));
+
+  const size = grid.length;
+  const bits = bitsFor(palette.length);
+  const packed = new Uint8Array(Math.ceil((size * size * bits) / 8));
+  let bitOffset = 0;
+  for (const row of grid) {
+    for (const cell of row) {
+      const index = paletteIndex.get(cell)!;
+      for (let bit = 0; bit < bits; bit++) {
+        if (index & (1 << bit)) {
+          packed[bitOffset >> 3]! |= 1 << (bitOffset & 7);
+        }
+        bitOffset++;
+      }
+    }
+  }
+  writer.bytes(packed);
+}
+
+function readPaletteGrid<T extends string>(
+  reader: ByteReader,
+  str: (index: number) => string | undefined,
+  size: number,
+): T[][] {
+  const palette: T[] = [];
+  const paletteSize = reader.u8();
+  for (let i = 0; i < paletteSize; i++) {
+    palette.push(str(reader.u16()) as T);
+  }
+
+  const bits = bitsFor(palette.length);
+  const packed = reader.bytes(Math.ceil((size * size * bits) / 8));
+  const grid: T[][] = [];
+  let bitOffset = 0;
+  for (let y = 0; y < size; y++) {
+    const row: T[] = [];
+    for (let x = 0; x < size; x++) {
+      let index = 0;
+      for (let bit = 0; bit < bits; bit++) {
+        if (packed[bitOffset >> 3]! & (1 << (bitOffset & 7))) index |= 1 << bit;
+        bitOffset++;
+      }
+      row.push(palette[index]!);
+    }
+    grid.push(row);
+  }
+  return grid;
+}
+
+function writeStringList(writer: ByteWriter, strings: StringTable, values: string[]): void {
+  writer.u8(values.length);
+  for (const value of values) writer.u16(strings.ref(value));
+}
+
+function readStringList(reader: ByteReader, str: (index: number) => string | undefined): string[] {
+  const values: string[] = [];
+  const count = reader.u8();
+  for (let i = 0; i < count; i++) values.push(str(reader.u16())!);
+  return values;
+}
+
+function writeVein(writer: ByteWriter, strings: StringTable, vein: ResourceVein): void {
+  writer.u16(strings.ref(vein.id));
+  writer.u16(strings.ref(vein.type));
+
+  writer.f64(vein.location.worldX);
+  writer.f64(vein.location.worldY);
+  writer.i32(vein.location.chunkX);
+  writer.i32(vein.location.chunkY);
+  writer.u8(vein.location.cellX);
+  writer.u8(vein.location.cellY);
+
+  writer.f32(vein.deposit.size);
+  writer.f32(vein.deposit.radius);
+  writer.f32(vein.deposit.richness);
+  writer.f32(vein.deposit.depth);
+  writer.f32(vein.deposit.accessibility);
+  writer.u16(strings.ref(vein.deposit.formation));
+
+  writer.u16(strings.ref(vein.quality.grade));
+  writer.f32(vein.quality.purity);
+  writer.f32(vein.quality.complexity);
+  writer.f32(vein.quality.yield);
+
+  writer.f32(vein.extraction.totalExtracted);
+  writer.f32(vein.extraction.remainingReserves);
+  writer.f32(vein.extraction.depletion);
+  writer.u16(strings.ref(vein.extraction.lastExtracted));
+  writer.f32(vein.extraction.extractionRate);
+  writer.u16(strings.ref(vein.claimedBy));
+
+  writer.u8(vein.discovery.isDiscovered ? 1 : 0);
+  writer.u16(strings.ref(vein.discovery.discoveredBy));
+  writer.u16(strings.ref(vein.discovery.discoveredAt));
+  writer.u16(strings.ref(vein.discovery.scanLevel));
+  writer.f32(vein.discovery.confidence);
+
+  writer.u16(strings.ref(vein.environment.terrain));
+  writer.u16(strings.ref(vein.environment.climate));
+  writeStringList(writer, strings, vein.environment.hazards);
+  writeStringList(writer, strings, vein.environment.proximity.nearbyVeins);
+  writeStringList(writer, strings, vein.environment.proximity.geologicalFeatures);
+  writer.f32(vein.environment.proximity.distanceToWater);
+
+  writer.u16(strings.ref(vein.metadata.generated));
+  writer.f64(vein.metadata.seed);
+  writer.u16(strings.ref(vein.metadata.version));
+  writeStringList(writer, strings, vein.metadata.tags);
+}
+
+function readVein(reader: ByteReader, str: (index: number) => string | undefined): ResourceVein {
+  const id = str(reader.u16())!;
+  const type = str(reader.u16()) as ResourceType;
+
+  const location = {
+    worldX: reader.f64(),
+    worldY: reader.f64(),
+    chunkX: reader.i32(),
+    chunkY: reader.i32(),
+    cellX: reader.u8(),
+    cellY: reader.u8(),
+  };
+
+  const deposit = {
+    size: reader.f32(),
+    radius: reader.f32(),
+    richness: reader.f32(),
+    depth: reader.f32(),
+    accessibility: reader.f32(),
+    formation: str(reader.u16()) as FormationType,
+  };
+
+  const quality = {
+    grade: str(reader.u16()) as ResourceGrade,
+    purity: reader.f32(),
+    complexity: reader.f32(),
+    yield: reader.f32(),
+  };
+
+  const extraction = {
+    totalExtracted: reader.f32(),
+    remainingReserves: reader.f32(),
+    depletion: reader.f32(),
+    lastExtracted: str(reader.u16())!,
+    extractionRate: reader.f32(),
+  };
+  const claimedBy = str(reader.u16());
+
+  const isDiscovered = reader.u8() === 1;
+  const discoveredBy = str(reader.u16());
+  const discoveredAt = str(reader.u16());
+  const discovery: ResourceVein['discovery'] = {
+    isDiscovered,
+    scanLevel: str(reader.u16()) as ScanLevel,
+    confidence: reader.f32(),
+  };
+  if (discoveredBy !== undefined) discovery.discoveredBy = discoveredBy;
+  if (discoveredAt !== undefined) discovery.discoveredAt = discoveredAt;
+
+  const environment = {
+    terrain: str(reader.u16()) as ExtendedTerrainType,
+    climate: str(reader.u16()) as ClimateType,
+    hazards: readStringList(reader, str) as EnvironmentalHazard[],
+    proximity: {
+      nearbyVeins: readStringList(reader, str),
+      geologicalFeatures: readStringList(reader, str),
+      distanceToWater: reader.f32(),
+    },
+  };
+
+  const metadata = {
+    generated: str(reader.u16())!,
+    seed: reader.f64(),
+    version: str(reader.u16())!,
+    tags: readStringList(reader, str),
+  };
+
+  const vein: ResourceVein = {
+    id,
+    type,
+    location,
+    deposit,
+    quality,
+    extraction,
+    discovery,
+    environment,
+    metadata,
+  };
+  if (claimedBy !== undefined) vein.claimedBy = claimedBy;
+  return vein;
+}
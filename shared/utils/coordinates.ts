@@ -210,6 +210,7 @@ export function generateChunkResourcePositions(
   chunkSize: number,
   maxResources: number,
   minDistance: number = MIN_RESOURCE_DISTANCE,
+  random: () => number = Math.random,
 ): WorldCoordinate[] {
   const chunkOrigin = chunkToWorld(chunkX, chunkY, chunkSize);
   const positions: WorldCoordinate[] = [];
@@ -217,8 +218,8 @@ export function generateChunkResourcePositions(
 
   let attempts = 0;
   while (positions.length < maxResources && attempts < maxAttempts) {
-    const randomX = chunkOrigin.x + Math.random() * chunkSize;
-    const randomY = chunkOrigin.y + Math.random() * chunkSize;
+    const randomX = chunkOrigin.x + random() * chunkSize;
+    const randomY = chunkOrigin.y + random() * chunkSize;
     const position = normalizeWorldCoordinates(randomX, randomY);
 
     if (validateResourcePosition(position, positions, minDistance)) {
@@ -0,0 +1,70 @@
+import { ScanLevel } from '../types/world';
+
+export interface ScanLevelConfig {
+  // Credits charged per scan
+  cost: number;
+  // Time after a scan at this level before the player may scan again
+  cooldownMs: number;
+  // Deepest vein (deposit depth, 1-10) the scan can reach
+  maxDepth: number;
+  // Confidence for a vein right under the scan point; it falls off towards the edge of the radius
+  baseConfidence: number;
+  // Surface scans only report the nearest vein, deeper ones everything in range
+  returnsAllVeins: boolean;
+  // How the scan is recorded in `player_scans.scan_type`
+  scanType: 'resource' | 'geological' | 'full';
+}
+
+export const SCAN_LEVEL_CONFIGS: Record<ScanLevel, ScanLevelConfig> = {
+  [ScanLevel.SURFACE]: {
+    cost: 10,
+    cooldownMs: 2_000,
+    maxDepth: 3,
+    baseConfidence: 0.7,
+    returnsAllVeins: false,
+    scanType: 'resource',
+  },
+  [ScanLevel.SHALLOW]: {
+    cost: 25,
+    cooldownMs: 5_000,
+    maxDepth: 5,
+    baseConfidence: 0.8,
+    returnsAllVeins: true,
+    scanType: 'resource',
+  },
+  [ScanLevel.DEEP]: {
+    cost: 60,
+    cooldownMs: 15_000,
+    maxDepth: 8,
+    baseConfidence: 0.9,
+    returnsAllVeins: true,
+    scanType: 'full',
+  },
+  [ScanLevel.GEOLOGICAL]: {
+    cost: 150,
+    cooldownMs: 30_000,
+    maxDepth: 10,
+    baseConfidence: 0.95,
+    returnsAllVeins: true,
+    scanType: 'geological',
+  },
+};
+
+// Share of the base confidence left for a vein at the very edge of the search radius
+const EDGE_CONFIDENCE_FACTOR = 0.5;
+
+/**
+ * Confidence in a vein found `distance` cells from the scan point, falling off linearly
+ * to half the level's base confidence at the edge of the search radius
+ */
+export function getScanConfidence(
+  level: ScanLevel,
+  distance: number,
+  searchRadius: number,
+): number {
+  const { baseConfidence } = SCAN_LEVEL_CONFIGS[level];
+  if (searchRadius <= 0) return baseConfidence;
+
+  const falloff = Math.min(1, Math.max(0, distance / searchRadius));
+  return baseConfidence * (1 - (1 - EDGE_CONFIDENCE_FACTOR) * falloff);
+}
@@ -1,4 +1,4 @@
-import { ExtendedTerrainType } from '../types/world';
+import { ExtendedTerrainType, type ChunkSummary } from '../types/world';
 
 export function isValidTerrainType(value: string): value is ExtendedTerrainType {
   return Object.values(ExtendedTerrainType).includes(value as ExtendedTerrainType);
@@ -73,3 +73,48 @@ export function getTerrainSummary(grid: ExtendedTerrainType[][]): string {
 
   return `${grid.length}x${grid[0].length} terrain grid. Top types: ${topTerrain}`;
 }
+
+// Cells per side of each block in a chunk summary
+export const CHUNK_SUMMARY_BLOCK_SIZE = 4;
+
+/**
+ * Reduce a chunk's terrain to the dominant type of each block, for rendering at far zoom.
+ * Ties go to whichever type reached the count first.
+ */
+export function summarizeChunkTerrain(
+  grid: ExtendedTerrainType[][],
+  blockSize: number = CHUNK_SUMMARY_BLOCK_SIZE,
+): ChunkSummary {
+  const blocksPerSide = Math.ceil(grid.length / blockSize);
+  const blocks: ExtendedTerrainType[][] = [];
+
+  for (let blockRow = 0; blockRow < blocksPerSide; blockRow++) {
+    const row: ExtendedTerrainType[] = [];
+
+    for (let blockCol = 0; blockCol < blocksPerSide; blockCol++) {
+      const counts = new Map<ExtendedTerrainType, number>();
+      let dominant: ExtendedTerrainType | undefined;
+      let dominantCount = 0;
+
+      for (let y = blockRow * blockSize; y < (blockRow + 1) * blockSize; y++) {
+        for (let x = blockCol * blockSize; x < (blockCol + 1) * blockSize; x++) {
+          const cell = grid[y]?.[x];
+          if (!cell) continue;
+
+          const count = (counts.get(cell) ?? 0) + 1;
+          counts.set(cell, count);
+          if (count > dominantCount) {
+            dominant = cell;
+            dominantCount = count;
+          }
+        }
+      }
+
+      row.push(dominant ?? ExtendedTerrainType.OCEAN);
+    }
+
+    blocks.push(row);
+  }
+
+  return { blockSize, blocks };
+}
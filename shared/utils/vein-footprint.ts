@@ -0,0 +1,93 @@
+import { ResourceGrade, type ResourceVein } from '../types/world';
+
+/**
+ * Vein footprints: the ore body around a vein's center where extractors can be placed.
+ *
+ * A footprint is every cell within `deposit.radius` of the vein's center. The server persists the
+ * same circle as `resource_veins.radius` and accepts an extractor at a cell exactly when this
+ * module counts the cell as part of the footprint, so what the client draws is where placement
+ * succeeds.
+ */
+
+// Cells of radius per square root of reserves, so a vein's area grows with its size
+export const VEIN_FOOTPRINT_SCALE = 0.1;
+
+// Vein centers aren't on whole cells; no point is further than √½ from the nearest cell, so every
+// footprint holds at least that cell
+export const MIN_VEIN_FOOTPRINT_RADIUS = 0.75;
+
+const GRADE_INTENSITY: Record<ResourceGrade, number> = {
+  [ResourceGrade.LOW]: 0.55,
+  [ResourceGrade.MEDIUM]: 0.7,
+  [ResourceGrade.HIGH]: 0.85,
+  [ResourceGrade.ULTRA]: 1,
+};
+
+export interface FootprintCell {
+  x: number;
+  y: number;
+  // Distance from the center as a share of the radius, 0 at the center and 1 at the edge
+  falloff: number;
+}
+
+/**
+ * Footprint radius in cells of a vein holding `size` reserves
+ */
+export function getVeinFootprintRadius(size: number): number {
+  return Math.max(MIN_VEIN_FOOTPRINT_RADIUS, Math.sqrt(Math.max(0, size)) * VEIN_FOOTPRINT_SCALE);
+}
+
+/**
+ * Whether an extractor at world cell (x, y) sits inside a vein's footprint
+ */
+export function isInVeinFootprint(
+  vein: Pick<ResourceVein, 'location' | 'deposit'>,
+  x: number,
+  y: number,
+): boolean {
+  return Math.hypot(x - vein.location.worldX, y - vein.location.worldY) <= vein.deposit.radius;
+}
+
+/**
+ * Every world cell in a vein's footprint
+ */
+export function getVeinFootprintCells(
+  vein: Pick<ResourceVein, 'location' | 'deposit'>,
+): FootprintCell[] {
+  const { worldX, worldY } = vein.location;
+  const { radius } = vein.deposit;
+  const cells: FootprintCell[] = [];
+
+  for (let y = Math.ceil(worldY - radius); y <= Math.floor(worldY + radius); y++) {
+    for (let x = Math.ceil(worldX - radius); x <= Math.floor(worldX + radius); x++) {
+      const distance = Math.hypot(x - worldX, y - worldY);
+      if (distance <= radius) {
+        cells.push({ x, y, falloff: radius > 0 ? distance / radius : 0 });
+      }
+    }
+  }
+
+  return cells;
+}
+
+/**
+ * The footprint cell closest to the vein's center that `isFree` accepts, or null when none is
+ */
+export function findVeinPlacementCell(
+  vein: Pick<ResourceVein, 'location' | 'deposit'>,
+  isFree: (x: number, y: number) => boolean = () => true,
+): FootprintCell | null {
+  return (
+    getVeinFootprintCells(vein)
+      .sort((a, b) => a.falloff - b.falloff)
+      .find((cell) => isFree(cell.x, cell.y)) ?? null
+  );
+}
+
+/**
+ * How strongly to draw a vein's ore body, from 0 to 1: richer, higher grade veins stand out more
+ */
+export function getVeinFootprintIntensity(vein: Pick<ResourceVein, 'deposit' | 'quality'>): number {
+  const richness = Math.min(1, Math.max(0, vein.deposit.richness));
+  return (0.4 + 0.6 * richness) * GRADE_INTENSITY[vein.quality.grade];
+}